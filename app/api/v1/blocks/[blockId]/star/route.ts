@@ -0,0 +1,82 @@
+import { requireOwner } from "@/lib/api/auth";
+import { Errors, jsonError } from "@/lib/api/errors";
+import { createRequestLogger } from "@/lib/api/logger";
+import { checkWriteRateLimit } from "@/lib/api/rate-limit";
+import { BlockIdParam } from "@/lib/api/schemas/queries";
+import { BlockStarResponse } from "@/lib/api/schemas/responses";
+import { parseParams } from "@/lib/api/validators";
+import { validateAndSend } from "@/lib/api/validators";
+import { prisma } from "@/lib/db";
+
+// Star and unstar are naturally idempotent, so no Idempotency-Key cache
+async function setStar(
+  req: Request,
+  params: Promise<{ blockId: string }>,
+  starred: boolean
+) {
+  const route = `${starred ? "PUT" : "DELETE"} /v1/blocks/:id/star`;
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkWriteRateLimit(owner.id, route);
+    if (rl) {
+      const { log } = createRequestLogger(req, { route, userId: owner.id });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "writes_per_min",
+        max: 60,
+      });
+      return rl;
+    }
+
+    const { log, ctx } = createRequestLogger(req, { route, userId: owner.id });
+    log.info({ event: "request_start" });
+
+    const parsedParams = await parseParams(params, BlockIdParam);
+    if (parsedParams instanceof Response) return parsedParams;
+    const { blockId } = parsedParams;
+
+    const block = await prisma.contextBlock.findUnique({
+      where: { id: blockId },
+      select: { id: true, userId: true, public: true },
+    });
+    if (!block) return Errors.notFound("Block");
+    if (block.userId !== owner.id && !block.public) return Errors.forbidden();
+
+    if (starred) {
+      await prisma.blockStar.upsert({
+        where: { userId_blockId: { userId: owner.id, blockId } },
+        create: { userId: owner.id, blockId },
+        update: {},
+      });
+    } else {
+      await prisma.blockStar.deleteMany({
+        where: { userId: owner.id, blockId },
+      });
+    }
+
+    const res = validateAndSend({ blockId, starred }, BlockStarResponse, 200);
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    const { log } = createRequestLogger(req, { route, userId: "unknown" });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Internal server error");
+  }
+}
+
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ blockId: string }> }
+) {
+  return setStar(req, params, true);
+}
+
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ blockId: string }> }
+) {
+  return setStar(req, params, false);
+}
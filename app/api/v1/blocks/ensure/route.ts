@@ -0,0 +1,142 @@
+import { requireOwner } from "@/lib/api/auth";
+import { Errors, jsonError } from "@/lib/api/errors";
+import {
+  cacheIdempotentResponse,
+  getCachedIdempotentResponse,
+} from "@/lib/api/idempotency";
+import { createRequestLogger } from "@/lib/api/logger";
+import { checkWriteRateLimit } from "@/lib/api/rate-limit";
+import { EnsureBlockBody } from "@/lib/api/schemas/requests";
+import { EnsureBlockResponse } from "@/lib/api/schemas/responses";
+import { validateAndSend } from "@/lib/api/validators";
+import { prisma } from "@/lib/db";
+import type { Prisma } from "@/lib/generated/prisma";
+import { blockChecksum, contentChecksum } from "@/lib/utils/block-checksum";
+
+/**
+ * Create a library block, or return the caller's existing block with the
+ * same kind and content. Ensured blocks are starred so they show up in the
+ * caller's library.
+ */
+export async function POST(req: Request) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkWriteRateLimit(owner.id, "POST /v1/blocks/ensure");
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "POST /v1/blocks/ensure",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "writes_per_min",
+        max: 60,
+      });
+      return rl;
+    }
+
+    // Idempotency replay
+    const cached = await getCachedIdempotentResponse(req, owner.id);
+    const { log, ctx } = createRequestLogger(req, {
+      route: "POST /v1/blocks/ensure",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+    if (cached) {
+      log.info({ event: "idempotency_check", result: "hit" });
+      return new Response(JSON.stringify(cached.body ?? {}), {
+        status: cached.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    log.info({ event: "idempotency_check", result: "miss" });
+
+    const body = await req.json().catch(() => null);
+    const parsed = EnsureBlockBody.safeParse(body);
+    if (!parsed.success) {
+      log.info({ event: "validation_result", ok: false });
+      return Errors.validation("Invalid request body", parsed.error.flatten());
+    }
+    const { kind, content, checksum, model } = parsed.data;
+
+    // A client checksum is an integrity check on the content it sent
+    if (checksum && checksum !== contentChecksum(content)) {
+      log.info({ event: "validation_result", ok: false });
+      return Errors.validation("checksum does not match content");
+    }
+    log.info({ event: "validation_result", ok: true });
+
+    const storedChecksum = blockChecksum(owner.id, kind, content);
+
+    const txStart = Date.now();
+    let block = await prisma.contextBlock.findUnique({
+      where: { checksum: storedChecksum },
+    });
+    let created = false;
+    if (!block) {
+      try {
+        block = await prisma.contextBlock.create({
+          data: {
+            userId: owner.id,
+            kind,
+            content: content as unknown as Prisma.InputJsonValue,
+            model: model ?? null,
+            checksum: storedChecksum,
+            public: parsed.data.public ?? false,
+          },
+        });
+        created = true;
+      } catch (err) {
+        // Lost a race with a concurrent ensure of the same content
+        if (
+          err &&
+          typeof err === "object" &&
+          "code" in err &&
+          (err as { code: string }).code === "P2002"
+        ) {
+          block = await prisma.contextBlock.findUnique({
+            where: { checksum: storedChecksum },
+          });
+        }
+        if (!block) throw err;
+      }
+    }
+
+    await prisma.blockStar.upsert({
+      where: { userId_blockId: { userId: owner.id, blockId: block.id } },
+      create: { userId: owner.id, blockId: block.id },
+      update: {},
+    });
+    log.info({
+      event: "tx_end",
+      ok: true,
+      created,
+      durationMs: Date.now() - txStart,
+    });
+
+    const result = { block };
+
+    await cacheIdempotentResponse({
+      req,
+      userId: owner.id,
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+      body: result,
+    });
+
+    const res = validateAndSend(result, EnsureBlockResponse, 200);
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    if (err instanceof Response) return err;
+    const { log } = createRequestLogger(req, {
+      route: "POST /v1/blocks/ensure",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Internal server error");
+  }
+}
@@ -0,0 +1,98 @@
+import { requireOwner } from "@/lib/api/auth";
+import { jsonError } from "@/lib/api/errors";
+import { createRequestLogger } from "@/lib/api/logger";
+import { checkReadRateLimit } from "@/lib/api/rate-limit";
+import { BlocksListQuery } from "@/lib/api/schemas/queries";
+import { BlocksListResponse } from "@/lib/api/schemas/responses";
+import { parseQuery } from "@/lib/api/validators";
+import { validateAndSend } from "@/lib/api/validators";
+import { prisma } from "@/lib/db";
+import type { Prisma } from "@/lib/generated/prisma";
+
+/**
+ * Browse the block library. `public=true` lists public blocks from everyone,
+ * `public=false` lists the caller's own blocks; `starred=true` narrows either
+ * view to blocks the caller has starred.
+ */
+export async function GET(req: Request) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkReadRateLimit(owner.id, "GET /v1/blocks");
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "GET /v1/blocks",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "reads_per_min",
+        max: 300,
+      });
+      return rl;
+    }
+
+    const url = new URL(req.url);
+    const { log, ctx } = createRequestLogger(req, {
+      route: "GET /v1/blocks",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+    const query = parseQuery(url.searchParams, BlocksListQuery);
+    if (query instanceof Response) return query;
+    const { limit, cursor, kind, q, starred } = query;
+
+    // Starred blocks may be the caller's own or public ones
+    const where: Prisma.ContextBlockWhereInput = {
+      ...(starred
+        ? {
+            stars: { some: { userId: owner.id } },
+            OR: [{ userId: owner.id }, { public: true }],
+          }
+        : query.public
+          ? { public: true }
+          : { userId: owner.id }),
+      // Summaries only make sense next to the span they cover
+      kind: kind ?? { not: "summary" },
+      ...(q ? { content: { path: ["text"], string_contains: q } } : {}),
+    };
+
+    const blocks = await prisma.contextBlock.findMany({
+      where,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      include: { stars: { where: { userId: owner.id }, select: { id: true } } },
+    });
+
+    let nextCursor: string | null = null;
+    if (blocks.length > limit) {
+      blocks.pop();
+      nextCursor = blocks[blocks.length - 1]?.id ?? null;
+    }
+
+    const items = blocks.map(({ stars, ...block }) => ({
+      id: block.id,
+      kind: block.kind,
+      content: block.content,
+      public: block.public,
+      createdAt: block.createdAt,
+      checksum: block.checksum,
+      model: block.model,
+      starred: stars.length > 0,
+    }));
+
+    const res = validateAndSend({ items, nextCursor }, BlocksListResponse, 200);
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    const { log } = createRequestLogger(req, {
+      route: "GET /v1/blocks",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Internal server error");
+  }
+}
@@ -1,5 +1,5 @@
 import { generateAndUpdateBranchName } from "@/lib/ai/background-branch-naming";
-import { requireOwner } from "@/lib/api/auth";
+import { liveBranchWhere, requireOwner } from "@/lib/api/auth";
 import { Errors, jsonError } from "@/lib/api/errors";
 import {
   cacheIdempotentResponse,
@@ -17,6 +17,7 @@ import { parseParams } from "@/lib/api/validators";
 import { validateAndSend } from "@/lib/api/validators";
 import { prisma } from "@/lib/db";
 import type { Prisma } from "@/lib/generated/prisma";
+import { recordOperation } from "@/lib/utils/oplog";
 
 export async function POST(
   req: Request,
@@ -72,7 +73,7 @@ export async function POST(
     if (paramOk instanceof Response) return paramOk;
     const { branchId } = paramOk;
     const baseBranch = await prisma.branch.findUnique({
-      where: { id: branchId },
+      where: liveBranchWhere(branchId),
       include: { graph: true },
     });
     if (!baseBranch) return Errors.notFound("Branch");
@@ -100,6 +101,8 @@ export async function POST(
               name: "Generating name...",
               rootNodeId: forkFromNodeId,
               tipNodeId: forkFromNodeId,
+              parentBranchId: baseBranch.id,
+              forkNodeId: forkFromNodeId,
               version: 0,
             },
           })
@@ -153,6 +156,16 @@ export async function POST(
           targetBranch.version ?? 0
         );
       }
+      await recordOperation(tx, {
+        graphId: targetBranch.graphId,
+        branchId: targetBranch.id,
+        kind: "append",
+        forked: !!forkFromNodeId,
+        beforeTipNodeId: targetBranch.tipNodeId,
+        afterTipNodeId: node.id,
+        version: forkFromNodeId ? 1 : baseBranch.version + 1,
+        createdNodeIds: [node.id],
+      });
 
       await tx.graph.update({
         where: { id: targetBranch.graphId },
@@ -0,0 +1,150 @@
+import { liveBranchWhere, requireOwner } from "@/lib/api/auth";
+import { Errors, jsonError } from "@/lib/api/errors";
+import {
+  cacheIdempotentResponse,
+  getCachedIdempotentResponse,
+} from "@/lib/api/idempotency";
+import { createRequestLogger } from "@/lib/api/logger";
+import { checkWriteRateLimit } from "@/lib/api/rate-limit";
+import { BranchIdParam } from "@/lib/api/schemas/queries";
+import { CherryPickBody } from "@/lib/api/schemas/requests";
+import { CherryPickResponse } from "@/lib/api/schemas/responses";
+import { parseParams } from "@/lib/api/validators";
+import { validateAndSend } from "@/lib/api/validators";
+import { prisma } from "@/lib/db";
+import { recordOperation } from "@/lib/utils/oplog";
+import { replayNodes } from "@/lib/utils/replay-nodes";
+
+/**
+ * Append copies of nodes from anywhere in the graph to the branch tip. The
+ * copies reuse the original blocks, so nothing is re-generated.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ branchId: string }> }
+) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkWriteRateLimit(
+      owner.id,
+      "POST /v1/branches/:id/cherry-pick"
+    );
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "POST /v1/branches/:id/cherry-pick",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "writes_per_min",
+        max: 60,
+      });
+      return rl;
+    }
+
+    // Idempotency replay
+    const cached = await getCachedIdempotentResponse(req, owner.id);
+    const { log, ctx } = createRequestLogger(req, {
+      route: "POST /v1/branches/:id/cherry-pick",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+    if (cached) {
+      log.info({ event: "idempotency_check", result: "hit" });
+      return new Response(JSON.stringify(cached.body ?? {}), {
+        status: cached.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    log.info({ event: "idempotency_check", result: "miss" });
+
+    const body = await req.json().catch(() => null);
+    const parsed = CherryPickBody.safeParse(body);
+    if (!parsed.success) {
+      log.info({ event: "validation_result", ok: false });
+      return Errors.validation("Invalid request body", parsed.error.flatten());
+    }
+    log.info({ event: "validation_result", ok: true });
+    const { nodeIds, expectedVersion } = parsed.data;
+
+    const paramOk = await parseParams(params, BranchIdParam);
+    if (paramOk instanceof Response) return paramOk;
+    const { branchId } = paramOk;
+
+    const branch = await prisma.branch.findUnique({
+      where: liveBranchWhere(branchId),
+      include: { graph: true },
+    });
+    if (!branch) return Errors.notFound("Branch");
+    if (branch.graph.userId !== owner.id) return Errors.forbidden();
+    if (!branch.tipNodeId) {
+      return Errors.validation("Branch has no tip to append to");
+    }
+    const tipNodeId = branch.tipNodeId;
+
+    const found = await prisma.graphNode.count({
+      where: { id: { in: nodeIds }, graphId: branch.graphId, hiddenAt: null },
+    });
+    if (found !== new Set(nodeIds).size) {
+      return Errors.validation("nodeIds must be visible nodes of this graph");
+    }
+
+    const txStart = Date.now();
+    const result = await prisma.$transaction(async (tx) => {
+      if (expectedVersion != null && expectedVersion !== branch.version) {
+        throw Errors.conflictTip(tipNodeId, branch.version);
+      }
+
+      const items = await replayNodes(tx, branch.graphId, tipNodeId, nodeIds);
+      const newTip = items[items.length - 1].nodeId;
+
+      const updated = await tx.branch.updateMany({
+        where: { id: branch.id, version: expectedVersion ?? branch.version },
+        data: { tipNodeId: newTip, version: { increment: 1 } },
+      });
+      if (updated.count === 0) {
+        throw Errors.conflictTip(tipNodeId, branch.version);
+      }
+      await recordOperation(tx, {
+        graphId: branch.graphId,
+        branchId: branch.id,
+        kind: "cherry_pick",
+        beforeTipNodeId: tipNodeId,
+        afterTipNodeId: newTip,
+        version: branch.version + 1,
+        createdNodeIds: items.map((i) => i.nodeId),
+      });
+
+      await tx.graph.update({
+        where: { id: branch.graphId },
+        data: { lastActivityAt: new Date() },
+      });
+
+      return { items, newTip, version: branch.version + 1 };
+    });
+    log.info({ event: "tx_end", ok: true, durationMs: Date.now() - txStart });
+
+    await cacheIdempotentResponse({
+      req,
+      userId: owner.id,
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+      body: result,
+    });
+
+    const res = validateAndSend(result, CherryPickResponse, 200);
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    if (err instanceof Response) return err;
+    const { log } = createRequestLogger(req, {
+      route: "POST /v1/branches/:id/cherry-pick",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Internal server error");
+  }
+}
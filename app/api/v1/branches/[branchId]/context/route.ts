@@ -0,0 +1,135 @@
+import { buildSimpleContext } from "@/lib/ai/build-context";
+import { messageTokens, toResponseInput } from "@/lib/ai/context-messages";
+import { getSystemPromptInfo } from "@/lib/ai/system-prompt";
+import { liveBranchWhere, requireOwner } from "@/lib/api/auth";
+import { Errors, jsonError } from "@/lib/api/errors";
+import { createRequestLogger } from "@/lib/api/logger";
+import { checkReadRateLimit } from "@/lib/api/rate-limit";
+import { BranchContextQuery, BranchIdParam } from "@/lib/api/schemas/queries";
+import { BranchContextResponse } from "@/lib/api/schemas/responses";
+import { parseParams, parseQuery } from "@/lib/api/validators";
+import { validateAndSend } from "@/lib/api/validators";
+import {
+  CONTEXT_TOKEN_LIMIT,
+  OPENAI_INPUT_USD_PER_MILLION,
+  OPENAI_MODEL,
+  OPENAI_OUTPUT_USD_PER_MILLION,
+} from "@/lib/config";
+import { prisma } from "@/lib/db";
+
+// Reply length assumed when the context holds no assistant message to go by
+const DEFAULT_OUTPUT_TOKENS = 500;
+
+/**
+ * The exact input the next send on this branch would give the model: system
+ * prompt, then the selected messages in order with their token counts, plus
+ * the nodes left out and why. Read-only; unlike a send it never triggers
+ * background summarization or embedding, so retrieval only finds messages
+ * that already have a stored embedding.
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ branchId: string }> }
+) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkReadRateLimit(owner.id, "GET /v1/branches/:id/context");
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "GET /v1/branches/:id/context",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "reads_per_min",
+        max: 300,
+      });
+      return rl;
+    }
+
+    const { log, ctx } = createRequestLogger(req, {
+      route: "GET /v1/branches/:id/context",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+
+    const paramOk = await parseParams(params, BranchIdParam);
+    if (paramOk instanceof Response) return paramOk;
+    const { branchId } = paramOk;
+
+    const url = new URL(req.url);
+    const query = parseQuery(url.searchParams, BranchContextQuery);
+    if (query instanceof Response) return query;
+
+    const branch = await prisma.branch.findUnique({
+      where: liveBranchWhere(branchId),
+      include: { graph: true },
+    });
+    if (!branch) return Errors.notFound("Branch");
+    if (branch.graph.userId !== owner.id) return Errors.forbidden();
+
+    const [context, systemPrompt] = await Promise.all([
+      buildSimpleContext(branchId, {
+        strategy: query.strategy,
+        readOnly: true,
+      }),
+      getSystemPromptInfo(),
+    ]);
+    const systemTokens = messageTokens(systemPrompt.text);
+    const input = toResponseInput(context.messages);
+
+    const replies = context.messages.filter((m) => m.kind === "assistant");
+    const outputTokens = replies.length
+      ? Math.round(
+          replies.reduce((sum, m) => sum + m.tokens, 0) / replies.length
+        )
+      : DEFAULT_OUTPUT_TOKENS;
+    const inputTokens = systemTokens + context.tokens;
+
+    const result = {
+      branchId,
+      strategy: context.strategy,
+      model: OPENAI_MODEL,
+      systemPrompt: { ...systemPrompt, tokens: systemTokens },
+      messages: context.messages.map((m, i) => ({
+        kind: m.kind,
+        role: input[i].role,
+        text: m.text,
+        tokens: m.tokens,
+        nodeId: m.nodeId ?? null,
+        pinned: !!m.pinned,
+        retrieved: !!m.retrieved,
+        truncated: !!m.truncated,
+      })),
+      dropped: context.dropped,
+      tokens: {
+        system: systemTokens,
+        context: context.tokens,
+        limit: CONTEXT_TOKEN_LIMIT,
+      },
+      estimate: {
+        inputTokens,
+        outputTokens,
+        costUsd:
+          (inputTokens * OPENAI_INPUT_USD_PER_MILLION +
+            outputTokens * OPENAI_OUTPUT_USD_PER_MILLION) /
+          1_000_000,
+      },
+    };
+
+    const res = validateAndSend(result, BranchContextResponse, 200);
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    if (err instanceof Response) return err;
+    const { log } = createRequestLogger(req, {
+      route: "GET /v1/branches/:id/context",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Failed to build context");
+  }
+}
@@ -0,0 +1,138 @@
+import { requireOwner } from "@/lib/api/auth";
+import { Errors, jsonError } from "@/lib/api/errors";
+import { createRequestLogger } from "@/lib/api/logger";
+import { checkReadRateLimit } from "@/lib/api/rate-limit";
+import { BranchDiffParams, BranchDiffQuery } from "@/lib/api/schemas/queries";
+import { BranchDiffResponse } from "@/lib/api/schemas/responses";
+import { parseParams, parseQuery } from "@/lib/api/validators";
+import { validateAndSend } from "@/lib/api/validators";
+import { prisma } from "@/lib/db";
+import { getFollowsPath } from "@/lib/utils/dag";
+
+async function loadItems(nodeIds: string[]) {
+  const nodes = await prisma.graphNode.findMany({
+    where: { id: { in: nodeIds } },
+    include: { block: true },
+  });
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  return nodeIds.flatMap((id) => {
+    const node = byId.get(id);
+    return node ? [{ nodeId: node.id, block: node.block }] : [];
+  });
+}
+
+/**
+ * Compare two branches of the same graph. Both timelines are walked back
+ * from their tips like the linear view; the lowest common ancestor splits
+ * them into a shared prefix and each side's own messages (oldest first).
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ branchId: string; otherBranchId: string }> }
+) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkReadRateLimit(owner.id, "GET /v1/branches/:a/diff/:b");
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "GET /v1/branches/:a/diff/:b",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "reads_per_min",
+        max: 300,
+      });
+      return rl;
+    }
+
+    const { log, ctx } = createRequestLogger(req, {
+      route: "GET /v1/branches/:a/diff/:b",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+
+    const parsedParams = await parseParams(params, BranchDiffParams);
+    if (parsedParams instanceof Response) return parsedParams;
+    const { branchId, otherBranchId } = parsedParams;
+
+    const url = new URL(req.url);
+    const q = parseQuery(url.searchParams, BranchDiffQuery);
+    if (q instanceof Response) return q;
+    const { context } = q;
+
+    const branches = await prisma.branch.findMany({
+      where: {
+        id: { in: [branchId, otherBranchId] },
+        graph: { userId: owner.id, deletedAt: null },
+      },
+      select: { id: true, graphId: true, name: true, tipNodeId: true },
+    });
+    const left = branches.find((b) => b.id === branchId);
+    const right = branches.find((b) => b.id === otherBranchId);
+    if (!left || !right) return Errors.notFound("Branch");
+    if (left.graphId !== right.graphId) {
+      return Errors.validation("Branches must belong to the same graph");
+    }
+
+    // Tip-first paths back to the conversation start
+    const [leftPath, rightPath] = await Promise.all([
+      left.tipNodeId
+        ? getFollowsPath(left.graphId, left.tipNodeId, null)
+        : Promise.resolve([]),
+      right.tipNodeId
+        ? getFollowsPath(right.graphId, right.tipNodeId, null)
+        : Promise.resolve([]),
+    ]);
+
+    const leftSet = new Set(leftPath);
+    const baseIndex = rightPath.findIndex((id) => leftSet.has(id));
+    const baseNodeId = baseIndex >= 0 ? rightPath[baseIndex] : null;
+
+    const rightOnly = (
+      baseIndex >= 0 ? rightPath.slice(0, baseIndex) : rightPath
+    )
+      .slice()
+      .reverse();
+    const leftBaseIndex = baseNodeId ? leftPath.indexOf(baseNodeId) : -1;
+    const leftOnly = (
+      leftBaseIndex >= 0 ? leftPath.slice(0, leftBaseIndex) : leftPath
+    )
+      .slice()
+      .reverse();
+    const sharedPath = leftBaseIndex >= 0 ? leftPath.slice(leftBaseIndex) : [];
+
+    const [sharedItems, leftItems, rightItems] = await Promise.all([
+      loadItems(sharedPath.slice(0, context).reverse()),
+      loadItems(leftOnly),
+      loadItems(rightOnly),
+    ]);
+
+    const result = {
+      baseNodeId,
+      shared: { total: sharedPath.length, items: sharedItems },
+      left: {
+        branch: { id: left.id, name: left.name, tipNodeId: left.tipNodeId },
+        items: leftItems,
+      },
+      right: {
+        branch: { id: right.id, name: right.name, tipNodeId: right.tipNodeId },
+        items: rightItems,
+      },
+    };
+
+    const res = validateAndSend(result, BranchDiffResponse, 200);
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    const { log } = createRequestLogger(req, {
+      route: "GET /v1/branches/:a/diff/:b",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Internal server error");
+  }
+}
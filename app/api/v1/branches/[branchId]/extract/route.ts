@@ -0,0 +1,180 @@
+import { liveBranchWhere, requireOwner } from "@/lib/api/auth";
+import { Errors, jsonError } from "@/lib/api/errors";
+import {
+  cacheIdempotentResponse,
+  getCachedIdempotentResponse,
+} from "@/lib/api/idempotency";
+import { createRequestLogger } from "@/lib/api/logger";
+import { checkWriteRateLimit } from "@/lib/api/rate-limit";
+import { BranchIdParam } from "@/lib/api/schemas/queries";
+import { ExtractBranchBody } from "@/lib/api/schemas/requests";
+import { ExtractBranchResponse } from "@/lib/api/schemas/responses";
+import { parseParams } from "@/lib/api/validators";
+import { validateAndSend } from "@/lib/api/validators";
+import { prisma } from "@/lib/db";
+import { getFollowsPath } from "@/lib/utils/dag";
+import { replayNodes } from "@/lib/utils/replay-nodes";
+import { ensureUniqueGraphTitle } from "@/lib/utils/unique-name";
+
+// Copying a long history node by node can outlast the default 5s
+const EXTRACT_TX_TIMEOUT_MS = 30_000;
+
+/**
+ * Copy a branch's full linear history (root of the graph to tip) into a new
+ * graph whose `main` branch ends where this branch does. The source graph is
+ * left untouched.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ branchId: string }> }
+) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkWriteRateLimit(owner.id, "POST /v1/branches/:id/extract");
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "POST /v1/branches/:id/extract",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "writes_per_min",
+        max: 60,
+      });
+      return rl;
+    }
+
+    // Idempotency replay
+    const cached = await getCachedIdempotentResponse(req, owner.id);
+    const { log, ctx } = createRequestLogger(req, {
+      route: "POST /v1/branches/:id/extract",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+    if (cached) {
+      log.info({ event: "idempotency_check", result: "hit" });
+      return new Response(JSON.stringify(cached.body ?? {}), {
+        status: cached.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    log.info({ event: "idempotency_check", result: "miss" });
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = ExtractBranchBody.safeParse(body);
+    if (!parsed.success) {
+      log.info({ event: "validation_result", ok: false });
+      return Errors.validation("Invalid request body", parsed.error.flatten());
+    }
+    log.info({ event: "validation_result", ok: true });
+    const { title } = parsed.data;
+
+    const paramOk = await parseParams(params, BranchIdParam);
+    if (paramOk instanceof Response) return paramOk;
+    const { branchId } = paramOk;
+
+    const branch = await prisma.branch.findUnique({
+      where: liveBranchWhere(branchId),
+      include: { graph: true },
+    });
+    if (!branch) return Errors.notFound("Branch");
+    if (branch.graph.userId !== owner.id) return Errors.forbidden();
+    if (!branch.tipNodeId) {
+      return Errors.validation("Branch has no messages to extract");
+    }
+
+    // Full history, oldest first
+    const pathIds = (
+      await getFollowsPath(branch.graphId, branch.tipNodeId, null)
+    ).reverse();
+
+    const txStart = Date.now();
+    const result = await prisma.$transaction(
+      async (tx) => {
+        const now = new Date();
+
+        const graph = await tx.graph.create({
+          data: {
+            userId: owner.id,
+            title: await ensureUniqueGraphTitle(
+              owner.id,
+              title ?? `${branch.graph.title ?? "Untitled"} – ${branch.name}`,
+              tx
+            ),
+            lastActivityAt: now,
+          },
+        });
+
+        const items = await replayNodes(
+          tx,
+          branch.graphId,
+          null,
+          pathIds,
+          graph.id
+        );
+        if (items.length === 0) {
+          throw Errors.validation("Branch has no messages to extract");
+        }
+
+        const main = await tx.branch.create({
+          data: {
+            graphId: graph.id,
+            name: "main",
+            rootNodeId: items[0].nodeId,
+            tipNodeId: items[items.length - 1].nodeId,
+          },
+        });
+
+        return {
+          graph: {
+            id: graph.id,
+            title: graph.title,
+            description: graph.description,
+            createdAt: graph.createdAt,
+            lastActivityAt: graph.lastActivityAt,
+          },
+          branch: {
+            id: main.id,
+            graphId: graph.id,
+            name: main.name,
+            rootNodeId: main.rootNodeId,
+            tipNodeId: main.tipNodeId,
+            version: main.version,
+          },
+          sourceBranchId: branch.id,
+          nodeCount: items.length,
+        };
+      },
+      { timeout: EXTRACT_TX_TIMEOUT_MS }
+    );
+    log.info({
+      event: "tx_end",
+      ok: true,
+      durationMs: Date.now() - txStart,
+      nodes: result.nodeCount,
+    });
+
+    await cacheIdempotentResponse({
+      req,
+      userId: owner.id,
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+      body: result,
+    });
+
+    const res = validateAndSend(result, ExtractBranchResponse, 200);
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    if (err instanceof Response) return err;
+    const { log } = createRequestLogger(req, {
+      route: "POST /v1/branches/:id/extract",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Internal server error");
+  }
+}
@@ -1,8 +1,14 @@
 import { generateAndUpdateBranchName } from "@/lib/ai/background-branch-naming";
-import { buildSimpleContext } from "@/lib/ai/build-context";
+import {
+  buildSelectedContext,
+  buildSimpleContext,
+  findUnselectableNodes,
+} from "@/lib/ai/build-context";
+import { CONTEXT_STRATEGIES } from "@/lib/ai/context-strategies";
+import { indexGraphEmbeddings } from "@/lib/ai/retrieval";
 import { streamOpenAIResponse } from "@/lib/ai/stream-response";
 import { buildPromptWithSystem } from "@/lib/ai/system-prompt";
-import { requireOwner } from "@/lib/api/auth";
+import { liveBranchWhere, requireOwner } from "@/lib/api/auth";
 import { Errors } from "@/lib/api/errors";
 import {
   cacheIdempotentResponse,
@@ -26,6 +32,7 @@ import { writeSSE } from "@/lib/api/validators";
 import { parseParams } from "@/lib/api/validators";
 import { prisma } from "@/lib/db";
 import type { Prisma } from "@/lib/generated/prisma";
+import { recordOperation } from "@/lib/utils/oplog";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -137,8 +144,27 @@ export async function POST(
       log.info({ event: "validation_result", ok: false });
       return new Response(sse.readable, { headers });
     }
+    const unselectable = parsed.data.contextNodeIds
+      ? await findUnselectableNodes(branchId, parsed.data.contextNodeIds)
+      : [];
+    if (unselectable.length > 0) {
+      queueMicrotask(async () => {
+        await sendValidationError(sse, {
+          formErrors: [],
+          fieldErrors: {
+            contextNodeIds: [
+              `Not a node of this graph: ${unselectable.join(", ")}`,
+            ],
+          },
+        });
+        cleanupOnce();
+      });
+      log.info({ event: "validation_result", ok: false });
+      return new Response(sse.readable, { headers });
+    }
     log.info({ event: "validation_result", ok: true });
-    const { expectedVersion, forkFromNodeId } = parsed.data;
+    const { expectedVersion, forkFromNodeId, contextStrategy, contextNodeIds } =
+      parsed.data;
 
     const keepalive = startKeepalive(sse);
 
@@ -146,11 +172,20 @@ export async function POST(
     void (async () => {
       try {
         // Generate assistant message while streaming deltas to the client
-        const contextMessages = await buildSimpleContext(branchId);
-        const context = await buildPromptWithSystem(contextMessages);
+        const context = contextNodeIds
+          ? await buildSelectedContext(contextNodeIds)
+          : await buildSimpleContext(branchId, { strategy: contextStrategy });
+        const { messages: contextMessages, pinnedNodeIds } = context;
+        // Records what this answer saw: the pins it got, or the exact
+        // hand-picked nodes so the context can be reproduced
+        const meta = {
+          ...(pinnedNodeIds.length > 0 ? { pinnedNodeIds } : {}),
+          ...(contextNodeIds ? { contextNodeIds } : {}),
+        };
+        const messages = await buildPromptWithSystem(contextMessages);
 
         const { finalText, model, tokenCount } = await streamOpenAIResponse({
-          context,
+          messages,
           onDelta: async (chunk) => {
             await writeSSE(SSEDeltaSchema, "delta", { text: chunk }, sse);
           },
@@ -162,7 +197,7 @@ export async function POST(
         const txStart = Date.now();
         const commitResult = await prisma.$transaction(async (tx) => {
           const baseBranch = await tx.branch.findUnique({
-            where: { id: branchId },
+            where: liveBranchWhere(branchId),
             include: { graph: true },
           });
           if (!baseBranch) return { error: Errors.notFound("Branch") };
@@ -187,6 +222,8 @@ export async function POST(
                 name: "Generating name...",
                 rootNodeId: fromNode.id,
                 tipNodeId: fromNode.id,
+                parentBranchId: baseBranch.id,
+                forkNodeId: fromNode.id,
                 version: 0,
               },
               include: { graph: true },
@@ -212,6 +249,7 @@ export async function POST(
               kind: "assistant",
               content: {
                 text: finalText,
+                ...(Object.keys(meta).length > 0 ? { meta } : {}),
               } as unknown as Prisma.InputJsonValue,
               model,
               tokenCount,
@@ -247,6 +285,16 @@ export async function POST(
               ),
             };
           }
+          await recordOperation(tx, {
+            graphId: targetBranch.graphId,
+            branchId: targetBranch.id,
+            kind: "generate",
+            forked: !!forkFromNodeId,
+            beforeTipNodeId: targetBranch.tipNodeId,
+            afterTipNodeId: node.id,
+            version: forkFromNodeId ? 1 : baseBranch.version + 1,
+            createdNodeIds: [node.id],
+          });
 
           await tx.graph.update({
             where: { id: targetBranch.graphId },
@@ -295,6 +343,18 @@ export async function POST(
           await recordTokenUsage(owner.id, tokenCount);
         }
 
+        // Embed the new message so other branches can retrieve it
+        if (
+          context.strategy &&
+          CONTEXT_STRATEGIES[context.strategy].retrieval
+        ) {
+          const branch = await prisma.branch.findUnique({
+            where: { id: branchId },
+            select: { graphId: true },
+          });
+          if (branch) void indexGraphEmbeddings(branch.graphId, owner.id, log);
+        }
+
         // Unified final envelope: items array (assistant-only for generate)
         const { nodeId, block, ...rest } = commitResult as unknown as {
           nodeId: string;
@@ -329,7 +389,7 @@ export async function POST(
         if (forkFromNodeId && "branch" in finalUnified) {
           const newBranchId = (finalUnified.branch as { id: string }).id;
           const baseBranch = await prisma.branch.findUnique({
-            where: { id: branchId },
+            where: liveBranchWhere(branchId),
             include: { graph: true },
           });
           if (baseBranch) {
@@ -0,0 +1,176 @@
+import { liveBranchWhere, requireOwner } from "@/lib/api/auth";
+import { Errors, jsonError } from "@/lib/api/errors";
+import {
+  cacheIdempotentResponse,
+  getCachedIdempotentResponse,
+} from "@/lib/api/idempotency";
+import { createRequestLogger } from "@/lib/api/logger";
+import { checkWriteRateLimit } from "@/lib/api/rate-limit";
+import { BranchIdParam } from "@/lib/api/schemas/queries";
+import { InjectBody } from "@/lib/api/schemas/requests";
+import { InjectResponse } from "@/lib/api/schemas/responses";
+import { parseParams } from "@/lib/api/validators";
+import { validateAndSend } from "@/lib/api/validators";
+import { prisma } from "@/lib/db";
+import { wouldCreateCycle } from "@/lib/utils/dag";
+
+/**
+ * Attach an existing ContextBlock to the branch tip as a `references` edge.
+ * The tip itself does not move, so the branch version is left untouched.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ branchId: string }> }
+) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkWriteRateLimit(owner.id, "POST /v1/branches/:id/inject");
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "POST /v1/branches/:id/inject",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "writes_per_min",
+        max: 60,
+      });
+      return rl;
+    }
+
+    // Idempotency replay
+    const cached = await getCachedIdempotentResponse(req, owner.id);
+    const { log, ctx } = createRequestLogger(req, {
+      route: "POST /v1/branches/:id/inject",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+    if (cached) {
+      log.info({ event: "idempotency_check", result: "hit" });
+      return new Response(JSON.stringify(cached.body ?? {}), {
+        status: cached.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    log.info({ event: "idempotency_check", result: "miss" });
+
+    const body = await req.json().catch(() => null);
+    const parsed = InjectBody.safeParse(body);
+    if (!parsed.success) {
+      log.info({ event: "validation_result", ok: false });
+      return Errors.validation("Invalid request body", parsed.error.flatten());
+    }
+    log.info({ event: "validation_result", ok: true });
+    const { blockId, reuseExistingNode } = parsed.data;
+
+    const paramOk = await parseParams(params, BranchIdParam);
+    if (paramOk instanceof Response) return paramOk;
+    const { branchId } = paramOk;
+
+    const branch = await prisma.branch.findUnique({
+      where: liveBranchWhere(branchId),
+      include: { graph: true },
+    });
+    if (!branch) return Errors.notFound("Branch");
+    if (branch.graph.userId !== owner.id) return Errors.forbidden();
+    if (!branch.tipNodeId) {
+      return Errors.validation("Branch has no tip to attach a reference to");
+    }
+    const tipNodeId = branch.tipNodeId;
+
+    // Only the owner's blocks or public library blocks may be referenced
+    const block = await prisma.contextBlock.findUnique({
+      where: { id: blockId },
+    });
+    if (!block) return Errors.notFound("Block");
+    if (block.userId !== owner.id && !block.public) return Errors.forbidden();
+
+    const txStart = Date.now();
+    const result = await prisma.$transaction(async (tx) => {
+      // The same block attached twice to the same tip is a no-op
+      const existingEdge = await tx.blockEdge.findFirst({
+        where: {
+          graphId: branch.graphId,
+          parentNodeId: tipNodeId,
+          relation: "references",
+          deletedAt: null,
+          childNode: { blockId, hiddenAt: null },
+        },
+      });
+      if (existingEdge) {
+        return { reference: { nodeId: existingEdge.childNodeId, block } };
+      }
+
+      const reusable = reuseExistingNode
+        ? await tx.graphNode.findFirst({
+            where: { graphId: branch.graphId, blockId, hiddenAt: null },
+          })
+        : null;
+
+      if (
+        reusable &&
+        (await wouldCreateCycle(branch.graphId, tipNodeId, reusable.id, tx))
+      ) {
+        throw Errors.dagCycle({
+          parentNodeId: tipNodeId,
+          childNodeId: reusable.id,
+        });
+      }
+
+      const refNode =
+        reusable ??
+        (await tx.graphNode.create({
+          data: { graphId: branch.graphId, blockId },
+        }));
+
+      const ord = await tx.blockEdge.count({
+        where: {
+          graphId: branch.graphId,
+          parentNodeId: tipNodeId,
+          relation: "references",
+          deletedAt: null,
+        },
+      });
+      await tx.blockEdge.create({
+        data: {
+          graphId: branch.graphId,
+          parentNodeId: tipNodeId,
+          childNodeId: refNode.id,
+          relation: "references",
+          ord,
+        },
+      });
+
+      await tx.graph.update({
+        where: { id: branch.graphId },
+        data: { lastActivityAt: new Date() },
+      });
+
+      return { reference: { nodeId: refNode.id, block } };
+    });
+    log.info({ event: "tx_end", ok: true, durationMs: Date.now() - txStart });
+
+    await cacheIdempotentResponse({
+      req,
+      userId: owner.id,
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+      body: result,
+    });
+
+    const res = validateAndSend(result, InjectResponse, 200);
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    if (err instanceof Response) return err;
+    const { log } = createRequestLogger(req, {
+      route: "POST /v1/branches/:id/inject",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Internal server error");
+  }
+}
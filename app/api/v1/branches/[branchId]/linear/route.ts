@@ -1,4 +1,4 @@
-import { requireOwner } from "@/lib/api/auth";
+import { liveBranchWhere, requireOwner } from "@/lib/api/auth";
 import { Errors, jsonError } from "@/lib/api/errors";
 import { createRequestLogger } from "@/lib/api/logger";
 import { BranchIdParam, LinearQuery } from "@/lib/api/schemas/queries";
@@ -36,7 +36,7 @@ export async function GET(
     const includeRefs = (include || "").split(",").includes("references");
 
     const br = await prisma.branch.findUnique({
-      where: { id: branchId },
+      where: liveBranchWhere(branchId),
       include: { graph: true },
     });
     if (!br) return Errors.notFound("Branch");
@@ -56,21 +56,28 @@ export async function GET(
 
     // Backtrack from tip following the 'follows' edges backwards to the conversation start
     // This matches the context-building algorithm and gives the full conversation history
+    // Merge nodes have several parents; only the first one (lowest ord) is followed
     const allRows = await prisma.$queryRaw<
       Array<{ nodeId: string; depth: number }>
     >`
       with recursive backtrack(id, depth) as (
         select ${br.tipNodeId}::text as id, 0 as depth
         union all
-        select e."parentNodeId", backtrack.depth + 1
+        select p.id, backtrack.depth + 1
         from backtrack
-        join "BlockEdge" e on e."childNodeId" = backtrack.id
-        join "GraphNode" pn on pn.id = e."parentNodeId"
-        where e."graphId" = ${br.graphId} 
-          and e."relation" = 'follows' 
-          and e."deletedAt" is null
-          and pn."hiddenAt" is null
-          and backtrack.depth < 200
+        cross join lateral (
+          select e."parentNodeId" as id
+          from "BlockEdge" e
+          join "GraphNode" pn on pn.id = e."parentNodeId"
+          where e."childNodeId" = backtrack.id
+            and e."graphId" = ${br.graphId}
+            and e."relation" = 'follows'
+            and e."deletedAt" is null
+            and pn."hiddenAt" is null
+          order by coalesce(e."ord", 0), e."createdAt", e.id
+          limit 1
+        ) p
+        where backtrack.depth < 200
       )
       select id as "nodeId", depth 
       from backtrack
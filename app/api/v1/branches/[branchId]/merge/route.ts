@@ -0,0 +1,280 @@
+import { generateMergeText } from "@/lib/ai/merge";
+import { type Message } from "@/lib/ai/naming";
+import { liveBranchWhere, requireOwner } from "@/lib/api/auth";
+import { Errors, jsonError } from "@/lib/api/errors";
+import {
+  cacheIdempotentResponse,
+  getCachedIdempotentResponse,
+} from "@/lib/api/idempotency";
+import { createRequestLogger } from "@/lib/api/logger";
+import { checkQuota, recordTokenUsage } from "@/lib/api/quota";
+import { checkWriteRateLimit } from "@/lib/api/rate-limit";
+import { BranchIdParam } from "@/lib/api/schemas/queries";
+import { MergeBody } from "@/lib/api/schemas/requests";
+import { MergeResponse } from "@/lib/api/schemas/responses";
+import { parseParams } from "@/lib/api/validators";
+import { validateAndSend } from "@/lib/api/validators";
+import { prisma } from "@/lib/db";
+import type { Prisma } from "@/lib/generated/prisma";
+import {
+  findMergeBase,
+  getFollowsPath,
+  wouldCreateCycle,
+} from "@/lib/utils/dag";
+import { recordOperation } from "@/lib/utils/oplog";
+
+// Messages per side (and of shared history) handed to the model
+const MAX_MERGE_MESSAGES = 20;
+const MAX_SHARED_MESSAGES = 6;
+
+async function loadMessages(nodeIds: string[]): Promise<Message[]> {
+  const nodes = await prisma.graphNode.findMany({
+    where: { id: { in: nodeIds }, hiddenAt: null },
+    include: { block: true },
+  });
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  return nodeIds.flatMap((id) => {
+    const node = byId.get(id);
+    if (!node) return [];
+    const content = node.block.content as { text?: string } | null;
+    return [
+      {
+        role: node.block.kind === "user" ? "user" : "assistant",
+        content: content?.text ?? "",
+      } satisfies Message,
+    ];
+  });
+}
+
+/**
+ * Merge another branch of the same graph into this one. The model writes a
+ * block reconciling both sides since their lowest common ancestor; the block
+ * follows both tips (this branch's tip first, so timeline walks stay on this
+ * branch) and becomes the new tip. The source branch is left untouched.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ branchId: string }> }
+) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkWriteRateLimit(owner.id, "POST /v1/branches/:id/merge");
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "POST /v1/branches/:id/merge",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "writes_per_min",
+        max: 60,
+      });
+      return rl;
+    }
+
+    // Idempotency replay
+    const cached = await getCachedIdempotentResponse(req, owner.id);
+    const { log, ctx } = createRequestLogger(req, {
+      route: "POST /v1/branches/:id/merge",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+    if (cached) {
+      log.info({ event: "idempotency_check", result: "hit" });
+      return new Response(JSON.stringify(cached.body ?? {}), {
+        status: cached.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    log.info({ event: "idempotency_check", result: "miss" });
+
+    const body = await req.json().catch(() => null);
+    const parsed = MergeBody.safeParse(body);
+    if (!parsed.success) {
+      log.info({ event: "validation_result", ok: false });
+      return Errors.validation("Invalid request body", parsed.error.flatten());
+    }
+    log.info({ event: "validation_result", ok: true });
+    const { sourceBranchId, expectedVersion } = parsed.data;
+
+    const paramOk = await parseParams(params, BranchIdParam);
+    if (paramOk instanceof Response) return paramOk;
+    const { branchId } = paramOk;
+
+    const branch = await prisma.branch.findUnique({
+      where: liveBranchWhere(branchId),
+      include: { graph: true },
+    });
+    if (!branch) return Errors.notFound("Branch");
+    if (branch.graph.userId !== owner.id) return Errors.forbidden();
+    if (expectedVersion != null && expectedVersion !== branch.version) {
+      return Errors.conflictTip(branch.tipNodeId, branch.version);
+    }
+
+    const source = await prisma.branch.findUnique({
+      where: { id: sourceBranchId },
+    });
+    if (!source || source.graphId !== branch.graphId) {
+      return Errors.validation("sourceBranchId must belong to the same graph");
+    }
+    if (source.id === branch.id) {
+      return Errors.validation("Cannot merge a branch into itself");
+    }
+    if (!branch.tipNodeId || !source.tipNodeId) {
+      return Errors.validation("Both branches need a tip to merge");
+    }
+    const targetTipId = branch.tipNodeId;
+    const sourceTipId = source.tipNodeId;
+
+    const mergeBase = await findMergeBase(
+      branch.graphId,
+      targetTipId,
+      sourceTipId
+    );
+    if (!mergeBase) {
+      return Errors.invalidReachability("Branches share no common history");
+    }
+    if (mergeBase.sourceOnly.length === 0) {
+      return Errors.validation("Source branch has nothing new to merge");
+    }
+
+    // Merging spends tokens like any other generation
+    const quotaStatus = await checkQuota(owner.id);
+    if (quotaStatus.remaining <= 0) {
+      return Errors.quotaExceeded(
+        quotaStatus.resetDate,
+        quotaStatus.used,
+        quotaStatus.limit
+      );
+    }
+
+    const sharedIds = (
+      await getFollowsPath(branch.graphId, mergeBase.baseNodeId, null)
+    )
+      .slice(0, MAX_SHARED_MESSAGES)
+      .reverse();
+    const [shared, target, sourceMessages] = await Promise.all([
+      loadMessages(sharedIds),
+      loadMessages(mergeBase.targetOnly.slice(-MAX_MERGE_MESSAGES)),
+      loadMessages(mergeBase.sourceOnly.slice(-MAX_MERGE_MESSAGES)),
+    ]);
+
+    const genStart = Date.now();
+    const { text, model, tokenCount } = await generateMergeText({
+      targetName: branch.name,
+      sourceName: source.name,
+      shared,
+      target,
+      source: sourceMessages,
+    });
+    log.info({
+      event: "merge_generated",
+      durationMs: Date.now() - genStart,
+      targetMessages: target.length,
+      sourceMessages: sourceMessages.length,
+    });
+
+    const txStart = Date.now();
+    const result = await prisma.$transaction(async (tx) => {
+      const block = await tx.contextBlock.create({
+        data: {
+          userId: owner.id,
+          kind: "assistant",
+          content: { text } as unknown as Prisma.InputJsonValue,
+          model,
+          tokenCount,
+          public: false,
+        },
+      });
+      const node = await tx.graphNode.create({
+        data: { graphId: branch.graphId, blockId: block.id },
+      });
+
+      // First parent (ord 0) is this branch's tip, the source tip comes second
+      const parents = [targetTipId, sourceTipId];
+      for (const [ord, parentNodeId] of parents.entries()) {
+        if (await wouldCreateCycle(branch.graphId, parentNodeId, node.id, tx)) {
+          throw Errors.dagCycle({ parentNodeId, childNodeId: node.id });
+        }
+        await tx.blockEdge.create({
+          data: {
+            graphId: branch.graphId,
+            parentNodeId,
+            childNodeId: node.id,
+            relation: "follows",
+            ord,
+          },
+        });
+      }
+
+      // The tip may have moved while the merge was being written
+      const updated = await tx.branch.updateMany({
+        where: {
+          id: branch.id,
+          version: expectedVersion ?? branch.version,
+          tipNodeId: targetTipId,
+        },
+        data: { tipNodeId: node.id, version: { increment: 1 } },
+      });
+      if (updated.count === 0) {
+        const current = await tx.branch.findUnique({
+          where: { id: branch.id },
+        });
+        throw Errors.conflictTip(
+          current?.tipNodeId ?? null,
+          current?.version ?? branch.version
+        );
+      }
+      await recordOperation(tx, {
+        graphId: branch.graphId,
+        branchId: branch.id,
+        kind: "merge",
+        beforeTipNodeId: targetTipId,
+        afterTipNodeId: node.id,
+        version: branch.version + 1,
+        createdNodeIds: [node.id],
+      });
+
+      await tx.graph.update({
+        where: { id: branch.graphId },
+        data: { lastActivityAt: new Date() },
+      });
+
+      return {
+        item: { nodeId: node.id, block },
+        newTip: node.id,
+        version: branch.version + 1,
+        mergeBaseNodeId: mergeBase.baseNodeId,
+        sourceTipNodeId: sourceTipId,
+      };
+    });
+    log.info({ event: "tx_end", ok: true, durationMs: Date.now() - txStart });
+
+    if (tokenCount && tokenCount > 0) {
+      await recordTokenUsage(owner.id, tokenCount);
+    }
+
+    await cacheIdempotentResponse({
+      req,
+      userId: owner.id,
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+      body: result,
+    });
+
+    const res = validateAndSend(result, MergeResponse, 200);
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    if (err instanceof Response) return err;
+    const { log } = createRequestLogger(req, {
+      route: "POST /v1/branches/:id/merge",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Internal server error");
+  }
+}
@@ -0,0 +1,102 @@
+import { liveBranchWhere, requireOwner } from "@/lib/api/auth";
+import { Errors, jsonError } from "@/lib/api/errors";
+import {
+  cacheIdempotentResponse,
+  getCachedIdempotentResponse,
+} from "@/lib/api/idempotency";
+import { createRequestLogger } from "@/lib/api/logger";
+import { checkWriteRateLimit } from "@/lib/api/rate-limit";
+import { BranchNodeParams } from "@/lib/api/schemas/queries";
+import { UnpinNodeResponse } from "@/lib/api/schemas/responses";
+import { parseParams } from "@/lib/api/validators";
+import { validateAndSend } from "@/lib/api/validators";
+import { prisma } from "@/lib/db";
+
+/** Unpin a node from this branch's context. The node itself is untouched. */
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ branchId: string; nodeId: string }> }
+) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkWriteRateLimit(
+      owner.id,
+      "DELETE /v1/branches/:id/pins/:nodeId"
+    );
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "DELETE /v1/branches/:id/pins/:nodeId",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "writes_per_min",
+        max: 60,
+      });
+      return rl;
+    }
+
+    // Idempotency replay
+    const cached = await getCachedIdempotentResponse(req, owner.id);
+    const { log, ctx } = createRequestLogger(req, {
+      route: "DELETE /v1/branches/:id/pins/:nodeId",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+    if (cached) {
+      log.info({ event: "idempotency_check", result: "hit" });
+      return new Response(JSON.stringify(cached.body ?? {}), {
+        status: cached.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    log.info({ event: "idempotency_check", result: "miss" });
+
+    const paramOk = await parseParams(params, BranchNodeParams);
+    if (paramOk instanceof Response) return paramOk;
+    const { branchId, nodeId } = paramOk;
+
+    const branch = await prisma.branch.findUnique({
+      where: liveBranchWhere(branchId),
+      include: { graph: true },
+    });
+    if (!branch) return Errors.notFound("Branch");
+    if (branch.graph.userId !== owner.id) return Errors.forbidden();
+
+    const txStart = Date.now();
+    const { count } = await prisma.nodePin.deleteMany({
+      where: { branchId, nodeId },
+    });
+    if (count === 0) return Errors.notFound("Pin");
+    log.info({ event: "tx_end", ok: true, durationMs: Date.now() - txStart });
+
+    const result = {
+      branchId,
+      nodeId,
+      unpinnedAt: new Date().toISOString(),
+    };
+
+    await cacheIdempotentResponse({
+      req,
+      userId: owner.id,
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+      body: result,
+    });
+
+    const res = validateAndSend(result, UnpinNodeResponse, 200);
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    if (err instanceof Response) return err;
+    const { log } = createRequestLogger(req, {
+      route: "DELETE /v1/branches/:id/pins/:nodeId",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Failed to unpin node");
+  }
+}
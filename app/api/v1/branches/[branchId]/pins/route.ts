@@ -0,0 +1,146 @@
+import { liveBranchWhere, requireOwner } from "@/lib/api/auth";
+import { Errors, jsonError } from "@/lib/api/errors";
+import {
+  cacheIdempotentResponse,
+  getCachedIdempotentResponse,
+} from "@/lib/api/idempotency";
+import { createRequestLogger } from "@/lib/api/logger";
+import { checkWriteRateLimit } from "@/lib/api/rate-limit";
+import { BranchIdParam } from "@/lib/api/schemas/queries";
+import { PinNodeBody } from "@/lib/api/schemas/requests";
+import { PinNodeResponse } from "@/lib/api/schemas/responses";
+import { parseParams } from "@/lib/api/validators";
+import { validateAndSend } from "@/lib/api/validators";
+import { CONTEXT_MAX_PINNED_NODES } from "@/lib/config";
+import { prisma } from "@/lib/db";
+import { toPinItem } from "@/lib/utils/pins";
+
+/**
+ * Pin a node into this branch's context. The node may sit on any branch of the
+ * same graph; pinned nodes are placed ahead of the recent history in every
+ * prompt built for the branch.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ branchId: string }> }
+) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkWriteRateLimit(owner.id, "POST /v1/branches/:id/pins");
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "POST /v1/branches/:id/pins",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "writes_per_min",
+        max: 60,
+      });
+      return rl;
+    }
+
+    // Idempotency replay
+    const cached = await getCachedIdempotentResponse(req, owner.id);
+    const { log, ctx } = createRequestLogger(req, {
+      route: "POST /v1/branches/:id/pins",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+    if (cached) {
+      log.info({ event: "idempotency_check", result: "hit" });
+      return new Response(JSON.stringify(cached.body ?? {}), {
+        status: cached.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    log.info({ event: "idempotency_check", result: "miss" });
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = PinNodeBody.safeParse(body);
+    if (!parsed.success) {
+      log.info({ event: "validation_result", ok: false });
+      return Errors.validation("Invalid request body", parsed.error.flatten());
+    }
+    log.info({ event: "validation_result", ok: true });
+    const { nodeId } = parsed.data;
+
+    const paramOk = await parseParams(params, BranchIdParam);
+    if (paramOk instanceof Response) return paramOk;
+    const { branchId } = paramOk;
+
+    const branch = await prisma.branch.findUnique({
+      where: liveBranchWhere(branchId),
+      include: { graph: true },
+    });
+    if (!branch) return Errors.notFound("Branch");
+    if (branch.graph.userId !== owner.id) return Errors.forbidden();
+
+    const txStart = Date.now();
+    let pin;
+    try {
+      pin = await prisma.$transaction(async (tx) => {
+        const node = await tx.graphNode.findFirst({
+          where: { id: nodeId, graphId: branch.graphId, hiddenAt: null },
+          select: { id: true },
+        });
+        if (!node) throw Errors.notFound("Node");
+
+        const existing = await tx.nodePin.findMany({
+          where: { branchId },
+          select: { nodeId: true },
+        });
+        if (existing.some((p) => p.nodeId === nodeId)) {
+          throw Errors.validation("Node is already pinned to this branch");
+        }
+        if (existing.length >= CONTEXT_MAX_PINNED_NODES) {
+          throw Errors.validation(
+            `A branch can pin at most ${CONTEXT_MAX_PINNED_NODES} nodes`
+          );
+        }
+
+        return tx.nodePin.create({
+          data: { graphId: branch.graphId, branchId, nodeId },
+          include: { node: { include: { block: true } } },
+        });
+      });
+    } catch (err) {
+      // Lost a race with a concurrent pin of the same node
+      if (
+        err &&
+        typeof err === "object" &&
+        "code" in err &&
+        (err as { code: string }).code === "P2002"
+      ) {
+        return Errors.validation("Node is already pinned to this branch");
+      }
+      throw err;
+    }
+    log.info({ event: "tx_end", ok: true, durationMs: Date.now() - txStart });
+
+    const result = { pin: toPinItem(pin) };
+
+    await cacheIdempotentResponse({
+      req,
+      userId: owner.id,
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+      body: result,
+    });
+
+    const res = validateAndSend(result, PinNodeResponse, 200);
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    if (err instanceof Response) return err;
+    const { log } = createRequestLogger(req, {
+      route: "POST /v1/branches/:id/pins",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Failed to pin node");
+  }
+}
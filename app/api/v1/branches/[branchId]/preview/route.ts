@@ -1,4 +1,4 @@
-import { requireOwner } from "@/lib/api/auth";
+import { liveBranchWhere, requireOwner } from "@/lib/api/auth";
 import { Errors, jsonError } from "@/lib/api/errors";
 import { createRequestLogger } from "@/lib/api/logger";
 import { BranchIdParam } from "@/lib/api/schemas/queries";
@@ -27,7 +27,7 @@ export async function GET(
     log.info({ event: "request_start" });
 
     const br = await prisma.branch.findUnique({
-      where: { id: branchId },
+      where: liveBranchWhere(branchId),
       include: { graph: true },
     });
 
@@ -48,15 +48,21 @@ export async function GET(
       with recursive backtrack(id, depth) as (
         select ${br.tipNodeId}::text as id, 0 as depth
         union all
-        select e."parentNodeId", backtrack.depth + 1
+        select p.id, backtrack.depth + 1
         from backtrack
-        join "BlockEdge" e on e."childNodeId" = backtrack.id
-        join "GraphNode" pn on pn.id = e."parentNodeId"
-        where e."graphId" = ${br.graphId} 
-          and e."relation" = 'follows' 
-          and e."deletedAt" is null
-          and pn."hiddenAt" is null
-          and backtrack.depth < 200
+        cross join lateral (
+          select e."parentNodeId" as id
+          from "BlockEdge" e
+          join "GraphNode" pn on pn.id = e."parentNodeId"
+          where e."childNodeId" = backtrack.id
+            and e."graphId" = ${br.graphId}
+            and e."relation" = 'follows'
+            and e."deletedAt" is null
+            and pn."hiddenAt" is null
+          order by coalesce(e."ord", 0), e."createdAt", e.id
+          limit 1
+        ) p
+        where backtrack.depth < 200
       )
       select id as "nodeId", depth 
       from backtrack
@@ -0,0 +1,247 @@
+import { liveBranchWhere, requireOwner } from "@/lib/api/auth";
+import { Errors, jsonError } from "@/lib/api/errors";
+import {
+  cacheIdempotentResponse,
+  getCachedIdempotentResponse,
+} from "@/lib/api/idempotency";
+import { createRequestLogger } from "@/lib/api/logger";
+import { checkWriteRateLimit } from "@/lib/api/rate-limit";
+import { BranchIdParam } from "@/lib/api/schemas/queries";
+import { RebaseBody } from "@/lib/api/schemas/requests";
+import { RebaseResponse } from "@/lib/api/schemas/responses";
+import { parseParams } from "@/lib/api/validators";
+import { validateAndSend } from "@/lib/api/validators";
+import { prisma } from "@/lib/db";
+import { findBranchesContaining, getFollowsPath } from "@/lib/utils/dag";
+import { recordOperation } from "@/lib/utils/oplog";
+import { replayNodes } from "@/lib/utils/replay-nodes";
+
+/**
+ * The branch a rebase onto `ontoNodeId` forks from: of the other branches
+ * whose history contains the node, the oldest, as the one the node was
+ * written on. Branches forked from the rebased branch itself are skipped so
+ * the lineage can't loop; null when no branch qualifies.
+ */
+async function findForkParent(
+  branch: { id: string; graphId: string },
+  ontoNodeId: string
+): Promise<string | null> {
+  const [containing, branches] = await Promise.all([
+    findBranchesContaining([branch.graphId], [ontoNodeId]),
+    prisma.branch.findMany({
+      where: { graphId: branch.graphId },
+      select: { id: true, parentBranchId: true },
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+    }),
+  ]);
+  const parentOf = new Map(branches.map((b) => [b.id, b.parentBranchId]));
+  const isOwnDescendant = (id: string) => {
+    const seen = new Set<string>();
+    for (let cursor: string | null | undefined = id; cursor; ) {
+      if (cursor === branch.id) return true;
+      if (seen.has(cursor)) return false;
+      seen.add(cursor);
+      cursor = parentOf.get(cursor);
+    }
+    return false;
+  };
+
+  const containingIds = new Set(containing.map((c) => c.branchId));
+  return (
+    branches.find((b) => containingIds.has(b.id) && !isOwnDescendant(b.id))
+      ?.id ?? null
+  );
+}
+
+/**
+ * Replay the branch's own messages (everything after its fork point) onto
+ * another node of the graph. The originals stay in place for any branch forked from
+ * them; the branch moves to the copies and `ontoNodeId` becomes its root and
+ * fork point.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ branchId: string }> }
+) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkWriteRateLimit(owner.id, "POST /v1/branches/:id/rebase");
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "POST /v1/branches/:id/rebase",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "writes_per_min",
+        max: 60,
+      });
+      return rl;
+    }
+
+    // Idempotency replay
+    const cached = await getCachedIdempotentResponse(req, owner.id);
+    const { log, ctx } = createRequestLogger(req, {
+      route: "POST /v1/branches/:id/rebase",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+    if (cached) {
+      log.info({ event: "idempotency_check", result: "hit" });
+      return new Response(JSON.stringify(cached.body ?? {}), {
+        status: cached.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    log.info({ event: "idempotency_check", result: "miss" });
+
+    const body = await req.json().catch(() => null);
+    const parsed = RebaseBody.safeParse(body);
+    if (!parsed.success) {
+      log.info({ event: "validation_result", ok: false });
+      return Errors.validation("Invalid request body", parsed.error.flatten());
+    }
+    log.info({ event: "validation_result", ok: true });
+    const { ontoNodeId, expectedVersion } = parsed.data;
+
+    const paramOk = await parseParams(params, BranchIdParam);
+    if (paramOk instanceof Response) return paramOk;
+    const { branchId } = paramOk;
+
+    const branch = await prisma.branch.findUnique({
+      where: liveBranchWhere(branchId),
+      include: { graph: true },
+    });
+    if (!branch) return Errors.notFound("Branch");
+    if (branch.graph.userId !== owner.id) return Errors.forbidden();
+
+    const onto = await prisma.graphNode.findUnique({
+      where: { id: ontoNodeId },
+    });
+    if (!onto || onto.graphId !== branch.graphId || onto.hiddenAt) {
+      return Errors.validation(
+        "ontoNodeId must be a visible node of this graph"
+      );
+    }
+
+    // The branch's own messages, oldest first. A forked branch's root is the
+    // fork point it shares with its parent and stays behind; a branch that
+    // was never forked (main) owns its root, its first message.
+    const ownsRoot = !branch.forkNodeId && !branch.parentBranchId;
+    const uniqueIds = branch.tipNodeId
+      ? (
+          await getFollowsPath(
+            branch.graphId,
+            branch.tipNodeId,
+            branch.rootNodeId
+          )
+        )
+          .filter((id) => ownsRoot || id !== branch.rootNodeId)
+          .reverse()
+      : [];
+    if (uniqueIds.includes(ontoNodeId)) {
+      return Errors.invalidReachability(
+        "Cannot rebase a branch onto one of its own messages"
+      );
+    }
+
+    const parentBranchId = await findForkParent(branch, ontoNodeId);
+
+    const txStart = Date.now();
+    const result = await prisma.$transaction(async (tx) => {
+      if (expectedVersion != null && expectedVersion !== branch.version) {
+        throw Errors.conflictTip(branch.tipNodeId, branch.version);
+      }
+
+      const items = await replayNodes(
+        tx,
+        branch.graphId,
+        ontoNodeId,
+        uniqueIds
+      );
+      const newTip =
+        items.length > 0 ? items[items.length - 1].nodeId : ontoNodeId;
+
+      const updated = await tx.branch.updateMany({
+        where: { id: branch.id, version: expectedVersion ?? branch.version },
+        data: {
+          rootNodeId: ontoNodeId,
+          forkNodeId: ontoNodeId,
+          parentBranchId,
+          tipNodeId: newTip,
+          version: { increment: 1 },
+        },
+      });
+      if (updated.count === 0) {
+        throw Errors.conflictTip(branch.tipNodeId, branch.version);
+      }
+      await recordOperation(tx, {
+        graphId: branch.graphId,
+        branchId: branch.id,
+        kind: "rebase",
+        beforeTipNodeId: branch.tipNodeId,
+        afterTipNodeId: newTip,
+        version: branch.version + 1,
+        createdNodeIds: items.map((i) => i.nodeId),
+        lineage: {
+          before: {
+            rootNodeId: branch.rootNodeId,
+            forkNodeId: branch.forkNodeId,
+            parentBranchId: branch.parentBranchId,
+          },
+          after: {
+            rootNodeId: ontoNodeId,
+            forkNodeId: ontoNodeId,
+            parentBranchId,
+          },
+        },
+      });
+
+      await tx.graph.update({
+        where: { id: branch.graphId },
+        data: { lastActivityAt: new Date() },
+      });
+
+      return {
+        branch: {
+          id: branch.id,
+          rootNodeId: ontoNodeId,
+          tipNodeId: newTip,
+          parentBranchId,
+          forkNodeId: ontoNodeId,
+          version: branch.version + 1,
+        },
+        items,
+      };
+    });
+    log.info({
+      event: "tx_end",
+      ok: true,
+      durationMs: Date.now() - txStart,
+      replayed: result.items.length,
+    });
+
+    await cacheIdempotentResponse({
+      req,
+      userId: owner.id,
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+      body: result,
+    });
+
+    const res = validateAndSend(result, RebaseResponse, 200);
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    if (err instanceof Response) return err;
+    const { log } = createRequestLogger(req, {
+      route: "POST /v1/branches/:id/rebase",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Internal server error");
+  }
+}
@@ -0,0 +1,109 @@
+import { liveBranchWhere, requireOwner } from "@/lib/api/auth";
+import { Errors, jsonError } from "@/lib/api/errors";
+import { createRequestLogger } from "@/lib/api/logger";
+import { checkReadRateLimit } from "@/lib/api/rate-limit";
+import { BranchIdParam, BranchReflogQuery } from "@/lib/api/schemas/queries";
+import { BranchReflogResponse } from "@/lib/api/schemas/responses";
+import { parseParams, parseQuery } from "@/lib/api/validators";
+import { validateAndSend } from "@/lib/api/validators";
+import { prisma } from "@/lib/db";
+
+// Characters of the resulting tip message shown per reflog entry
+const EXCERPT_CHARS = 120;
+
+/** Operations that moved this branch's tip, newest first. */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ branchId: string }> }
+) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkReadRateLimit(owner.id, "GET /v1/branches/:id/reflog");
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "GET /v1/branches/:id/reflog",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "reads_per_min",
+        max: 300,
+      });
+      return rl;
+    }
+
+    const { log, ctx } = createRequestLogger(req, {
+      route: "GET /v1/branches/:id/reflog",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+
+    const paramOk = await parseParams(params, BranchIdParam);
+    if (paramOk instanceof Response) return paramOk;
+    const { branchId } = paramOk;
+
+    const url = new URL(req.url);
+    const query = parseQuery(url.searchParams, BranchReflogQuery);
+    if (query instanceof Response) return query;
+    const { limit, cursor } = query;
+
+    const branch = await prisma.branch.findUnique({
+      where: liveBranchWhere(branchId),
+      include: { graph: true },
+    });
+    if (!branch) return Errors.notFound("Branch");
+    if (branch.graph.userId !== owner.id) return Errors.forbidden();
+
+    const operations = await prisma.graphOperation.findMany({
+      where: { branchId },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+
+    let nextCursor: string | null = null;
+    if (operations.length > limit) {
+      operations.pop();
+      nextCursor = operations[operations.length - 1]?.id ?? null;
+    }
+
+    const tipIds = operations.flatMap((op) =>
+      op.afterTipNodeId ? [op.afterTipNodeId] : []
+    );
+    const tips = await prisma.graphNode.findMany({
+      where: { id: { in: tipIds } },
+      include: { block: true },
+    });
+    const excerptOf = new Map(
+      tips.map((n) => {
+        const content = n.block.content as { text?: string } | null;
+        return [n.id, (content?.text ?? "").slice(0, EXCERPT_CHARS)];
+      })
+    );
+
+    const items = operations.map((op) => ({
+      ...op,
+      afterTipExcerpt: op.afterTipNodeId
+        ? (excerptOf.get(op.afterTipNodeId) ?? null)
+        : null,
+    }));
+
+    const res = validateAndSend(
+      { items, nextCursor },
+      BranchReflogResponse,
+      200
+    );
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    const { log } = createRequestLogger(req, {
+      route: "GET /v1/branches/:id/reflog",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Internal server error");
+  }
+}
@@ -0,0 +1,218 @@
+import { liveBranchWhere, requireOwner } from "@/lib/api/auth";
+import { Errors, jsonError } from "@/lib/api/errors";
+import {
+  cacheIdempotentResponse,
+  getCachedIdempotentResponse,
+} from "@/lib/api/idempotency";
+import { createRequestLogger } from "@/lib/api/logger";
+import { checkWriteRateLimit } from "@/lib/api/rate-limit";
+import { BranchIdParam } from "@/lib/api/schemas/queries";
+import { ReplaceTipBody } from "@/lib/api/schemas/requests";
+import { ReplaceTipResponse } from "@/lib/api/schemas/responses";
+import { parseParams } from "@/lib/api/validators";
+import { validateAndSend } from "@/lib/api/validators";
+import { prisma } from "@/lib/db";
+import type { Prisma } from "@/lib/generated/prisma";
+import { isNodeShared } from "@/lib/utils/dag";
+import { recordOperation } from "@/lib/utils/oplog";
+
+/**
+ * Replace the content of the branch tip with a new ContextBlock.
+ *
+ * Blocks are immutable, so the tip node is pointed at a fresh block. When the
+ * tip node is shared (another branch points at it, it already has children
+ * or another node references it), it is left untouched and a sibling node is
+ * created under the same parent instead, so other histories do not change
+ * underneath them.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ branchId: string }> }
+) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkWriteRateLimit(
+      owner.id,
+      "POST /v1/branches/:id/replace-tip"
+    );
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "POST /v1/branches/:id/replace-tip",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "writes_per_min",
+        max: 60,
+      });
+      return rl;
+    }
+
+    // Idempotency replay
+    const cached = await getCachedIdempotentResponse(req, owner.id);
+    const { log, ctx } = createRequestLogger(req, {
+      route: "POST /v1/branches/:id/replace-tip",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+    if (cached) {
+      log.info({ event: "idempotency_check", result: "hit" });
+      return new Response(JSON.stringify(cached.body ?? {}), {
+        status: cached.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    log.info({ event: "idempotency_check", result: "miss" });
+
+    const body = await req.json().catch(() => null);
+    const parsed = ReplaceTipBody.safeParse(body);
+    if (!parsed.success) {
+      log.info({ event: "validation_result", ok: false });
+      return Errors.validation("Invalid request body", parsed.error.flatten());
+    }
+    log.info({ event: "validation_result", ok: true });
+    const { newContent, expectedVersion } = parsed.data;
+
+    const paramOk = await parseParams(params, BranchIdParam);
+    if (paramOk instanceof Response) return paramOk;
+    const { branchId } = paramOk;
+
+    const branch = await prisma.branch.findUnique({
+      where: liveBranchWhere(branchId),
+      include: { graph: true },
+    });
+    if (!branch) return Errors.notFound("Branch");
+    if (branch.graph.userId !== owner.id) return Errors.forbidden();
+    if (!branch.tipNodeId) {
+      return Errors.validation("Branch has no tip to replace");
+    }
+    const tipNodeId = branch.tipNodeId;
+
+    const tip = await prisma.graphNode.findUnique({
+      where: { id: tipNodeId },
+      include: { block: true },
+    });
+    if (!tip) return Errors.notFound("Node");
+
+    const txStart = Date.now();
+    const result = await prisma.$transaction(async (tx) => {
+      if (expectedVersion != null && expectedVersion !== branch.version) {
+        throw Errors.conflictTip(tipNodeId, branch.version);
+      }
+
+      const shared = await isNodeShared(
+        branch.graphId,
+        tipNodeId,
+        branch.id,
+        tx
+      );
+
+      // A branch whose root is its tip has nothing of its own to edit
+      if (shared && tipNodeId === branch.rootNodeId) {
+        throw Errors.validation(
+          "Cannot edit a message shared with another branch"
+        );
+      }
+
+      const block = await tx.contextBlock.create({
+        data: {
+          userId: owner.id,
+          kind: tip.block.kind,
+          content: newContent as unknown as Prisma.InputJsonValue,
+          model: null,
+          public: false,
+        },
+      });
+
+      let nodeId = tipNodeId;
+      if (shared) {
+        const parentEdge = await tx.blockEdge.findFirst({
+          where: {
+            graphId: branch.graphId,
+            childNodeId: tipNodeId,
+            relation: "follows",
+            deletedAt: null,
+            parentNode: { hiddenAt: null },
+          },
+          orderBy: [{ ord: "asc" }, { createdAt: "asc" }],
+        });
+        if (!parentEdge) {
+          throw Errors.validation("Tip has no parent to attach an edit to");
+        }
+        const sibling = await tx.graphNode.create({
+          data: { graphId: branch.graphId, blockId: block.id },
+        });
+        await tx.blockEdge.create({
+          data: {
+            graphId: branch.graphId,
+            parentNodeId: parentEdge.parentNodeId,
+            childNodeId: sibling.id,
+            relation: "follows",
+            ord: 0,
+          },
+        });
+        nodeId = sibling.id;
+      } else {
+        await tx.graphNode.update({
+          where: { id: tipNodeId },
+          data: { blockId: block.id },
+        });
+      }
+
+      const updated = await tx.branch.updateMany({
+        where: { id: branch.id, version: expectedVersion ?? branch.version },
+        data: { tipNodeId: nodeId, version: { increment: 1 } },
+      });
+      if (updated.count === 0) {
+        throw Errors.conflictTip(tipNodeId, branch.version);
+      }
+      // In-place edits keep the tip where it is; undo swaps the block back
+      await recordOperation(tx, {
+        graphId: branch.graphId,
+        branchId: branch.id,
+        kind: "replace_tip",
+        beforeTipNodeId: tipNodeId,
+        afterTipNodeId: nodeId,
+        version: branch.version + 1,
+        ...(shared
+          ? { createdNodeIds: [nodeId] }
+          : { beforeBlockId: tip.blockId, afterBlockId: block.id }),
+      });
+
+      await tx.graph.update({
+        where: { id: branch.graphId },
+        data: { lastActivityAt: new Date() },
+      });
+
+      return {
+        item: { nodeId, block },
+        newTip: nodeId,
+        version: branch.version + 1,
+      };
+    });
+    log.info({ event: "tx_end", ok: true, durationMs: Date.now() - txStart });
+
+    await cacheIdempotentResponse({
+      req,
+      userId: owner.id,
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+      body: result,
+    });
+
+    const res = validateAndSend(result, ReplaceTipResponse, 200);
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    if (err instanceof Response) return err;
+    const { log } = createRequestLogger(req, {
+      route: "POST /v1/branches/:id/replace-tip",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Internal server error");
+  }
+}
@@ -0,0 +1,332 @@
+import { liveBranchWhere, requireOwner } from "@/lib/api/auth";
+import { Errors, jsonError } from "@/lib/api/errors";
+import {
+  cacheIdempotentResponse,
+  getCachedIdempotentResponse,
+} from "@/lib/api/idempotency";
+import { createRequestLogger } from "@/lib/api/logger";
+import { checkReadRateLimit, checkWriteRateLimit } from "@/lib/api/rate-limit";
+import { BranchIdParam } from "@/lib/api/schemas/queries";
+import { RenameBranchBody } from "@/lib/api/schemas/requests";
+import {
+  BranchDetailResponse,
+  DeleteBranchResponse,
+} from "@/lib/api/schemas/responses";
+import { parseParams } from "@/lib/api/validators";
+import { validateAndSend } from "@/lib/api/validators";
+import { prisma } from "@/lib/db";
+import { findBranchesContaining, getFollowsPath } from "@/lib/utils/dag";
+import { ensureUniqueBranchName } from "@/lib/utils/unique-name";
+
+const branchSelect = {
+  id: true,
+  graphId: true,
+  name: true,
+  rootNodeId: true,
+  tipNodeId: true,
+  parentBranchId: true,
+  forkNodeId: true,
+  version: true,
+  createdAt: true,
+} as const;
+
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ branchId: string }> }
+) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkReadRateLimit(owner.id, "GET /v1/branches/:id");
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "GET /v1/branches/:id",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "reads_per_min",
+        max: 300,
+      });
+      return rl;
+    }
+
+    const { log, ctx } = createRequestLogger(req, {
+      route: "GET /v1/branches/:id",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+
+    const parsedParams = await parseParams(params, BranchIdParam);
+    if (parsedParams instanceof Response) return parsedParams;
+    const { branchId } = parsedParams;
+
+    const branch = await prisma.branch.findFirst({
+      where: { id: branchId, graph: { userId: owner.id, deletedAt: null } },
+      select: branchSelect,
+    });
+    if (!branch) return Errors.notFound("Branch");
+
+    const res = validateAndSend({ branch }, BranchDetailResponse, 200);
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    const { log } = createRequestLogger(req, {
+      route: "GET /v1/branches/:id",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Internal server error");
+  }
+}
+
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ branchId: string }> }
+) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkWriteRateLimit(owner.id, "PATCH /v1/branches/:id");
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "PATCH /v1/branches/:id",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "writes_per_min",
+        max: 60,
+      });
+      return rl;
+    }
+
+    const { log, ctx } = createRequestLogger(req, {
+      route: "PATCH /v1/branches/:id",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+
+    const body = await req.json().catch(() => null);
+    const parsed = RenameBranchBody.safeParse(body);
+    if (!parsed.success) {
+      log.info({ event: "validation_result", ok: false });
+      return Errors.validation("Invalid request body", parsed.error.flatten());
+    }
+    log.info({ event: "validation_result", ok: true });
+    const { name, ensureUnique } = parsed.data;
+
+    const parsedParams = await parseParams(params, BranchIdParam);
+    if (parsedParams instanceof Response) return parsedParams;
+    const { branchId } = parsedParams;
+
+    const branch = await prisma.branch.findUnique({
+      where: liveBranchWhere(branchId),
+      include: { graph: true },
+    });
+    if (!branch) return Errors.notFound("Branch");
+    if (branch.graph.userId !== owner.id) return Errors.forbidden();
+
+    let finalName = name;
+    if (name !== branch.name) {
+      if (ensureUnique) {
+        finalName = await ensureUniqueBranchName(branch.graphId, name);
+      } else {
+        const clash = await prisma.branch.findUnique({
+          where: { graphId_name: { graphId: branch.graphId, name } },
+          select: { id: true },
+        });
+        if (clash) return Errors.duplicateBranchName(name);
+      }
+    }
+
+    let updated;
+    try {
+      updated = await prisma.branch.update({
+        where: { id: branch.id },
+        data: { name: finalName },
+        select: branchSelect,
+      });
+    } catch (err) {
+      // A concurrent rename or fork took the name between check and update
+      if (
+        err &&
+        typeof err === "object" &&
+        "code" in err &&
+        (err as { code: string }).code === "P2002"
+      ) {
+        return Errors.duplicateBranchName(finalName);
+      }
+      throw err;
+    }
+
+    const res = validateAndSend({ branch: updated }, BranchDetailResponse, 200);
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    const { log } = createRequestLogger(req, {
+      route: "PATCH /v1/branches/:id",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Internal server error");
+  }
+}
+
+/**
+ * Delete a branch pointer. Nodes that only this branch can reach are hidden;
+ * anything still on another branch's history (including the fork point) is
+ * kept.
+ */
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ branchId: string }> }
+) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkWriteRateLimit(owner.id, "DELETE /v1/branches/:id");
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "DELETE /v1/branches/:id",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "writes_per_min",
+        max: 60,
+      });
+      return rl;
+    }
+
+    const { log, ctx } = createRequestLogger(req, {
+      route: "DELETE /v1/branches/:id",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+
+    // Idempotency replay
+    const cached = await getCachedIdempotentResponse(req, owner.id);
+    if (cached) {
+      log.info({ event: "idempotency_check", result: "hit" });
+      return new Response(JSON.stringify(cached.body ?? {}), {
+        status: cached.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    log.info({ event: "idempotency_check", result: "miss" });
+
+    const parsedParams = await parseParams(params, BranchIdParam);
+    if (parsedParams instanceof Response) return parsedParams;
+    const { branchId } = parsedParams;
+
+    const branch = await prisma.branch.findUnique({
+      where: liveBranchWhere(branchId),
+      include: { graph: true },
+    });
+    if (!branch) return Errors.notFound("Branch");
+    if (branch.graph.userId !== owner.id) return Errors.forbidden();
+
+    const siblings = await prisma.branch.count({
+      where: { graphId: branch.graphId, id: { not: branch.id } },
+    });
+    if (siblings === 0) {
+      return Errors.validation("Cannot delete the only branch of a graph");
+    }
+
+    const txStart = Date.now();
+    const result = await prisma.$transaction(async (tx) => {
+      const now = new Date();
+
+      const path = branch.tipNodeId
+        ? await getFollowsPath(
+            branch.graphId,
+            branch.tipNodeId,
+            branch.rootNodeId,
+            tx
+          )
+        : [];
+
+      // Nodes still on another branch's history must stay visible
+      const otherPointers = (
+        await tx.branch.findMany({
+          where: { graphId: branch.graphId, id: { not: branch.id } },
+          select: { id: true, rootNodeId: true, tipNodeId: true },
+        })
+      ).flatMap((b) => [b.rootNodeId, b.tipNodeId]);
+      const shared = new Set([
+        ...otherPointers,
+        ...(await findBranchesContaining([branch.graphId], path, tx))
+          .filter((m) => m.branchId !== branch.id)
+          .map((m) => m.nodeId),
+      ]);
+      const uniqueNodeIds = path.filter(
+        (id) => id !== branch.rootNodeId && !shared.has(id)
+      );
+
+      if (uniqueNodeIds.length > 0) {
+        await tx.graphNode.updateMany({
+          where: { id: { in: uniqueNodeIds } },
+          data: { hiddenAt: now },
+        });
+        await tx.blockEdge.updateMany({
+          where: {
+            graphId: branch.graphId,
+            deletedAt: null,
+            OR: [
+              { parentNodeId: { in: uniqueNodeIds } },
+              { childNodeId: { in: uniqueNodeIds } },
+            ],
+          },
+          data: { deletedAt: now },
+        });
+      }
+
+      // Forks of the deleted branch move up to its own parent
+      await tx.branch.updateMany({
+        where: { parentBranchId: branch.id },
+        data: { parentBranchId: branch.parentBranchId },
+      });
+
+      await tx.branch.delete({ where: { id: branch.id } });
+
+      await tx.graph.update({
+        where: { id: branch.graphId },
+        data: { lastActivityAt: now },
+      });
+
+      return {
+        branchId: branch.id,
+        deletedAt: now.toISOString(),
+        hiddenNodes: uniqueNodeIds.length,
+      };
+    });
+    log.info({ event: "tx_end", ok: true, durationMs: Date.now() - txStart });
+
+    await cacheIdempotentResponse({
+      req,
+      userId: owner.id,
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+      body: result,
+    });
+
+    const res = validateAndSend(result, DeleteBranchResponse, 200);
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    if (err instanceof Response) return err;
+    const { log } = createRequestLogger(req, {
+      route: "DELETE /v1/branches/:id",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Internal server error");
+  }
+}
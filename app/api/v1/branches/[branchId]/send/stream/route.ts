@@ -1,8 +1,14 @@
 import { generateAndUpdateBranchName } from "@/lib/ai/background-branch-naming";
-import { buildSimpleContext } from "@/lib/ai/build-context";
+import {
+  buildSelectedContext,
+  buildSimpleContext,
+  findUnselectableNodes,
+} from "@/lib/ai/build-context";
+import { CONTEXT_STRATEGIES } from "@/lib/ai/context-strategies";
+import { indexGraphEmbeddings } from "@/lib/ai/retrieval";
 import { streamOpenAIResponse } from "@/lib/ai/stream-response";
 import { buildPromptWithSystem } from "@/lib/ai/system-prompt";
-import { requireOwner } from "@/lib/api/auth";
+import { liveBranchWhere, requireOwner } from "@/lib/api/auth";
 import { Errors } from "@/lib/api/errors";
 import {
   cacheIdempotentResponse,
@@ -30,6 +36,7 @@ import { writeSSE } from "@/lib/api/validators";
 import { parseParams } from "@/lib/api/validators";
 import { prisma } from "@/lib/db";
 import type { Prisma } from "@/lib/generated/prisma";
+import { recordOperation } from "@/lib/utils/oplog";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -120,8 +127,32 @@ export async function POST(
       log.info({ event: "validation_result", ok: false });
       return new Response(sse.readable, { headers });
     }
+    const unselectable = parsed.data.contextNodeIds
+      ? await findUnselectableNodes(branchId, parsed.data.contextNodeIds)
+      : [];
+    if (unselectable.length > 0) {
+      queueMicrotask(async () => {
+        await sendValidationError(sse, {
+          formErrors: [],
+          fieldErrors: {
+            contextNodeIds: [
+              `Not a node of this graph: ${unselectable.join(", ")}`,
+            ],
+          },
+        });
+        cleanupOnce();
+      });
+      log.info({ event: "validation_result", ok: false });
+      return new Response(sse.readable, { headers });
+    }
     log.info({ event: "validation_result", ok: true });
-    const { userMessage, expectedVersion, forkFromNodeId } = parsed.data;
+    const {
+      userMessage,
+      expectedVersion,
+      forkFromNodeId,
+      contextStrategy,
+      contextNodeIds,
+    } = parsed.data;
 
     const keepalive = startKeepalive(sse);
 
@@ -132,7 +163,7 @@ export async function POST(
         const txStart = Date.now();
         const firstTxResult = await prisma.$transaction(async (tx) => {
           const baseBranch = await tx.branch.findUnique({
-            where: { id: branchId },
+            where: liveBranchWhere(branchId),
             include: { graph: true },
           });
           if (!baseBranch) return { error: Errors.notFound("Branch") };
@@ -158,6 +189,8 @@ export async function POST(
                 name: "Generating name...",
                 rootNodeId: fromNode.id,
                 tipNodeId: fromNode.id,
+                parentBranchId: baseBranch.id,
+                forkNodeId: fromNode.id,
                 version: 0,
               },
               include: { graph: true },
@@ -261,12 +294,28 @@ export async function POST(
           details: { branchId: targetBranch.id, newNodeId: userNodeId },
         });
 
-        // Stream assistant delta tokens
-        const contextMessages = await buildSimpleContext(branchId);
-        const context = await buildPromptWithSystem(contextMessages);
+        // Stream assistant delta tokens. Context is either the hand-picked
+        // nodes followed by the new message, or the history of the branch
+        // the message landed on, which is a new one when forking.
+        const pickedNodeIds = contextNodeIds
+          ? [...contextNodeIds.filter((id) => id !== userNodeId), userNodeId]
+          : null;
+        const context = pickedNodeIds
+          ? await buildSelectedContext(pickedNodeIds)
+          : await buildSimpleContext(targetBranch.id, {
+              strategy: contextStrategy,
+            });
+        const { messages: contextMessages, pinnedNodeIds } = context;
+        // Records what this answer saw: the pins it got, or the exact
+        // hand-picked nodes so the context can be reproduced
+        const meta = {
+          ...(pinnedNodeIds.length > 0 ? { pinnedNodeIds } : {}),
+          ...(pickedNodeIds ? { contextNodeIds: pickedNodeIds } : {}),
+        };
+        const messages = await buildPromptWithSystem(contextMessages);
 
         const { finalText, model, tokenCount } = await streamOpenAIResponse({
-          context,
+          messages,
           onDelta: async (chunk) => {
             await writeSSE(SSEDeltaSchema, "delta", { text: chunk }, sse);
           },
@@ -293,6 +342,7 @@ export async function POST(
               kind: "assistant",
               content: {
                 text: finalText,
+                ...(Object.keys(meta).length > 0 ? { meta } : {}),
               } as unknown as Prisma.InputJsonValue,
               model,
               tokenCount,
@@ -329,6 +379,17 @@ export async function POST(
               ),
             };
           }
+          await recordOperation(tx, {
+            graphId: targetBranch.graphId,
+            branchId: targetBranch.id,
+            kind: "send",
+            forked: !!forkFromNodeId,
+            // Tip before the user message went in (the fork node for forks)
+            beforeTipNodeId: targetBranch.tipNodeId,
+            afterTipNodeId: node.id,
+            version: forkFromNodeId ? 1 : casVersion + 1,
+            createdNodeIds: [userNodeId, node.id],
+          });
           await tx.graph.update({
             where: { id: targetBranch.graphId },
             data: { lastActivityAt: new Date() },
@@ -379,6 +440,14 @@ export async function POST(
           await recordTokenUsage(owner.id, tokenCount);
         }
 
+        // Embed the new messages so other branches can retrieve them
+        if (
+          context.strategy &&
+          CONTEXT_STRATEGIES[context.strategy].retrieval
+        ) {
+          void indexGraphEmbeddings(targetBranch.graphId, owner.id, log);
+        }
+
         // Unified final envelope: include both user and assistant items
         const { nodeId, block, ...rest } = commitResult as unknown as {
           nodeId: string;
@@ -414,7 +483,7 @@ export async function POST(
         if (forkFromNodeId && "branch" in finalUnified) {
           const newBranchId = (finalUnified.branch as { id: string }).id;
           const baseBranch = await prisma.branch.findUnique({
-            where: { id: branchId },
+            where: liveBranchWhere(branchId),
             include: { graph: true },
           });
           if (baseBranch) {
@@ -0,0 +1,229 @@
+import { loadContextPath } from "@/lib/ai/build-context";
+import { createSummary, pickSummarySpan } from "@/lib/ai/summarize";
+import { liveBranchWhere, requireOwner } from "@/lib/api/auth";
+import { Errors, jsonError } from "@/lib/api/errors";
+import {
+  cacheIdempotentResponse,
+  getCachedIdempotentResponse,
+} from "@/lib/api/idempotency";
+import { createRequestLogger } from "@/lib/api/logger";
+import { checkQuota } from "@/lib/api/quota";
+import { checkReadRateLimit, checkWriteRateLimit } from "@/lib/api/rate-limit";
+import { BranchIdParam } from "@/lib/api/schemas/queries";
+import { SummarizeBody } from "@/lib/api/schemas/requests";
+import {
+  SummariesListResponse,
+  SummarizeResponse,
+} from "@/lib/api/schemas/responses";
+import { parseParams } from "@/lib/api/validators";
+import { validateAndSend } from "@/lib/api/validators";
+import { prisma } from "@/lib/db";
+
+/**
+ * Summaries currently standing in for parts of this branch's timeline, oldest
+ * first. Summaries superseded by a wider one are not listed.
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ branchId: string }> }
+) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkReadRateLimit(owner.id, "GET /v1/branches/:id/summaries");
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "GET /v1/branches/:id/summaries",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "reads_per_min",
+        max: 300,
+      });
+      return rl;
+    }
+
+    const { log, ctx } = createRequestLogger(req, {
+      route: "GET /v1/branches/:id/summaries",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+
+    const paramOk = await parseParams(params, BranchIdParam);
+    if (paramOk instanceof Response) return paramOk;
+    const { branchId } = paramOk;
+
+    const branch = await prisma.branch.findUnique({
+      where: liveBranchWhere(branchId),
+      include: { graph: true },
+    });
+    if (!branch) return Errors.notFound("Branch");
+    if (branch.graph.userId !== owner.id) return Errors.forbidden();
+
+    const path = await loadContextPath(branchId);
+    const summaryNodeIds = (path?.entries ?? [])
+      .filter((e) => e.kind === "summary")
+      .map((e) => e.nodeId);
+
+    const spans = await prisma.summarySpan.findMany({
+      where: { summaryNodeId: { in: summaryNodeIds } },
+      include: { summaryNode: { include: { block: true } } },
+    });
+    const byNodeId = new Map(spans.map((s) => [s.summaryNodeId, s]));
+
+    const items = summaryNodeIds.flatMap((id) => {
+      const span = byNodeId.get(id);
+      if (!span) return [];
+      return [
+        {
+          nodeId: span.summaryNodeId,
+          startNodeId: span.startNodeId,
+          endNodeId: span.endNodeId,
+          nodeCount: span.nodeCount,
+          block: span.summaryNode.block,
+          createdAt: span.createdAt,
+        },
+      ];
+    });
+
+    const res = validateAndSend({ items }, SummariesListResponse, 200);
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    if (err instanceof Response) return err;
+    const { log } = createRequestLogger(req, {
+      route: "GET /v1/branches/:id/summaries",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Internal server error");
+  }
+}
+
+/**
+ * Summarize the branch's older history on demand. The summary covers the
+ * timeline from its start through `throughNodeId` (by default everything but
+ * the most recent messages) and replaces that span when building context.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ branchId: string }> }
+) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkWriteRateLimit(owner.id, "POST /v1/branches/:id/summaries");
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "POST /v1/branches/:id/summaries",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "writes_per_min",
+        max: 60,
+      });
+      return rl;
+    }
+
+    // Idempotency replay
+    const cached = await getCachedIdempotentResponse(req, owner.id);
+    const { log, ctx } = createRequestLogger(req, {
+      route: "POST /v1/branches/:id/summaries",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+    if (cached) {
+      log.info({ event: "idempotency_check", result: "hit" });
+      return new Response(JSON.stringify(cached.body ?? {}), {
+        status: cached.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    log.info({ event: "idempotency_check", result: "miss" });
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = SummarizeBody.safeParse(body);
+    if (!parsed.success) {
+      log.info({ event: "validation_result", ok: false });
+      return Errors.validation("Invalid request body", parsed.error.flatten());
+    }
+    log.info({ event: "validation_result", ok: true });
+    const { throughNodeId } = parsed.data;
+
+    const paramOk = await parseParams(params, BranchIdParam);
+    if (paramOk instanceof Response) return paramOk;
+    const { branchId } = paramOk;
+
+    const branch = await prisma.branch.findUnique({
+      where: liveBranchWhere(branchId),
+      include: { graph: true },
+    });
+    if (!branch) return Errors.notFound("Branch");
+    if (branch.graph.userId !== owner.id) return Errors.forbidden();
+
+    const path = await loadContextPath(branchId);
+    const entries = path?.entries ?? [];
+
+    let span = pickSummarySpan(entries);
+    if (throughNodeId) {
+      const index = entries.findIndex((e) =>
+        e.coveredNodeIds.includes(throughNodeId)
+      );
+      if (index === -1) {
+        return Errors.validation(
+          "throughNodeId must be on this branch's timeline"
+        );
+      }
+      span = entries.slice(0, index + 1);
+    }
+    if (!path || !span || span.flatMap((e) => e.coveredNodeIds).length < 2) {
+      return Errors.validation("Not enough history to summarize");
+    }
+
+    // Summarizing spends tokens like any other generation
+    const quotaStatus = await checkQuota(owner.id);
+    if (quotaStatus.remaining <= 0) {
+      return Errors.quotaExceeded(
+        quotaStatus.resetDate,
+        quotaStatus.used,
+        quotaStatus.limit
+      );
+    }
+
+    const genStart = Date.now();
+    const summary = await createSummary(path.graphId, owner.id, span);
+    log.info({
+      event: "summary_created",
+      durationMs: Date.now() - genStart,
+      nodeCount: summary.nodeCount,
+    });
+
+    const result = { summary };
+
+    await cacheIdempotentResponse({
+      req,
+      userId: owner.id,
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+      body: result,
+    });
+
+    const res = validateAndSend(result, SummarizeResponse, 200);
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    if (err instanceof Response) return err;
+    const { log } = createRequestLogger(req, {
+      route: "POST /v1/branches/:id/summaries",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Internal server error");
+  }
+}
@@ -0,0 +1,204 @@
+import { requireOwner } from "@/lib/api/auth";
+import { Errors, jsonError } from "@/lib/api/errors";
+import {
+  cacheIdempotentResponse,
+  getCachedIdempotentResponse,
+} from "@/lib/api/idempotency";
+import { createRequestLogger } from "@/lib/api/logger";
+import { checkWriteRateLimit } from "@/lib/api/rate-limit";
+import { BookmarkParams } from "@/lib/api/schemas/queries";
+import { UpdateBookmarkBody } from "@/lib/api/schemas/requests";
+import {
+  BookmarkResponse,
+  DeleteBookmarkResponse,
+} from "@/lib/api/schemas/responses";
+import { parseParams } from "@/lib/api/validators";
+import { validateAndSend } from "@/lib/api/validators";
+import { prisma } from "@/lib/db";
+import { withBookmarkContext } from "@/lib/utils/bookmarks";
+
+/** Change a bookmark's label, color or note; `null` clears color and note. */
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ graphId: string; bookmarkId: string }> }
+) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkWriteRateLimit(
+      owner.id,
+      "PATCH /v1/graphs/:id/bookmarks/:bookmarkId"
+    );
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "PATCH /v1/graphs/:id/bookmarks/:bookmarkId",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "writes_per_min",
+        max: 60,
+      });
+      return rl;
+    }
+
+    const { log, ctx } = createRequestLogger(req, {
+      route: "PATCH /v1/graphs/:id/bookmarks/:bookmarkId",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+
+    // Idempotency replay
+    const cached = await getCachedIdempotentResponse(req, owner.id);
+    if (cached) {
+      log.info({ event: "idempotency_check", result: "hit" });
+      return new Response(JSON.stringify(cached.body ?? {}), {
+        status: cached.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    log.info({ event: "idempotency_check", result: "miss" });
+
+    const body = await req.json().catch(() => null);
+    const parsed = UpdateBookmarkBody.safeParse(body);
+    if (!parsed.success) {
+      log.info({ event: "validation_result", ok: false });
+      return Errors.validation("Invalid request body", parsed.error.flatten());
+    }
+    log.info({ event: "validation_result", ok: true });
+    const { label, color, note } = parsed.data;
+
+    const parsedParams = await parseParams(params, BookmarkParams);
+    if (parsedParams instanceof Response) return parsedParams;
+    const { graphId, bookmarkId } = parsedParams;
+
+    const existing = await prisma.nodeBookmark.findFirst({
+      where: {
+        id: bookmarkId,
+        graphId,
+        graph: { userId: owner.id, deletedAt: null },
+      },
+      select: { id: true },
+    });
+    if (!existing) return Errors.notFound("Bookmark");
+
+    const txStart = Date.now();
+    const bookmark = await prisma.nodeBookmark.update({
+      where: { id: bookmarkId },
+      data: {
+        ...(label !== undefined ? { label } : {}),
+        ...(color !== undefined ? { color } : {}),
+        ...(note !== undefined ? { note: note || null } : {}),
+      },
+    });
+    log.info({ event: "tx_end", ok: true, durationMs: Date.now() - txStart });
+
+    const [item] = await withBookmarkContext(graphId, [bookmark]);
+    const result = { bookmark: item };
+
+    await cacheIdempotentResponse({
+      req,
+      userId: owner.id,
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+      body: result,
+    });
+
+    const res = validateAndSend(result, BookmarkResponse, 200);
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    if (err instanceof Response) return err;
+    const { log } = createRequestLogger(req, {
+      route: "PATCH /v1/graphs/:id/bookmarks/:bookmarkId",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Failed to update bookmark");
+  }
+}
+
+/** Remove a bookmark. The bookmarked node itself is untouched. */
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ graphId: string; bookmarkId: string }> }
+) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkWriteRateLimit(
+      owner.id,
+      "DELETE /v1/graphs/:id/bookmarks/:bookmarkId"
+    );
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "DELETE /v1/graphs/:id/bookmarks/:bookmarkId",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "writes_per_min",
+        max: 60,
+      });
+      return rl;
+    }
+
+    const { log, ctx } = createRequestLogger(req, {
+      route: "DELETE /v1/graphs/:id/bookmarks/:bookmarkId",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+
+    // Idempotency replay
+    const cached = await getCachedIdempotentResponse(req, owner.id);
+    if (cached) {
+      log.info({ event: "idempotency_check", result: "hit" });
+      return new Response(JSON.stringify(cached.body ?? {}), {
+        status: cached.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    log.info({ event: "idempotency_check", result: "miss" });
+
+    const parsedParams = await parseParams(params, BookmarkParams);
+    if (parsedParams instanceof Response) return parsedParams;
+    const { graphId, bookmarkId } = parsedParams;
+
+    const txStart = Date.now();
+    const { count } = await prisma.nodeBookmark.deleteMany({
+      where: {
+        id: bookmarkId,
+        graphId,
+        graph: { userId: owner.id, deletedAt: null },
+      },
+    });
+    if (count === 0) return Errors.notFound("Bookmark");
+    log.info({ event: "tx_end", ok: true, durationMs: Date.now() - txStart });
+
+    const result = { bookmarkId, deletedAt: new Date().toISOString() };
+
+    await cacheIdempotentResponse({
+      req,
+      userId: owner.id,
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+      body: result,
+    });
+
+    const res = validateAndSend(result, DeleteBookmarkResponse, 200);
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    if (err instanceof Response) return err;
+    const { log } = createRequestLogger(req, {
+      route: "DELETE /v1/graphs/:id/bookmarks/:bookmarkId",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Failed to delete bookmark");
+  }
+}
@@ -0,0 +1,211 @@
+import { requireOwner } from "@/lib/api/auth";
+import { Errors, jsonError } from "@/lib/api/errors";
+import {
+  cacheIdempotentResponse,
+  getCachedIdempotentResponse,
+} from "@/lib/api/idempotency";
+import { createRequestLogger } from "@/lib/api/logger";
+import { checkReadRateLimit, checkWriteRateLimit } from "@/lib/api/rate-limit";
+import { GraphIdParam } from "@/lib/api/schemas/queries";
+import { CreateBookmarkBody } from "@/lib/api/schemas/requests";
+import {
+  BookmarkResponse,
+  BookmarksListResponse,
+} from "@/lib/api/schemas/responses";
+import { parseParams } from "@/lib/api/validators";
+import { validateAndSend } from "@/lib/api/validators";
+import { prisma } from "@/lib/db";
+import { withBookmarkContext } from "@/lib/utils/bookmarks";
+
+/**
+ * The graph's bookmarks, oldest first. Bookmarks on deleted nodes are left out
+ * until the node is restored.
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ graphId: string }> }
+) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkReadRateLimit(owner.id, "GET /v1/graphs/:id/bookmarks");
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "GET /v1/graphs/:id/bookmarks",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "reads_per_min",
+        max: 300,
+      });
+      return rl;
+    }
+
+    const { log, ctx } = createRequestLogger(req, {
+      route: "GET /v1/graphs/:id/bookmarks",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+
+    const parsedParams = await parseParams(params, GraphIdParam);
+    if (parsedParams instanceof Response) return parsedParams;
+    const { graphId } = parsedParams;
+
+    const graph = await prisma.graph.findFirst({
+      where: { id: graphId, userId: owner.id, deletedAt: null },
+      select: { id: true },
+    });
+    if (!graph) return Errors.notFound("Graph");
+
+    const bookmarks = await prisma.nodeBookmark.findMany({
+      where: { graphId, node: { hiddenAt: null } },
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+    });
+    const items = await withBookmarkContext(graphId, bookmarks);
+
+    const res = validateAndSend({ items }, BookmarksListResponse, 200);
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    if (err instanceof Response) return err;
+    const { log } = createRequestLogger(req, {
+      route: "GET /v1/graphs/:id/bookmarks",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Internal server error");
+  }
+}
+
+/** Bookmark a node of the graph. Each node holds at most one bookmark. */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ graphId: string }> }
+) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkWriteRateLimit(owner.id, "POST /v1/graphs/:id/bookmarks");
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "POST /v1/graphs/:id/bookmarks",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "writes_per_min",
+        max: 60,
+      });
+      return rl;
+    }
+
+    const { log, ctx } = createRequestLogger(req, {
+      route: "POST /v1/graphs/:id/bookmarks",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+
+    // Idempotency replay
+    const cached = await getCachedIdempotentResponse(req, owner.id);
+    if (cached) {
+      log.info({ event: "idempotency_check", result: "hit" });
+      return new Response(JSON.stringify(cached.body ?? {}), {
+        status: cached.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    log.info({ event: "idempotency_check", result: "miss" });
+
+    const body = await req.json().catch(() => null);
+    const parsed = CreateBookmarkBody.safeParse(body);
+    if (!parsed.success) {
+      log.info({ event: "validation_result", ok: false });
+      return Errors.validation("Invalid request body", parsed.error.flatten());
+    }
+    log.info({ event: "validation_result", ok: true });
+    const { nodeId, label, color, note } = parsed.data;
+
+    const parsedParams = await parseParams(params, GraphIdParam);
+    if (parsedParams instanceof Response) return parsedParams;
+    const { graphId } = parsedParams;
+
+    const graph = await prisma.graph.findFirst({
+      where: { id: graphId, userId: owner.id, deletedAt: null },
+      select: { id: true },
+    });
+    if (!graph) return Errors.notFound("Graph");
+
+    const txStart = Date.now();
+    let bookmark;
+    try {
+      bookmark = await prisma.$transaction(async (tx) => {
+        const node = await tx.graphNode.findFirst({
+          where: { id: nodeId, graphId, hiddenAt: null },
+          select: { id: true, bookmark: { select: { id: true } } },
+        });
+        if (!node) throw Errors.notFound("Node");
+        if (node.bookmark) {
+          throw Errors.validation("Node is already bookmarked", {
+            bookmarkId: node.bookmark.id,
+          });
+        }
+
+        return tx.nodeBookmark.create({
+          data: {
+            graphId,
+            nodeId,
+            label,
+            color: color ?? null,
+            note: note || null,
+          },
+        });
+      });
+    } catch (err) {
+      // Lost a race with a concurrent bookmark of the same node
+      if (
+        err &&
+        typeof err === "object" &&
+        "code" in err &&
+        (err as { code: string }).code === "P2002"
+      ) {
+        const existing = await prisma.nodeBookmark.findUnique({
+          where: { nodeId },
+          select: { id: true },
+        });
+        return Errors.validation("Node is already bookmarked", {
+          bookmarkId: existing?.id,
+        });
+      }
+      throw err;
+    }
+    log.info({ event: "tx_end", ok: true, durationMs: Date.now() - txStart });
+
+    const [item] = await withBookmarkContext(graphId, [bookmark]);
+    const result = { bookmark: item };
+
+    await cacheIdempotentResponse({
+      req,
+      userId: owner.id,
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+      body: result,
+    });
+
+    const res = validateAndSend(result, BookmarkResponse, 200);
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    if (err instanceof Response) return err;
+    const { log } = createRequestLogger(req, {
+      route: "POST /v1/graphs/:id/bookmarks",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Failed to create bookmark");
+  }
+}
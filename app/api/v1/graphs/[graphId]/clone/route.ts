@@ -0,0 +1,220 @@
+import { requireOwner } from "@/lib/api/auth";
+import { Errors, jsonError } from "@/lib/api/errors";
+import {
+  cacheIdempotentResponse,
+  getCachedIdempotentResponse,
+} from "@/lib/api/idempotency";
+import { createRequestLogger } from "@/lib/api/logger";
+import { checkWriteRateLimit } from "@/lib/api/rate-limit";
+import { GraphIdParam } from "@/lib/api/schemas/queries";
+import { CloneGraphBody } from "@/lib/api/schemas/requests";
+import { CloneGraphResponse } from "@/lib/api/schemas/responses";
+import { parseParams } from "@/lib/api/validators";
+import { validateAndSend } from "@/lib/api/validators";
+import { prisma } from "@/lib/db";
+import { ensureUniqueGraphTitle } from "@/lib/utils/unique-name";
+
+// Copying a large graph node by node can outlast the default 5s
+const CLONE_TX_TIMEOUT_MS = 30_000;
+
+/**
+ * Duplicate a graph: visible nodes, the live edges between them and every
+ * branch (with its lineage). Nodes are new rows pointing at the same
+ * immutable blocks, so no content is copied.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ graphId: string }> }
+) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkWriteRateLimit(owner.id, "POST /v1/graphs/:id/clone");
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "POST /v1/graphs/:id/clone",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "writes_per_min",
+        max: 60,
+      });
+      return rl;
+    }
+
+    // Idempotency replay
+    const cached = await getCachedIdempotentResponse(req, owner.id);
+    const { log, ctx } = createRequestLogger(req, {
+      route: "POST /v1/graphs/:id/clone",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+    if (cached) {
+      log.info({ event: "idempotency_check", result: "hit" });
+      return new Response(JSON.stringify(cached.body ?? {}), {
+        status: cached.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    log.info({ event: "idempotency_check", result: "miss" });
+
+    const body = await req.json().catch(() => ({}));
+    const parsed = CloneGraphBody.safeParse(body);
+    if (!parsed.success) {
+      log.info({ event: "validation_result", ok: false });
+      return Errors.validation("Invalid request body", parsed.error.flatten());
+    }
+    log.info({ event: "validation_result", ok: true });
+    const { title } = parsed.data;
+
+    const paramOk = await parseParams(params, GraphIdParam);
+    if (paramOk instanceof Response) return paramOk;
+    const { graphId } = paramOk;
+
+    const source = await prisma.graph.findFirst({
+      where: { id: graphId, userId: owner.id, deletedAt: null },
+    });
+    if (!source) return Errors.notFound("Graph");
+
+    const txStart = Date.now();
+    const result = await prisma.$transaction(
+      async (tx) => {
+        const now = new Date();
+
+        const branches = await tx.branch.findMany({
+          where: { graphId },
+          orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+        });
+        const pointerIds = branches.flatMap((b) =>
+          b.tipNodeId ? [b.rootNodeId, b.tipNodeId] : [b.rootNodeId]
+        );
+
+        // Branch pointers are kept even if the node was hidden since;
+        // summaries are left behind since they belong to the original path
+        const nodes = await tx.graphNode.findMany({
+          where: {
+            graphId,
+            OR: [{ hiddenAt: null }, { id: { in: pointerIds } }],
+            block: { kind: { not: "summary" } },
+          },
+          select: { id: true, blockId: true },
+          orderBy: { id: "asc" },
+        });
+
+        const graph = await tx.graph.create({
+          data: {
+            userId: owner.id,
+            title: await ensureUniqueGraphTitle(
+              owner.id,
+              title ?? `${source.title ?? "Untitled"} (copy)`,
+              tx
+            ),
+            description: source.description,
+            lastActivityAt: now,
+          },
+        });
+
+        const nodeMap = new Map<string, string>();
+        for (const node of nodes) {
+          const copy = await tx.graphNode.create({
+            data: { graphId: graph.id, blockId: node.blockId },
+          });
+          nodeMap.set(node.id, copy.id);
+        }
+
+        const edges = await tx.blockEdge.findMany({
+          where: {
+            graphId,
+            deletedAt: null,
+            parentNodeId: { in: [...nodeMap.keys()] },
+            childNodeId: { in: [...nodeMap.keys()] },
+          },
+          orderBy: { createdAt: "asc" },
+        });
+        if (edges.length > 0) {
+          await tx.blockEdge.createMany({
+            data: edges.map((e) => ({
+              graphId: graph.id,
+              parentNodeId: nodeMap.get(e.parentNodeId)!,
+              childNodeId: nodeMap.get(e.childNodeId)!,
+              relation: e.relation,
+              ord: e.ord,
+            })),
+          });
+        }
+
+        // Oldest first, so a parent branch is always copied before its forks
+        const branchMap = new Map<string, string>();
+        const clonedBranches = [];
+        for (const b of branches) {
+          const copy = await tx.branch.create({
+            data: {
+              graphId: graph.id,
+              name: b.name,
+              rootNodeId: nodeMap.get(b.rootNodeId)!,
+              tipNodeId: b.tipNodeId ? nodeMap.get(b.tipNodeId)! : null,
+              parentBranchId: b.parentBranchId
+                ? (branchMap.get(b.parentBranchId) ?? null)
+                : null,
+              forkNodeId: b.forkNodeId
+                ? (nodeMap.get(b.forkNodeId) ?? null)
+                : null,
+            },
+          });
+          branchMap.set(b.id, copy.id);
+          clonedBranches.push({
+            id: copy.id,
+            name: copy.name,
+            rootNodeId: copy.rootNodeId,
+            tipNodeId: copy.tipNodeId,
+            parentBranchId: copy.parentBranchId,
+            forkNodeId: copy.forkNodeId,
+            version: copy.version,
+          });
+        }
+
+        return {
+          graph: {
+            id: graph.id,
+            title: graph.title,
+            description: graph.description,
+            createdAt: graph.createdAt,
+            lastActivityAt: graph.lastActivityAt,
+          },
+          branches: clonedBranches,
+          nodeCount: nodeMap.size,
+        };
+      },
+      { timeout: CLONE_TX_TIMEOUT_MS }
+    );
+    log.info({
+      event: "tx_end",
+      ok: true,
+      durationMs: Date.now() - txStart,
+      nodes: result.nodeCount,
+    });
+
+    await cacheIdempotentResponse({
+      req,
+      userId: owner.id,
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+      body: result,
+    });
+
+    const res = validateAndSend(result, CloneGraphResponse, 200);
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    if (err instanceof Response) return err;
+    const { log } = createRequestLogger(req, {
+      route: "POST /v1/graphs/:id/clone",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Internal server error");
+  }
+}
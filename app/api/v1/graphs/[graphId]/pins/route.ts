@@ -0,0 +1,77 @@
+import { requireOwner } from "@/lib/api/auth";
+import { Errors, jsonError } from "@/lib/api/errors";
+import { createRequestLogger } from "@/lib/api/logger";
+import { checkReadRateLimit } from "@/lib/api/rate-limit";
+import { GraphIdParam } from "@/lib/api/schemas/queries";
+import { GraphPinsResponse } from "@/lib/api/schemas/responses";
+import { parseParams } from "@/lib/api/validators";
+import { validateAndSend } from "@/lib/api/validators";
+import { prisma } from "@/lib/db";
+import { toPinItem } from "@/lib/utils/pins";
+
+/**
+ * Pinned nodes of every branch in the graph, oldest pin first. Pins on deleted
+ * nodes are left out until the node is restored.
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ graphId: string }> }
+) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkReadRateLimit(owner.id, "GET /v1/graphs/:id/pins");
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "GET /v1/graphs/:id/pins",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "reads_per_min",
+        max: 300,
+      });
+      return rl;
+    }
+
+    const { log, ctx } = createRequestLogger(req, {
+      route: "GET /v1/graphs/:id/pins",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+
+    const parsedParams = await parseParams(params, GraphIdParam);
+    if (parsedParams instanceof Response) return parsedParams;
+    const { graphId } = parsedParams;
+
+    const graph = await prisma.graph.findFirst({
+      where: { id: graphId, userId: owner.id, deletedAt: null },
+      select: { id: true },
+    });
+    if (!graph) return Errors.notFound("Graph");
+
+    const pins = await prisma.nodePin.findMany({
+      where: { graphId, node: { hiddenAt: null } },
+      include: { node: { include: { block: true } } },
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+    });
+
+    const res = validateAndSend(
+      { items: pins.map(toPinItem) },
+      GraphPinsResponse,
+      200
+    );
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    if (err instanceof Response) return err;
+    const { log } = createRequestLogger(req, {
+      route: "GET /v1/graphs/:id/pins",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Internal server error");
+  }
+}
@@ -0,0 +1,105 @@
+import { requireOwner } from "@/lib/api/auth";
+import { Errors, jsonError } from "@/lib/api/errors";
+import {
+  cacheIdempotentResponse,
+  getCachedIdempotentResponse,
+} from "@/lib/api/idempotency";
+import { createRequestLogger } from "@/lib/api/logger";
+import { checkWriteRateLimit } from "@/lib/api/rate-limit";
+import { GraphIdParam } from "@/lib/api/schemas/queries";
+import { OperationResultResponse } from "@/lib/api/schemas/responses";
+import { parseParams } from "@/lib/api/validators";
+import { validateAndSend } from "@/lib/api/validators";
+import { prisma } from "@/lib/db";
+import { redoNextOperation } from "@/lib/utils/oplog";
+
+/**
+ * Redo the most recently undone operation in the graph, as long as nothing
+ * was recorded since and its branch still sits where the undo left it.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ graphId: string }> }
+) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkWriteRateLimit(owner.id, "POST /v1/graphs/:id/redo");
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "POST /v1/graphs/:id/redo",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "writes_per_min",
+        max: 60,
+      });
+      return rl;
+    }
+
+    const { log, ctx } = createRequestLogger(req, {
+      route: "POST /v1/graphs/:id/redo",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+
+    // Idempotency replay
+    const cached = await getCachedIdempotentResponse(req, owner.id);
+    if (cached) {
+      log.info({ event: "idempotency_check", result: "hit" });
+      return new Response(JSON.stringify(cached.body ?? {}), {
+        status: cached.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    log.info({ event: "idempotency_check", result: "miss" });
+
+    const parsedParams = await parseParams(params, GraphIdParam);
+    if (parsedParams instanceof Response) return parsedParams;
+    const { graphId } = parsedParams;
+
+    const graph = await prisma.graph.findFirst({
+      where: { id: graphId, userId: owner.id, deletedAt: null },
+      select: { id: true },
+    });
+    if (!graph) return Errors.notFound("Graph");
+
+    const txStart = Date.now();
+    const result = await prisma.$transaction((tx) =>
+      redoNextOperation(tx, graphId)
+    );
+    log.info({ event: "tx_end", ok: true, durationMs: Date.now() - txStart });
+    log.info({
+      event: "business_event",
+      kind: "graph_redo",
+      details: {
+        operationId: result.operation.id,
+        branchId: result.branch.id,
+        tipNodeId: result.branch.tipNodeId,
+      },
+    });
+
+    await cacheIdempotentResponse({
+      req,
+      userId: owner.id,
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+      body: result,
+    });
+
+    const res = validateAndSend(result, OperationResultResponse, 200);
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    if (err instanceof Response) return err;
+    const { log } = createRequestLogger(req, {
+      route: "POST /v1/graphs/:id/redo",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Failed to redo");
+  }
+}
@@ -0,0 +1,132 @@
+import { requireOwner } from "@/lib/api/auth";
+import { Errors, jsonError } from "@/lib/api/errors";
+import {
+  cacheIdempotentResponse,
+  getCachedIdempotentResponse,
+} from "@/lib/api/idempotency";
+import { createRequestLogger } from "@/lib/api/logger";
+import { checkWriteRateLimit } from "@/lib/api/rate-limit";
+import { GraphIdParam } from "@/lib/api/schemas/queries";
+import { RestoreGraphResponse } from "@/lib/api/schemas/responses";
+import { parseParams } from "@/lib/api/validators";
+import { validateAndSend } from "@/lib/api/validators";
+import { prisma } from "@/lib/db";
+import { ensureUniqueGraphTitle } from "@/lib/utils/unique-name";
+
+/**
+ * Take a graph back out of the trash. If another session took its title in
+ * the meantime, the restored graph gets a numbered suffix.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ graphId: string }> }
+) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkWriteRateLimit(owner.id, "POST /v1/graphs/:id/restore");
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "POST /v1/graphs/:id/restore",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "writes_per_min",
+        max: 60,
+      });
+      return rl;
+    }
+
+    const { log, ctx } = createRequestLogger(req, {
+      route: "POST /v1/graphs/:id/restore",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+
+    // Idempotency replay
+    const cached = await getCachedIdempotentResponse(req, owner.id);
+    if (cached) {
+      log.info({ event: "idempotency_check", result: "hit" });
+      return new Response(JSON.stringify(cached.body ?? {}), {
+        status: cached.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    log.info({ event: "idempotency_check", result: "miss" });
+
+    const parsedParams = await parseParams(params, GraphIdParam);
+    if (parsedParams instanceof Response) return parsedParams;
+    const { graphId } = parsedParams;
+
+    const graph = await prisma.graph.findFirst({
+      where: { id: graphId, userId: owner.id, deletedAt: { not: null } },
+      select: { id: true, title: true },
+    });
+    if (!graph) return Errors.notFound("Deleted graph");
+
+    const txStart = Date.now();
+    const result = await prisma.$transaction(async (tx) => {
+      const now = new Date();
+
+      // Claim the graph so concurrent restores cannot both apply
+      const claimed = await tx.graph.updateMany({
+        where: { id: graphId, deletedAt: { not: null } },
+        data: { deletedAt: null, lastActivityAt: now },
+      });
+      if (claimed.count === 0) throw Errors.notFound("Deleted graph");
+
+      let title = graph.title;
+      if (title) {
+        // Look for live graphs other than this one holding the title
+        const taken = await tx.graph.findFirst({
+          where: {
+            userId: owner.id,
+            title,
+            deletedAt: null,
+            id: { not: graphId },
+          },
+          select: { id: true },
+        });
+        if (taken) title = await ensureUniqueGraphTitle(owner.id, title, tx);
+      }
+
+      const restored = await tx.graph.update({
+        where: { id: graphId },
+        data: { title },
+        select: {
+          id: true,
+          title: true,
+          description: true,
+          createdAt: true,
+          lastActivityAt: true,
+        },
+      });
+
+      return { graph: restored, restoredAt: now.toISOString() };
+    });
+    log.info({ event: "tx_end", ok: true, durationMs: Date.now() - txStart });
+
+    await cacheIdempotentResponse({
+      req,
+      userId: owner.id,
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+      body: result,
+    });
+
+    const res = validateAndSend(result, RestoreGraphResponse, 200);
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    if (err instanceof Response) return err;
+    const { log } = createRequestLogger(req, {
+      route: "POST /v1/graphs/:id/restore",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Failed to restore graph");
+  }
+}
@@ -1,3 +1,6 @@
+import { CONTEXT_STRATEGIES } from "@/lib/ai/context-strategies";
+import { type Message, generateGraphTitle } from "@/lib/ai/naming";
+import { indexGraphEmbeddings } from "@/lib/ai/retrieval";
 import { requireOwner } from "@/lib/api/auth";
 import { Errors, jsonError } from "@/lib/api/errors";
 import {
@@ -6,14 +9,70 @@ import {
 } from "@/lib/api/idempotency";
 import { createRequestLogger } from "@/lib/api/logger";
 import { checkWriteRateLimit } from "@/lib/api/rate-limit";
+import type { ContextStrategy } from "@/lib/api/schemas/enums";
 import { GraphIdParam } from "@/lib/api/schemas/queries";
+import { UpdateGraphBody } from "@/lib/api/schemas/requests";
 import {
   DeleteGraphResponse,
   GraphDetailResponse,
+  UpdateGraphResponse,
 } from "@/lib/api/schemas/responses";
 import { parseParams } from "@/lib/api/validators";
 import { validateAndSend } from "@/lib/api/validators";
 import { prisma } from "@/lib/db";
+import { getFollowsPath } from "@/lib/utils/dag";
+import { graphPurgeAt } from "@/lib/utils/graph-trash";
+import { ensureUniqueGraphTitle } from "@/lib/utils/unique-name";
+
+const graphSelect = {
+  id: true,
+  title: true,
+  description: true,
+  contextStrategy: true,
+  createdAt: true,
+  lastActivityAt: true,
+} as const;
+
+// How many of the latest messages feed title regeneration
+const TITLE_CONTEXT_MESSAGES = 12;
+
+/**
+ * Latest messages on the graph's oldest branch, oldest first, as context for
+ * regenerating the title.
+ */
+async function loadTitleContext(graphId: string): Promise<Message[]> {
+  const branch = await prisma.branch.findFirst({
+    where: { graphId, tipNodeId: { not: null } },
+    orderBy: { createdAt: "asc" },
+    select: { tipNodeId: true },
+  });
+  if (!branch?.tipNodeId) return [];
+
+  const pathIds = (await getFollowsPath(graphId, branch.tipNodeId, null)).slice(
+    0,
+    TITLE_CONTEXT_MESSAGES
+  );
+  const nodes = await prisma.graphNode.findMany({
+    where: { id: { in: pathIds }, hiddenAt: null },
+    include: { block: true },
+  });
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+
+  return pathIds
+    .reverse()
+    .flatMap((id) => {
+      const node = byId.get(id);
+      if (!node) return [];
+      const content = node.block.content as { text?: string } | null;
+      return [
+        {
+          role: node.block.kind === "user" ? "user" : "assistant",
+          content: content?.text ?? "",
+        } satisfies Message,
+      ];
+    })
+    .filter((m) => m.content.trim().length > 0);
+}
 
 export async function GET(
   _: Request,
@@ -35,8 +94,8 @@ export async function GET(
     const { graphId } = parsedParams;
 
     const graph = await prisma.graph.findFirst({
-      where: { id: graphId, userId: owner.id },
-      select: { id: true, title: true, createdAt: true, lastActivityAt: true },
+      where: { id: graphId, userId: owner.id, deletedAt: null },
+      select: graphSelect,
     });
     if (!graph) return Errors.notFound("Graph");
 
@@ -47,6 +106,8 @@ export async function GET(
         name: true,
         rootNodeId: true,
         tipNodeId: true,
+        parentBranchId: true,
+        forkNodeId: true,
         version: true,
       },
       orderBy: { createdAt: "asc" },
@@ -65,6 +126,141 @@ export async function GET(
   }
 }
 
+/**
+ * Update graph metadata. A new title is made unique among the owner's graphs
+ * the same way generated titles are; `regenerateTitle` derives one from the
+ * current conversation instead.
+ */
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ graphId: string }> }
+) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkWriteRateLimit(owner.id, "PATCH /v1/graphs/:id");
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "PATCH /v1/graphs/:id",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "writes_per_min",
+        max: 60,
+      });
+      return rl;
+    }
+
+    const { log, ctx } = createRequestLogger(req, {
+      route: "PATCH /v1/graphs/:id",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+
+    // Idempotency replay
+    const cached = await getCachedIdempotentResponse(req, owner.id);
+    if (cached) {
+      log.info({ event: "idempotency_check", result: "hit" });
+      return new Response(JSON.stringify(cached.body ?? {}), {
+        status: cached.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    log.info({ event: "idempotency_check", result: "miss" });
+
+    const body = await req.json().catch(() => null);
+    const parsed = UpdateGraphBody.safeParse(body);
+    if (!parsed.success) {
+      log.info({ event: "validation_result", ok: false });
+      return Errors.validation("Invalid request body", parsed.error.flatten());
+    }
+    log.info({ event: "validation_result", ok: true });
+    const { title, description, regenerateTitle, contextStrategy } =
+      parsed.data;
+
+    const parsedParams = await parseParams(params, GraphIdParam);
+    if (parsedParams instanceof Response) return parsedParams;
+    const { graphId } = parsedParams;
+
+    const graph = await prisma.graph.findFirst({
+      where: { id: graphId, userId: owner.id, deletedAt: null },
+      select: { id: true, title: true },
+    });
+    if (!graph) return Errors.notFound("Graph");
+
+    let desiredTitle = title;
+    if (regenerateTitle) {
+      const messages = await loadTitleContext(graphId);
+      if (messages.length === 0) {
+        return Errors.validation("Graph has no messages to generate a title");
+      }
+      const generated = await generateGraphTitle(messages);
+      if (!generated) {
+        return jsonError("INTERNAL", "Failed to generate title");
+      }
+      desiredTitle = generated;
+      log.info({ event: "graph_name_generated", graphId, name: generated });
+    }
+
+    const data: {
+      title?: string;
+      description?: string | null;
+      contextStrategy?: ContextStrategy | null;
+    } = {};
+    if (desiredTitle !== undefined && desiredTitle !== graph.title) {
+      data.title = await ensureUniqueGraphTitle(owner.id, desiredTitle);
+    }
+    if (description !== undefined) {
+      data.description = description || null;
+    }
+    if (contextStrategy !== undefined) {
+      data.contextStrategy = contextStrategy;
+    }
+
+    const txStart = Date.now();
+    const updated = await prisma.graph.update({
+      where: { id: graphId },
+      data,
+      select: graphSelect,
+    });
+    log.info({ event: "tx_end", ok: true, durationMs: Date.now() - txStart });
+
+    // Build the embedding index up front so retrieval has material from the
+    // first send on
+    if (contextStrategy && CONTEXT_STRATEGIES[contextStrategy].retrieval) {
+      void indexGraphEmbeddings(graphId, owner.id, log);
+    }
+
+    const result = { graph: updated };
+
+    await cacheIdempotentResponse({
+      req,
+      userId: owner.id,
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+      body: result,
+    });
+
+    const res = validateAndSend(result, UpdateGraphResponse, 200);
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    const { log } = createRequestLogger(req, {
+      route: "PATCH /v1/graphs/:id",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Failed to update graph");
+  }
+}
+
+/**
+ * Move a graph to the trash. It disappears from the graph list but can be
+ * restored until the retention period ends.
+ */
 export async function DELETE(
   req: Request,
   { params }: { params: Promise<{ graphId: string }> }
@@ -111,21 +307,25 @@ export async function DELETE(
 
     // Verify ownership
     const graph = await prisma.graph.findFirst({
-      where: { id: graphId, userId: owner.id },
+      where: { id: graphId, userId: owner.id, deletedAt: null },
       select: { id: true },
     });
     if (!graph) return Errors.notFound("Graph");
 
-    // Delete graph (cascade will handle nodes, edges, branches)
+    // Move to the trash; the graph is purged once the retention period ends
     const txStart = Date.now();
-    await prisma.graph.delete({
+    const deleted = await prisma.graph.update({
       where: { id: graphId },
+      data: { deletedAt: new Date() },
+      select: { deletedAt: true },
     });
     log.info({ event: "tx_end", ok: true, durationMs: Date.now() - txStart });
 
+    const deletedAt = deleted.deletedAt!;
     const result = {
       graphId,
-      deletedAt: new Date().toISOString(),
+      deletedAt: deletedAt.toISOString(),
+      purgeAt: graphPurgeAt(deletedAt).toISOString(),
     };
 
     // Cache idempotent result
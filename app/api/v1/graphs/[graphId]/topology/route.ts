@@ -0,0 +1,123 @@
+import { requireOwner } from "@/lib/api/auth";
+import { Errors, jsonError } from "@/lib/api/errors";
+import { createRequestLogger } from "@/lib/api/logger";
+import { checkReadRateLimit } from "@/lib/api/rate-limit";
+import { GraphIdParam } from "@/lib/api/schemas/queries";
+import { GraphTopologyResponse } from "@/lib/api/schemas/responses";
+import { parseParams } from "@/lib/api/validators";
+import { validateAndSend } from "@/lib/api/validators";
+import { prisma } from "@/lib/db";
+
+// Characters of block text shipped per node; full content stays in `linear`
+const EXCERPT_LENGTH = 160;
+
+/**
+ * Every visible node, live edge and branch pointer of a graph in one payload,
+ * for drawing the whole DAG client-side.
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ graphId: string }> }
+) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkReadRateLimit(owner.id, "GET /v1/graphs/:id/topology");
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "GET /v1/graphs/:id/topology",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "reads_per_min",
+        max: 300,
+      });
+      return rl;
+    }
+
+    const { log, ctx } = createRequestLogger(req, {
+      route: "GET /v1/graphs/:id/topology",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+
+    const parsedParams = await parseParams(params, GraphIdParam);
+    if (parsedParams instanceof Response) return parsedParams;
+    const { graphId } = parsedParams;
+
+    const graph = await prisma.graph.findFirst({
+      where: { id: graphId, userId: owner.id, deletedAt: null },
+      select: { id: true, title: true },
+    });
+    if (!graph) return Errors.notFound("Graph");
+
+    const [nodes, edges, branches] = await Promise.all([
+      prisma.graphNode.findMany({
+        // Summary nodes sit beside the path rather than on it
+        where: { graphId, hiddenAt: null, block: { kind: { not: "summary" } } },
+        include: { block: { select: { kind: true, content: true } } },
+        orderBy: { id: "asc" },
+      }),
+      prisma.blockEdge.findMany({
+        where: {
+          graphId,
+          deletedAt: null,
+          parentNode: { hiddenAt: null },
+          childNode: { hiddenAt: null },
+        },
+        select: {
+          id: true,
+          parentNodeId: true,
+          childNodeId: true,
+          relation: true,
+          ord: true,
+        },
+      }),
+      prisma.branch.findMany({
+        where: { graphId },
+        select: {
+          id: true,
+          name: true,
+          rootNodeId: true,
+          tipNodeId: true,
+          version: true,
+        },
+        orderBy: { createdAt: "asc" },
+      }),
+    ]);
+
+    const result = {
+      graph,
+      nodes: nodes.map((n) => {
+        const content = n.block.content as { text?: string } | null;
+        return {
+          id: n.id,
+          blockId: n.blockId,
+          kind: n.block.kind,
+          excerpt: (content?.text ?? "").slice(0, EXCERPT_LENGTH),
+        };
+      }),
+      edges,
+      branches,
+    };
+
+    const res = validateAndSend(result, GraphTopologyResponse, 200);
+    log.info({
+      event: "request_end",
+      durationMs: Date.now() - ctx.startedAt,
+      nodes: result.nodes.length,
+      edges: edges.length,
+    });
+    return res;
+  } catch (err) {
+    const { log } = createRequestLogger(req, {
+      route: "GET /v1/graphs/:id/topology",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Internal server error");
+  }
+}
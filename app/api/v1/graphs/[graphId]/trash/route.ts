@@ -0,0 +1,88 @@
+import { requireOwner } from "@/lib/api/auth";
+import { Errors, jsonError } from "@/lib/api/errors";
+import { createRequestLogger } from "@/lib/api/logger";
+import { checkReadRateLimit } from "@/lib/api/rate-limit";
+import { GraphIdParam, GraphTrashQuery } from "@/lib/api/schemas/queries";
+import { GraphTrashResponse } from "@/lib/api/schemas/responses";
+import { parseParams, parseQuery } from "@/lib/api/validators";
+import { validateAndSend } from "@/lib/api/validators";
+import { prisma } from "@/lib/db";
+
+/** List soft-deleted nodes of a graph that can still be restored. */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ graphId: string }> }
+) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkReadRateLimit(owner.id, "GET /v1/graphs/:id/trash");
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "GET /v1/graphs/:id/trash",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "reads_per_min",
+        max: 300,
+      });
+      return rl;
+    }
+
+    const { log, ctx } = createRequestLogger(req, {
+      route: "GET /v1/graphs/:id/trash",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+
+    const parsedParams = await parseParams(params, GraphIdParam);
+    if (parsedParams instanceof Response) return parsedParams;
+    const { graphId } = parsedParams;
+
+    const url = new URL(req.url);
+    const query = parseQuery(url.searchParams, GraphTrashQuery);
+    if (query instanceof Response) return query;
+    const { limit, cursor } = query;
+
+    const graph = await prisma.graph.findFirst({
+      where: { id: graphId, userId: owner.id, deletedAt: null },
+      select: { id: true },
+    });
+    if (!graph) return Errors.notFound("Graph");
+
+    const deletions = await prisma.nodeDeletion.findMany({
+      where: { graphId, restoredAt: null },
+      orderBy: [{ deletedAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      include: { node: { include: { block: true } } },
+    });
+
+    let nextCursor: string | null = null;
+    if (deletions.length > limit) {
+      deletions.pop();
+      nextCursor = deletions[deletions.length - 1]?.id ?? null;
+    }
+
+    const items = deletions.map((d) => ({
+      deletionId: d.id,
+      nodeId: d.nodeId,
+      deletedAt: d.deletedAt,
+      block: d.node.block,
+    }));
+
+    const res = validateAndSend({ items, nextCursor }, GraphTrashResponse, 200);
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    const { log } = createRequestLogger(req, {
+      route: "GET /v1/graphs/:id/trash",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Internal server error");
+  }
+}
@@ -6,6 +6,7 @@ import { GraphsListResponse } from "@/lib/api/schemas/responses";
 import { parseQuery } from "@/lib/api/validators";
 import { validateAndSend } from "@/lib/api/validators";
 import { prisma } from "@/lib/db";
+import { purgeExpiredGraphs } from "@/lib/utils/graph-trash";
 
 export async function GET(req: Request) {
   try {
@@ -23,12 +24,21 @@ export async function GET(req: Request) {
     if (query instanceof Response) return query;
     const { limit, cursor } = query;
 
+    const purged = await purgeExpiredGraphs(owner.id);
+    if (purged > 0) log.info({ event: "graph_trash_purged", count: purged });
+
     const items = await prisma.graph.findMany({
-      where: { userId: owner.id },
+      where: { userId: owner.id, deletedAt: null },
       orderBy: { lastActivityAt: "desc" },
       take: limit + 1,
       ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
-      select: { id: true, title: true, createdAt: true, lastActivityAt: true },
+      select: {
+        id: true,
+        title: true,
+        description: true,
+        createdAt: true,
+        lastActivityAt: true,
+      },
     });
 
     let nextCursor: string | null = null;
@@ -0,0 +1,88 @@
+import { requireOwner } from "@/lib/api/auth";
+import { jsonError } from "@/lib/api/errors";
+import { createRequestLogger } from "@/lib/api/logger";
+import { checkReadRateLimit } from "@/lib/api/rate-limit";
+import { TrashedGraphsQuery } from "@/lib/api/schemas/queries";
+import { TrashedGraphsResponse } from "@/lib/api/schemas/responses";
+import { parseQuery } from "@/lib/api/validators";
+import { validateAndSend } from "@/lib/api/validators";
+import { prisma } from "@/lib/db";
+import { graphPurgeAt, purgeExpiredGraphs } from "@/lib/utils/graph-trash";
+
+/** List graphs in the trash, most recently deleted first. */
+export async function GET(req: Request) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkReadRateLimit(owner.id, "GET /v1/graphs/trash");
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "GET /v1/graphs/trash",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "reads_per_min",
+        max: 300,
+      });
+      return rl;
+    }
+
+    const { log, ctx } = createRequestLogger(req, {
+      route: "GET /v1/graphs/trash",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+
+    const url = new URL(req.url);
+    const query = parseQuery(url.searchParams, TrashedGraphsQuery);
+    if (query instanceof Response) return query;
+    const { limit, cursor } = query;
+
+    const purged = await purgeExpiredGraphs(owner.id);
+    if (purged > 0) log.info({ event: "graph_trash_purged", count: purged });
+
+    const graphs = await prisma.graph.findMany({
+      where: { userId: owner.id, deletedAt: { not: null } },
+      orderBy: [{ deletedAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      select: {
+        id: true,
+        title: true,
+        description: true,
+        createdAt: true,
+        lastActivityAt: true,
+        deletedAt: true,
+      },
+    });
+
+    let nextCursor: string | null = null;
+    if (graphs.length > limit) {
+      graphs.pop();
+      nextCursor = graphs[graphs.length - 1]?.id ?? null;
+    }
+
+    const items = graphs.map((g) => ({
+      ...g,
+      purgeAt: graphPurgeAt(g.deletedAt!),
+    }));
+
+    const res = validateAndSend(
+      { items, nextCursor },
+      TrashedGraphsResponse,
+      200
+    );
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    const { log } = createRequestLogger(req, {
+      route: "GET /v1/graphs/trash",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Internal server error");
+  }
+}
@@ -0,0 +1,130 @@
+import { liveNodeWhere, requireOwner } from "@/lib/api/auth";
+import { Errors, jsonError } from "@/lib/api/errors";
+import { createRequestLogger } from "@/lib/api/logger";
+import { checkReadRateLimit } from "@/lib/api/rate-limit";
+import { NodeIdParam } from "@/lib/api/schemas/queries";
+import { NodeBacklinksResponse } from "@/lib/api/schemas/responses";
+import { parseParams } from "@/lib/api/validators";
+import { validateAndSend } from "@/lib/api/validators";
+import { prisma } from "@/lib/db";
+import { findBranchesContaining } from "@/lib/utils/dag";
+
+const MAX_BACKLINKS = 100;
+
+/**
+ * Everywhere the node's ContextBlock appears across the caller's graphs:
+ * nodes that contain the block directly and nodes that reference it, each
+ * with the branches whose history includes that node.
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ nodeId: string }> }
+) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkReadRateLimit(owner.id, "GET /v1/nodes/:id/backlinks");
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "GET /v1/nodes/:id/backlinks",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "reads_per_min",
+        max: 300,
+      });
+      return rl;
+    }
+
+    const { log, ctx } = createRequestLogger(req, {
+      route: "GET /v1/nodes/:id/backlinks",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+
+    const parsedParams = await parseParams(params, NodeIdParam);
+    if (parsedParams instanceof Response) return parsedParams;
+    const { nodeId } = parsedParams;
+
+    const node = await prisma.graphNode.findUnique({
+      where: liveNodeWhere(nodeId),
+      include: { graph: { select: { userId: true } } },
+    });
+    if (!node || node.hiddenAt) return Errors.notFound("Node");
+    if (node.graph.userId !== owner.id) return Errors.forbidden();
+    const { blockId } = node;
+
+    const [containing, referencing] = await Promise.all([
+      prisma.graphNode.findMany({
+        where: {
+          blockId,
+          id: { not: nodeId },
+          hiddenAt: null,
+          graph: { userId: owner.id, deletedAt: null },
+        },
+        include: { graph: { select: { id: true, title: true } } },
+        take: MAX_BACKLINKS,
+      }),
+      prisma.blockEdge.findMany({
+        where: {
+          relation: "references",
+          deletedAt: null,
+          childNode: { blockId, hiddenAt: null },
+          parentNode: { hiddenAt: null },
+          graph: { userId: owner.id, deletedAt: null },
+        },
+        include: { graph: { select: { id: true, title: true } } },
+        take: MAX_BACKLINKS,
+      }),
+    ]);
+
+    const hits = [
+      ...containing.map((n) => ({
+        nodeId: n.id,
+        relation: "contains" as const,
+        graph: n.graph,
+      })),
+      ...referencing.map((e) => ({
+        nodeId: e.parentNodeId,
+        relation: "references" as const,
+        graph: e.graph,
+      })),
+    ];
+
+    const graphIds = [...new Set(hits.map((h) => h.graph.id))];
+    const [memberships, branches] = await Promise.all([
+      findBranchesContaining(
+        graphIds,
+        hits.map((h) => h.nodeId)
+      ),
+      prisma.branch.findMany({
+        where: { graphId: { in: graphIds } },
+        select: { id: true, name: true },
+        orderBy: { createdAt: "asc" },
+      }),
+    ]);
+    const branchById = new Map(branches.map((b) => [b.id, b]));
+
+    const items = hits.map((h) => ({
+      ...h,
+      branches: memberships
+        .filter((m) => m.nodeId === h.nodeId)
+        .map((m) => branchById.get(m.branchId))
+        .filter((b): b is { id: string; name: string } => Boolean(b)),
+    }));
+
+    const res = validateAndSend({ blockId, items }, NodeBacklinksResponse, 200);
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    const { log } = createRequestLogger(req, {
+      route: "GET /v1/nodes/:id/backlinks",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Internal server error");
+  }
+}
@@ -0,0 +1,94 @@
+import { liveNodeWhere, requireOwner } from "@/lib/api/auth";
+import { Errors, jsonError } from "@/lib/api/errors";
+import { createRequestLogger } from "@/lib/api/logger";
+import { checkReadRateLimit } from "@/lib/api/rate-limit";
+import { NodeIdParam, NodeRefsQuery } from "@/lib/api/schemas/queries";
+import { NodeRefsResponse } from "@/lib/api/schemas/responses";
+import { parseParams, parseQuery } from "@/lib/api/validators";
+import { validateAndSend } from "@/lib/api/validators";
+import { prisma } from "@/lib/db";
+
+/** List the blocks a node references, in attachment order. */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ nodeId: string }> }
+) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkReadRateLimit(owner.id, "GET /v1/nodes/:id/refs");
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "GET /v1/nodes/:id/refs",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "reads_per_min",
+        max: 300,
+      });
+      return rl;
+    }
+
+    const { log, ctx } = createRequestLogger(req, {
+      route: "GET /v1/nodes/:id/refs",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+
+    const parsedParams = await parseParams(params, NodeIdParam);
+    if (parsedParams instanceof Response) return parsedParams;
+    const { nodeId } = parsedParams;
+
+    const url = new URL(req.url);
+    const query = parseQuery(url.searchParams, NodeRefsQuery);
+    if (query instanceof Response) return query;
+    const { limit, cursor } = query;
+
+    const node = await prisma.graphNode.findUnique({
+      where: liveNodeWhere(nodeId),
+      include: { graph: { select: { userId: true } } },
+    });
+    if (!node || node.hiddenAt) return Errors.notFound("Node");
+    if (node.graph.userId !== owner.id) return Errors.forbidden();
+
+    // Cursor is the id of the last edge on the previous page
+    const edges = await prisma.blockEdge.findMany({
+      where: {
+        graphId: node.graphId,
+        parentNodeId: nodeId,
+        relation: "references",
+        deletedAt: null,
+        childNode: { hiddenAt: null },
+      },
+      orderBy: [{ ord: "asc" }, { createdAt: "asc" }, { id: "asc" }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      include: { childNode: { include: { block: true } } },
+    });
+
+    let nextCursor: string | null = null;
+    if (edges.length > limit) {
+      edges.pop();
+      nextCursor = edges[edges.length - 1]?.id ?? null;
+    }
+
+    const items = edges.map((e) => ({
+      nodeId: e.childNodeId,
+      block: e.childNode.block,
+    }));
+
+    const res = validateAndSend({ items, nextCursor }, NodeRefsResponse, 200);
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    const { log } = createRequestLogger(req, {
+      route: "GET /v1/nodes/:id/refs",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Internal server error");
+  }
+}
@@ -0,0 +1,158 @@
+import { requireOwner } from "@/lib/api/auth";
+import { Errors, jsonError } from "@/lib/api/errors";
+import {
+  cacheIdempotentResponse,
+  getCachedIdempotentResponse,
+} from "@/lib/api/idempotency";
+import { createRequestLogger } from "@/lib/api/logger";
+import { checkWriteRateLimit } from "@/lib/api/rate-limit";
+import { NodeIdParam } from "@/lib/api/schemas/queries";
+import { RestoreNodeResponse } from "@/lib/api/schemas/responses";
+import { parseParams } from "@/lib/api/validators";
+import { validateAndSend } from "@/lib/api/validators";
+import { prisma } from "@/lib/db";
+
+type RetargetedTip = {
+  branchId: string;
+  oldTip: string;
+  newTip: string | null;
+  version: number;
+};
+
+/**
+ * Undo the most recent soft-delete of a node. Edges removed by the delete are
+ * revived, bridge edges are dropped, and tips that were retargeted move back
+ * if the branch has not advanced since.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ nodeId: string }> }
+) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkWriteRateLimit(owner.id, "POST /v1/nodes/:id/restore");
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "POST /v1/nodes/:id/restore",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "writes_per_min",
+        max: 60,
+      });
+      return rl;
+    }
+
+    // Idempotency replay
+    const cached = await getCachedIdempotentResponse(req, owner.id);
+    const { log, ctx } = createRequestLogger(req, {
+      route: "POST /v1/nodes/:id/restore",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+    if (cached) {
+      log.info({ event: "idempotency_check", result: "hit" });
+      return new Response(JSON.stringify(cached.body ?? {}), {
+        status: cached.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    log.info({ event: "idempotency_check", result: "miss" });
+
+    const paramOk = await parseParams(params, NodeIdParam);
+    if (paramOk instanceof Response) return paramOk;
+    const { nodeId } = paramOk;
+
+    const deletion = await prisma.nodeDeletion.findFirst({
+      where: { nodeId, restoredAt: null, graph: { deletedAt: null } },
+      include: { graph: true },
+      orderBy: { deletedAt: "desc" },
+    });
+    if (!deletion) return Errors.notFound("Deleted node");
+    if (deletion.graph.userId !== owner.id) return Errors.forbidden();
+
+    const txStart = Date.now();
+    const result = await prisma.$transaction(async (tx) => {
+      const now = new Date();
+
+      // Claim the deletion record so concurrent restores cannot both apply
+      const claimed = await tx.nodeDeletion.updateMany({
+        where: { id: deletion.id, restoredAt: null },
+        data: { restoredAt: now },
+      });
+      if (claimed.count === 0) throw Errors.notFound("Deleted node");
+
+      await tx.graphNode.update({
+        where: { id: nodeId },
+        data: { hiddenAt: null },
+      });
+      const revived = await tx.blockEdge.updateMany({
+        where: { id: { in: deletion.deletedEdgeIds } },
+        data: { deletedAt: null },
+      });
+      await tx.blockEdge.deleteMany({
+        where: { id: { in: deletion.bridgeEdgeIds } },
+      });
+
+      // Move tips back only where the branch still sits where delete left it
+      const restoredTips: Array<{
+        branchId: string;
+        tipNodeId: string;
+        version: number;
+      }> = [];
+      const retargeted = deletion.retargetedTips as unknown as RetargetedTip[];
+      for (const t of retargeted) {
+        const branch = await tx.branch.findUnique({
+          where: { id: t.branchId },
+        });
+        if (!branch || branch.tipNodeId !== t.newTip) continue;
+        const updated = await tx.branch.updateMany({
+          where: { id: branch.id, version: branch.version },
+          data: { tipNodeId: t.oldTip, version: { increment: 1 } },
+        });
+        if (updated.count === 0) continue;
+        restoredTips.push({
+          branchId: branch.id,
+          tipNodeId: t.oldTip,
+          version: branch.version + 1,
+        });
+      }
+
+      await tx.graph.update({
+        where: { id: deletion.graphId },
+        data: { lastActivityAt: now },
+      });
+
+      return {
+        nodeId,
+        restoredAt: now.toISOString(),
+        affected: { restoredEdges: revived.count, restoredTips },
+      };
+    });
+    log.info({ event: "tx_end", ok: true, durationMs: Date.now() - txStart });
+
+    await cacheIdempotentResponse({
+      req,
+      userId: owner.id,
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+      body: result,
+    });
+
+    const res = validateAndSend(result, RestoreNodeResponse, 200);
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    if (err instanceof Response) return err;
+    const { log } = createRequestLogger(req, {
+      route: "POST /v1/nodes/:id/restore",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Internal server error");
+  }
+}
@@ -0,0 +1,214 @@
+import { liveNodeWhere, requireOwner } from "@/lib/api/auth";
+import { Errors, jsonError } from "@/lib/api/errors";
+import {
+  cacheIdempotentResponse,
+  getCachedIdempotentResponse,
+} from "@/lib/api/idempotency";
+import { createRequestLogger } from "@/lib/api/logger";
+import { checkWriteRateLimit } from "@/lib/api/rate-limit";
+import { NodeIdParam } from "@/lib/api/schemas/queries";
+import { DeleteNodeBody } from "@/lib/api/schemas/requests";
+import { DeleteNodeResponse } from "@/lib/api/schemas/responses";
+import { parseParams } from "@/lib/api/validators";
+import { validateAndSend } from "@/lib/api/validators";
+import { prisma } from "@/lib/db";
+
+/**
+ * Soft-delete a node: hide it, soft-delete its edges and splice its `follows`
+ * parent onto its children so descendants keep their history. Branches whose
+ * tip was the node move back to that parent. A NodeDeletion record keeps
+ * enough state for POST /v1/nodes/:id/restore.
+ */
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ nodeId: string }> }
+) {
+  try {
+    const ownerOrRes = await requireOwner();
+    if (ownerOrRes instanceof Response) return ownerOrRes;
+    const { owner } = ownerOrRes;
+
+    const rl = checkWriteRateLimit(owner.id, "DELETE /v1/nodes/:id");
+    if (rl) {
+      const { log } = createRequestLogger(req, {
+        route: "DELETE /v1/nodes/:id",
+        userId: owner.id,
+      });
+      log.warn({
+        event: "rate_limit_reject",
+        limit: "writes_per_min",
+        max: 60,
+      });
+      return rl;
+    }
+
+    // Idempotency replay
+    const cached = await getCachedIdempotentResponse(req, owner.id);
+    const { log, ctx } = createRequestLogger(req, {
+      route: "DELETE /v1/nodes/:id",
+      userId: owner.id,
+    });
+    log.info({ event: "request_start" });
+    if (cached) {
+      log.info({ event: "idempotency_check", result: "hit" });
+      return new Response(JSON.stringify(cached.body ?? {}), {
+        status: cached.status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    log.info({ event: "idempotency_check", result: "miss" });
+
+    // Body is optional for DELETE
+    const body = await req.json().catch(() => ({}));
+    const parsed = DeleteNodeBody.safeParse(body ?? {});
+    if (!parsed.success) {
+      log.info({ event: "validation_result", ok: false });
+      return Errors.validation("Invalid request body", parsed.error.flatten());
+    }
+    log.info({ event: "validation_result", ok: true });
+    const { removeReferences, expectedVersions } = parsed.data;
+
+    const paramOk = await parseParams(params, NodeIdParam);
+    if (paramOk instanceof Response) return paramOk;
+    const { nodeId } = paramOk;
+
+    const node = await prisma.graphNode.findUnique({
+      where: liveNodeWhere(nodeId),
+      include: { graph: true },
+    });
+    if (!node || node.hiddenAt) return Errors.notFound("Node");
+    if (node.graph.userId !== owner.id) return Errors.forbidden();
+
+    const rootOf = await prisma.branch.findMany({
+      where: { rootNodeId: nodeId },
+      select: { id: true },
+    });
+    if (rootOf.length > 0) {
+      return Errors.cannotDeleteBranchRoot(rootOf.map((b) => b.id));
+    }
+
+    const txStart = Date.now();
+    const result = await prisma.$transaction(async (tx) => {
+      const now = new Date();
+
+      const incoming = await tx.blockEdge.findMany({
+        where: {
+          graphId: node.graphId,
+          childNodeId: nodeId,
+          deletedAt: null,
+          ...(removeReferences ? {} : { relation: "follows" }),
+        },
+        include: { parentNode: { select: { hiddenAt: true } } },
+        orderBy: [{ ord: "asc" }, { createdAt: "asc" }],
+      });
+      const outgoing = await tx.blockEdge.findMany({
+        where: { graphId: node.graphId, parentNodeId: nodeId, deletedAt: null },
+      });
+
+      // Nearest visible ancestor along the first `follows` parent
+      const parentNodeId =
+        incoming.find((e) => e.relation === "follows" && !e.parentNode.hiddenAt)
+          ?.parentNodeId ?? null;
+
+      // Retarget tips first so a version conflict aborts before any writes
+      const tipBranches = await tx.branch.findMany({
+        where: { tipNodeId: nodeId },
+      });
+      const retargetedTips: Array<{
+        branchId: string;
+        oldTip: string;
+        newTip: string | null;
+        version: number;
+      }> = [];
+      for (const b of tipBranches) {
+        const expected = expectedVersions?.[b.id];
+        if (expected != null && expected !== b.version) {
+          throw Errors.conflictTip(b.tipNodeId, b.version);
+        }
+        const updated = await tx.branch.updateMany({
+          where: { id: b.id, version: expected ?? b.version },
+          data: { tipNodeId: parentNodeId, version: { increment: 1 } },
+        });
+        if (updated.count === 0) {
+          throw Errors.conflictTip(b.tipNodeId, b.version);
+        }
+        retargetedTips.push({
+          branchId: b.id,
+          oldTip: nodeId,
+          newTip: parentNodeId,
+          version: b.version + 1,
+        });
+      }
+
+      // Bridge parent -> child for every follows child of the deleted node
+      const bridgeEdgeIds: string[] = [];
+      if (parentNodeId) {
+        for (const e of outgoing.filter((o) => o.relation === "follows")) {
+          const bridge = await tx.blockEdge.create({
+            data: {
+              graphId: node.graphId,
+              parentNodeId,
+              childNodeId: e.childNodeId,
+              relation: "follows",
+              ord: e.ord,
+            },
+          });
+          bridgeEdgeIds.push(bridge.id);
+        }
+      }
+
+      const deletedEdgeIds = [...incoming, ...outgoing].map((e) => e.id);
+      await tx.blockEdge.updateMany({
+        where: { id: { in: deletedEdgeIds } },
+        data: { deletedAt: now },
+      });
+      await tx.graphNode.update({
+        where: { id: nodeId },
+        data: { hiddenAt: now },
+      });
+
+      await tx.nodeDeletion.create({
+        data: {
+          graphId: node.graphId,
+          nodeId,
+          deletedAt: now,
+          deletedEdgeIds,
+          bridgeEdgeIds,
+          retargetedTips,
+        },
+      });
+
+      await tx.graph.update({
+        where: { id: node.graphId },
+        data: { lastActivityAt: now },
+      });
+
+      return {
+        nodeId,
+        hiddenAt: now.toISOString(),
+        affected: { deletedEdges: deletedEdgeIds.length, retargetedTips },
+      };
+    });
+    log.info({ event: "tx_end", ok: true, durationMs: Date.now() - txStart });
+
+    await cacheIdempotentResponse({
+      req,
+      userId: owner.id,
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+      body: result,
+    });
+
+    const res = validateAndSend(result, DeleteNodeResponse, 200);
+    log.info({ event: "request_end", durationMs: Date.now() - ctx.startedAt });
+    return res;
+  } catch (err) {
+    if (err instanceof Response) return err;
+    const { log } = createRequestLogger(req, {
+      route: "DELETE /v1/nodes/:id",
+      userId: "unknown",
+    });
+    log.error({ event: "request_error", error: err });
+    return jsonError("INTERNAL", "Internal server error");
+  }
+}
@@ -17,7 +17,9 @@ import {
 } from "@/lib/api/schemas/responses";
 import { QUERY_KEYS } from "@/lib/constants/query-keys";
 import { useChat } from "@/lib/hooks/use-chat";
+import { useContextSelection } from "@/lib/hooks/use-context-selection";
 import { useGenerateStream } from "@/lib/hooks/use-generate-stream";
+import { useInjectReference } from "@/lib/hooks/use-inject-reference";
 
 // Derive types from Zod schemas
 type GraphListItem = z.infer<typeof GraphsListResponse>["items"][number];
@@ -60,6 +62,10 @@ export default function WorkspaceClient() {
   const [branchComposer, setBranchComposer] = useState("");
   const [manuallySelectedBranch, setManuallySelectedBranch] = useState(false);
   const [autoShowNewSession, setAutoShowNewSession] = useState(false);
+  // Branch to select once a newly selected graph has loaded
+  const [pendingBranchSelection, setPendingBranchSelection] = useState<
+    string | null
+  >(null);
 
   const qc = useQueryClient();
 
@@ -119,8 +125,12 @@ export default function WorkspaceClient() {
     graphId: selectedGraphId,
   });
 
+  // Messages hand-picked as the context of the next send
+  const contextSelection = useContextSelection();
+
   // Generate stream hook
   const { generateStream } = useGenerateStream();
+  const { injectReference } = useInjectReference();
 
   // Handle streaming delta during graph creation
   const handleStreamDelta = (chunk: string) => {
@@ -144,9 +154,11 @@ export default function WorkspaceClient() {
     }
   }, [graphsQuery.data, graphsQuery.isLoading]);
 
-  // Reset manual selection flag when graph changes
+  // Reset manual selection flag and picked context when graph changes
   useEffect(() => {
     setManuallySelectedBranch(false);
+    contextSelection.clearPicks();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [selectedGraphId]);
 
   // Prefetch first branch's linear data when graph details load
@@ -183,6 +195,17 @@ export default function WorkspaceClient() {
     manuallySelectedBranch,
   ]);
 
+  // Apply a cross-graph branch selection once the graph detail has loaded
+  useEffect(() => {
+    if (!pendingBranchSelection) return;
+    const branches = graphDetailQuery.data?.branches;
+    if (!branches?.some((b) => b.id === pendingBranchSelection)) return;
+
+    setManuallySelectedBranch(true);
+    setSelectedBranchId(pendingBranchSelection);
+    setPendingBranchSelection(null);
+  }, [graphDetailQuery.data?.branches, pendingBranchSelection]);
+
   // Trigger generate stream after new session UI is rendered
   useEffect(() => {
     if (!pendingGenerate) return;
@@ -289,6 +312,18 @@ export default function WorkspaceClient() {
     // Mark as manually selected to prevent auto-switch after sending
     setManuallySelectedBranch(true);
 
+    const { picks } = contextSelection;
+    if (picks.length > 0) {
+      contextSelection.clearPicks();
+      await chat.sendMessage(
+        text,
+        expectedVersion,
+        undefined,
+        picks.map((p) => p.nodeId)
+      );
+      return;
+    }
+
     await chat.sendMessage(text, expectedVersion);
   };
 
@@ -433,6 +468,48 @@ export default function WorkspaceClient() {
     }
   };
 
+  // Attach an existing block to the current branch tip as a reference
+  const handleAttachReference = async (blockId: string) => {
+    if (!selectedBranchId || !selectedGraphId) return;
+    await injectReference({
+      graphId: selectedGraphId,
+      branchId: selectedBranchId,
+      blockId,
+      reuseExistingNode: true,
+    });
+  };
+
+  // Jump to a branch, possibly in another graph (e.g. from backlinks)
+  const handleNavigateToBranch = (graphId: string, branchId: string) => {
+    if (graphId === selectedGraphId) {
+      setManuallySelectedBranch(true);
+      setSelectedBranchId(branchId);
+      return;
+    }
+    setSelectedGraphId(graphId);
+    setPendingBranchSelection(branchId);
+  };
+
+  // Fall back to the first remaining branch if the selected one was deleted
+  const handleBranchDeleted = (branchId: string) => {
+    if (branchId === selectedBranchId) {
+      setManuallySelectedBranch(false);
+      setSelectedBranchId(null);
+    }
+  };
+
+  // Regenerate the assistant reply after the tip message was edited
+  const handleRegenerate = (version: number) => {
+    if (!selectedBranchId || !selectedGraphId) return;
+    setIsCreationStreaming(true);
+    setCreationStreamingAssistant("");
+    setPendingGenerate({
+      graphId: selectedGraphId,
+      branchId: selectedBranchId,
+      version,
+    });
+  };
+
   return (
     <div className="relative flex h-[calc(100vh-4rem)] w-full overflow-hidden">
       {/* Left Sidebar */}
@@ -480,19 +557,35 @@ export default function WorkspaceClient() {
             branchComposer={branchComposer}
             setBranchComposer={setBranchComposer}
             onSubmitBranch={handleSubmitBranch}
+            onAttachReference={handleAttachReference}
+            onRegenerate={handleRegenerate}
+            onNavigateToBranch={handleNavigateToBranch}
+            contextPicks={contextSelection.picks}
+            isPickingContext={contextSelection.isPicking}
+            onTogglePickingContext={contextSelection.togglePicking}
+            onTogglePick={contextSelection.togglePick}
+            onClearPicks={contextSelection.clearPicks}
           />
         </div>
       </main>
 
       {/* Right Branch Tree Sidebar */}
       <BranchTreeSidebar
+        graphId={selectedGraphId}
         branches={graphDetailQuery.data?.branches ?? []}
         activeBranchId={selectedBranchId}
         isOpen={branchTreeOpen}
         onToggle={() => setBranchTreeOpen((prev) => !prev)}
         onSelectBranch={setSelectedBranchId}
+        onBranchDeleted={handleBranchDeleted}
+        onNavigateToBranch={handleNavigateToBranch}
         width={branchTreeWidth}
         onWidthChange={setBranchTreeWidth}
+        contextPicks={contextSelection.picks}
+        isPickingContext={contextSelection.isPicking}
+        onTogglePick={contextSelection.togglePick}
+        onRemovePick={contextSelection.removePick}
+        onClearPicks={contextSelection.clearPicks}
       />
     </div>
   );
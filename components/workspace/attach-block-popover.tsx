@@ -0,0 +1,88 @@
+"use client";
+
+import { useState } from "react";
+
+import { Loader2, Paperclip } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+
+interface AttachBlockPopoverProps {
+  onAttach: (blockId: string) => Promise<unknown>;
+}
+
+/**
+ * Small form for attaching an existing block (by id) to the branch tip as a
+ * reference. Block ids can be copied from any message via its header.
+ */
+export function AttachBlockPopover({ onAttach }: AttachBlockPopoverProps) {
+  const [open, setOpen] = useState(false);
+  const [blockId, setBlockId] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = blockId.trim();
+    if (!trimmed || isSubmitting) return;
+
+    setIsSubmitting(true);
+    try {
+      await onAttach(trimmed);
+      setBlockId("");
+      setOpen(false);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="opacity-60 group-hover/message:opacity-100 transition-opacity h-7 px-2 text-xs"
+          title="Attach an existing block as a reference"
+        >
+          <Paperclip className="mr-1.5 h-3.5 w-3.5" />
+          <span className="font-medium">Attach block</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80">
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="space-y-1">
+            <p className="text-sm font-medium">Attach block</p>
+            <p className="text-xs text-muted-foreground">
+              Paste the id of a block from any of your conversations or a public
+              block.
+            </p>
+          </div>
+          <Input
+            value={blockId}
+            onChange={(e) => setBlockId(e.target.value)}
+            placeholder="Block id"
+            autoFocus
+            disabled={isSubmitting}
+          />
+          <div className="flex justify-end">
+            <Button
+              type="submit"
+              size="sm"
+              disabled={!blockId.trim() || isSubmitting}
+            >
+              {isSubmitting && (
+                <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
+              )}
+              Attach
+            </Button>
+          </div>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import { useState } from "react";
+
+import { useQuery } from "@tanstack/react-query";
+import { GitBranch, Link2 } from "lucide-react";
+import { z } from "zod";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { NodeBacklinksResponse } from "@/lib/api/schemas/responses";
+import { QUERY_KEYS } from "@/lib/constants/query-keys";
+
+type NodeBacklinks = z.infer<typeof NodeBacklinksResponse>;
+
+interface BacklinksPopoverProps {
+  nodeId: string;
+  onNavigate: (graphId: string, branchId: string) => void;
+}
+
+/** Shows where the block behind a message also appears across sessions. */
+export function BacklinksPopover({
+  nodeId,
+  onNavigate,
+}: BacklinksPopoverProps) {
+  const [open, setOpen] = useState(false);
+
+  const backlinksQuery = useQuery({
+    queryKey: QUERY_KEYS.nodeBacklinks(nodeId),
+    queryFn: async () => {
+      const res = await fetch(`/api/v1/nodes/${nodeId}/backlinks`);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      return (await res.json()) as NodeBacklinks;
+    },
+    enabled: open,
+  });
+
+  const items = backlinksQuery.data?.items ?? [];
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="opacity-0 group-hover/message:opacity-60 hover:!opacity-100 data-[state=open]:opacity-100 transition-opacity h-7 w-7 p-0"
+          title="Where this block is used"
+        >
+          <Link2 className="h-3.5 w-3.5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b bg-muted/50">
+          <span className="font-semibold text-sm">Backlinks</span>
+          <Badge variant="secondary" className="text-xs">
+            {items.length}
+          </Badge>
+        </div>
+        <div className="max-h-72 overflow-y-auto p-2 space-y-2">
+          {backlinksQuery.isLoading ? (
+            <div className="flex items-center gap-2 text-muted-foreground p-2">
+              <div className="h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent" />
+              <span className="text-sm">Loading backlinks...</span>
+            </div>
+          ) : items.length === 0 ? (
+            <p className="p-2 text-sm text-muted-foreground">
+              This block is not used anywhere else.
+            </p>
+          ) : (
+            items.map((item) => (
+              <div
+                key={`${item.relation}-${item.nodeId}`}
+                className="rounded-lg border bg-card p-3 space-y-2"
+              >
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium truncate">
+                    {item.graph.title || "Untitled Session"}
+                  </span>
+                  <Badge variant="outline" className="ml-auto text-xs">
+                    {item.relation === "references"
+                      ? "📎 Referenced"
+                      : "Reused"}
+                  </Badge>
+                </div>
+                {item.branches.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">
+                    Not on any branch
+                  </p>
+                ) : (
+                  <div className="flex flex-wrap gap-1.5">
+                    {item.branches.map((branch) => (
+                      <Button
+                        key={branch.id}
+                        variant="outline"
+                        size="sm"
+                        className="h-6 px-2 text-xs"
+                        onClick={() => {
+                          onNavigate(item.graph.id, branch.id);
+                          setOpen(false);
+                        }}
+                      >
+                        <GitBranch className="mr-1 h-3 w-3" />
+                        <span className="truncate max-w-[140px]">
+                          {branch.name}
+                        </span>
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,259 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { useQuery } from "@tanstack/react-query";
+import { Library, Paperclip, Star } from "lucide-react";
+import { z } from "zod";
+
+import { MarkdownContent } from "@/components/markdown-content";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { BlocksListResponse } from "@/lib/api/schemas/responses";
+import { QUERY_KEYS } from "@/lib/constants/query-keys";
+import { useBlockMutations } from "@/lib/hooks/use-block-mutations";
+import { stripMarkdown } from "@/lib/utils/strip-markdown";
+
+type BlocksList = z.infer<typeof BlocksListResponse>;
+type LibraryView = "starred" | "mine" | "public";
+
+const viewParams: Record<LibraryView, string> = {
+  starred: "starred=true&public=false",
+  mine: "public=false",
+  public: "public=true",
+};
+
+const viewLabels: Record<LibraryView, string> = {
+  starred: "Starred",
+  mine: "My blocks",
+  public: "Public",
+};
+
+function getText(content: unknown): string {
+  if (content && typeof content === "object" && "text" in content) {
+    return String(content.text);
+  }
+  return "";
+}
+
+interface BlockLibraryDialogProps {
+  onAttach?: (blockId: string) => Promise<unknown>;
+}
+
+export function BlockLibraryDialog({ onAttach }: BlockLibraryDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [view, setView] = useState<LibraryView>("starred");
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const [draftPublic, setDraftPublic] = useState(false);
+  const { ensureBlock, setStar, isSaving } = useBlockMutations();
+
+  // Debounce search input to avoid a request per keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const blocksQuery = useQuery({
+    queryKey: QUERY_KEYS.blocksList(view, debouncedSearch),
+    queryFn: async () => {
+      const params = new URLSearchParams(viewParams[view]);
+      params.set("limit", "50");
+      if (debouncedSearch) params.set("q", debouncedSearch);
+      const res = await fetch(`/api/v1/blocks?${params.toString()}`);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      return (await res.json()) as BlocksList;
+    },
+    enabled: open,
+  });
+
+  const items = blocksQuery.data?.items ?? [];
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = draft.trim();
+    if (!text) return;
+    ensureBlock({
+      text,
+      isPublic: draftPublic,
+      onSuccess: () => {
+        setDraft("");
+        setDraftPublic(false);
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs text-muted-foreground"
+          title="Block library"
+        >
+          <Library className="mr-1.5 h-3.5 w-3.5" />
+          Library
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Block Library</DialogTitle>
+          <DialogDescription>
+            Save reusable blocks and attach them to the current branch.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* New block */}
+        <form onSubmit={handleSave} className="space-y-2">
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="Write a block to keep in your library..."
+            className="min-h-[72px] resize-y"
+            disabled={isSaving}
+          />
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="library-block-public"
+                checked={draftPublic}
+                onCheckedChange={(checked) => setDraftPublic(checked === true)}
+              />
+              <Label
+                htmlFor="library-block-public"
+                className="text-xs text-muted-foreground"
+              >
+                Share publicly
+              </Label>
+            </div>
+            <Button
+              type="submit"
+              size="sm"
+              disabled={!draft.trim() || isSaving}
+            >
+              {isSaving ? "Saving..." : "Save to library"}
+            </Button>
+          </div>
+        </form>
+
+        {/* Filters */}
+        <div className="flex items-center gap-2 border-t pt-4">
+          {(Object.keys(viewLabels) as LibraryView[]).map((v) => (
+            <Button
+              key={v}
+              variant={view === v ? "secondary" : "ghost"}
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => setView(v)}
+            >
+              {viewLabels[v]}
+            </Button>
+          ))}
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search..."
+            className="ml-auto h-8 max-w-[200px] text-xs"
+          />
+        </div>
+
+        {/* Results */}
+        <div className="max-h-[360px] overflow-y-auto space-y-2 pr-1">
+          {blocksQuery.isLoading ? (
+            <div className="flex items-center gap-2 text-muted-foreground py-4">
+              <div className="h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent" />
+              <span className="text-sm">Loading blocks...</span>
+            </div>
+          ) : items.length === 0 ? (
+            <p className="py-4 text-sm text-muted-foreground">
+              No blocks found.
+            </p>
+          ) : (
+            items.map((block) => {
+              const text = getText(block.content);
+              const isExpanded = expandedId === block.id;
+              return (
+                <div
+                  key={block.id}
+                  className="rounded-lg border bg-card p-3 space-y-2"
+                >
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="text-xs">
+                      {block.kind === "user" ? "👤 User" : "🤖 Assistant"}
+                    </Badge>
+                    {block.public && (
+                      <Badge variant="secondary" className="text-xs">
+                        📚 Public
+                      </Badge>
+                    )}
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(block.createdAt).toLocaleDateString()}
+                    </span>
+                    <div className="ml-auto flex items-center gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 w-7 p-0"
+                        title={block.starred ? "Unstar" : "Star"}
+                        onClick={() => setStar(block.id, !block.starred)}
+                      >
+                        <Star
+                          className={`h-3.5 w-3.5 ${
+                            block.starred
+                              ? "fill-amber-400 text-amber-500"
+                              : "text-muted-foreground"
+                          }`}
+                        />
+                      </Button>
+                      {onAttach && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7 px-2 text-xs"
+                          onClick={() => void onAttach(block.id)}
+                        >
+                          <Paperclip className="mr-1 h-3 w-3" />
+                          Attach
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    className="block w-full text-left"
+                    onClick={() => setExpandedId(isExpanded ? null : block.id)}
+                  >
+                    {isExpanded ? (
+                      <div className="text-sm">
+                        <MarkdownContent content={text} />
+                      </div>
+                    ) : (
+                      <p className="text-sm line-clamp-2 text-foreground/90">
+                        {stripMarkdown(text)}
+                      </p>
+                    )}
+                  </button>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,195 @@
+"use client";
+
+import { useState } from "react";
+
+import { Bookmark } from "lucide-react";
+import { z } from "zod";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  type BookmarkColor,
+  BookmarkColorSchema,
+} from "@/lib/api/schemas/enums";
+import { BookmarkItemSchema } from "@/lib/api/schemas/responses";
+import { useBookmarkMutations } from "@/lib/hooks/use-bookmark-mutations";
+import { cn } from "@/lib/utils";
+import { stripMarkdown } from "@/lib/utils/strip-markdown";
+
+type BookmarkItem = z.infer<typeof BookmarkItemSchema>;
+
+// Marker color per palette entry; bookmarks without a color use the first
+export const bookmarkColorClasses: Record<BookmarkColor, string> = {
+  gray: "bg-muted-foreground",
+  red: "bg-red-500",
+  amber: "bg-amber-500",
+  green: "bg-emerald-500",
+  blue: "bg-blue-500",
+  purple: "bg-purple-500",
+};
+
+export function bookmarkDotClass(color: BookmarkColor | null): string {
+  return bookmarkColorClasses[color ?? "gray"];
+}
+
+interface BookmarkPopoverProps {
+  graphId: string;
+  nodeId: string;
+  bookmark?: BookmarkItem;
+  // Text of the message; its start prefills the label of new bookmarks
+  messageText: string;
+}
+
+/** Add, edit or remove the bookmark on a single message. */
+export function BookmarkPopover({
+  graphId,
+  nodeId,
+  bookmark,
+  messageText,
+}: BookmarkPopoverProps) {
+  const [open, setOpen] = useState(false);
+  const [label, setLabel] = useState("");
+  const [color, setColor] = useState<BookmarkColor | null>(null);
+  const [note, setNote] = useState("");
+  const {
+    createBookmark,
+    updateBookmark,
+    deleteBookmark,
+    isSavingBookmark,
+    isDeletingBookmark,
+  } = useBookmarkMutations();
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setLabel(
+        bookmark?.label ??
+          stripMarkdown(messageText).replace(/\s+/g, " ").trim().slice(0, 80)
+      );
+      setColor(bookmark?.color ?? null);
+      setNote(bookmark?.note ?? "");
+    }
+    setOpen(next);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = label.trim();
+    if (!trimmed || isSavingBookmark) return;
+
+    const fields = { label: trimmed, color, note: note.trim() || null };
+    if (bookmark) {
+      updateBookmark({
+        graphId,
+        bookmarkId: bookmark.id,
+        ...fields,
+        onSuccess: () => setOpen(false),
+      });
+    } else {
+      createBookmark({
+        graphId,
+        nodeId,
+        ...fields,
+        onSuccess: () => setOpen(false),
+      });
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn(
+            "transition-opacity h-7 w-7 p-0",
+            bookmark
+              ? "opacity-100"
+              : "opacity-0 group-hover/message:opacity-60 hover:!opacity-100"
+          )}
+          title={bookmark ? `Bookmark: ${bookmark.label}` : "Bookmark message"}
+        >
+          <Bookmark
+            className={cn(
+              "h-3.5 w-3.5",
+              bookmark && "fill-current text-amber-600 dark:text-amber-400"
+            )}
+          />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80">
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <p className="text-sm font-medium">
+            {bookmark ? "Edit bookmark" : "Bookmark message"}
+          </p>
+          <Input
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Label"
+            maxLength={80}
+            autoFocus
+          />
+          <div className="flex items-center gap-2">
+            {BookmarkColorSchema.options.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setColor(option)}
+                className={cn(
+                  "h-5 w-5 rounded-full border-2 transition-transform hover:scale-110",
+                  bookmarkColorClasses[option],
+                  (color ?? "gray") === option
+                    ? "border-foreground"
+                    : "border-transparent"
+                )}
+                title={option}
+                aria-label={`Color ${option}`}
+              />
+            ))}
+          </div>
+          <Textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note (optional)"
+            maxLength={2000}
+            className="min-h-[60px] resize-y text-sm"
+          />
+          <div className="flex items-center justify-between gap-2">
+            {bookmark ? (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="text-destructive hover:text-destructive"
+                disabled={isDeletingBookmark}
+                onClick={() =>
+                  deleteBookmark({
+                    graphId,
+                    bookmarkId: bookmark.id,
+                    onSuccess: () => setOpen(false),
+                  })
+                }
+              >
+                Remove
+              </Button>
+            ) : (
+              <span />
+            )}
+            <Button
+              type="submit"
+              size="sm"
+              disabled={!label.trim() || isSavingBookmark}
+            >
+              Save
+            </Button>
+          </div>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,277 @@
+"use client";
+
+import { useState } from "react";
+
+import { useQuery } from "@tanstack/react-query";
+import { Columns2, GitBranch } from "lucide-react";
+import { z } from "zod";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { BranchDiffResponse } from "@/lib/api/schemas/responses";
+import { QUERY_KEYS } from "@/lib/constants/query-keys";
+import { type Branch, getBranchDisplayName } from "@/lib/utils/branch-tree";
+import { stripMarkdown } from "@/lib/utils/strip-markdown";
+import { type DiffSegment, diffWords } from "@/lib/utils/text-diff";
+
+type BranchDiff = z.infer<typeof BranchDiffResponse>;
+type DiffItem = BranchDiff["left"]["items"][number];
+
+function getText(item: DiffItem): string {
+  const content = item.block.content;
+  if (content && typeof content === "object" && "text" in content) {
+    return String(content.text);
+  }
+  return "";
+}
+
+/**
+ * Pair up the two divergent timelines row by row. Messages of the same kind
+ * share a row; when kinds differ the assistant message gets a row of its own
+ * so user prompts stay lined up.
+ */
+function alignTimelines(left: DiffItem[], right: DiffItem[]) {
+  const rows: Array<{ left?: DiffItem; right?: DiffItem }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < left.length || j < right.length) {
+    const l = left[i];
+    const r = right[j];
+    if (l && r && l.block.kind === r.block.kind) {
+      rows.push({ left: l, right: r });
+      i++;
+      j++;
+    } else if (l && (!r || l.block.kind === "assistant")) {
+      rows.push({ left: l });
+      i++;
+    } else {
+      rows.push({ right: r });
+      j++;
+    }
+  }
+  return rows;
+}
+
+function DiffText({
+  segments,
+  side,
+}: {
+  segments: DiffSegment[];
+  side: "left" | "right";
+}) {
+  return (
+    <p className="text-sm whitespace-pre-wrap">
+      {segments.map((s, i) => {
+        if (s.type === "equal") return <span key={i}>{s.text}</span>;
+        if (side === "left" && s.type === "removed") {
+          return (
+            <span
+              key={i}
+              className="bg-red-500/15 text-red-700 dark:text-red-300 line-through decoration-red-500/40"
+            >
+              {s.text}
+            </span>
+          );
+        }
+        if (side === "right" && s.type === "added") {
+          return (
+            <span
+              key={i}
+              className="bg-emerald-500/15 text-emerald-700 dark:text-emerald-300"
+            >
+              {s.text}
+            </span>
+          );
+        }
+        return null;
+      })}
+    </p>
+  );
+}
+
+function DiffCell({
+  item,
+  segments,
+  side,
+}: {
+  item?: DiffItem;
+  segments?: DiffSegment[];
+  side: "left" | "right";
+}) {
+  if (!item) {
+    return <div className="rounded-lg border border-dashed opacity-40" />;
+  }
+  return (
+    <div className="rounded-lg border bg-card p-3 space-y-1.5 min-w-0">
+      <Badge variant="outline" className="text-xs">
+        {item.block.kind === "user" ? "👤 User" : "🤖 Assistant"}
+      </Badge>
+      {segments ? (
+        <DiffText segments={segments} side={side} />
+      ) : (
+        <p className="text-sm whitespace-pre-wrap">
+          {stripMarkdown(getText(item))}
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface BranchDiffDialogProps {
+  branches: Branch[];
+  currentBranchId: string;
+}
+
+export function BranchDiffDialog({
+  branches,
+  currentBranchId,
+}: BranchDiffDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [otherBranchId, setOtherBranchId] = useState<string | null>(null);
+  const candidates = branches.filter((b) => b.id !== currentBranchId);
+
+  const diffQuery = useQuery({
+    queryKey: QUERY_KEYS.branchDiff(currentBranchId, otherBranchId ?? ""),
+    queryFn: async () => {
+      const res = await fetch(
+        `/api/v1/branches/${currentBranchId}/diff/${otherBranchId}?context=3`
+      );
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      return (await res.json()) as BranchDiff;
+    },
+    enabled: open && otherBranchId !== null,
+  });
+
+  const diff = diffQuery.data;
+  const rows = diff ? alignTimelines(diff.left.items, diff.right.items) : [];
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs text-muted-foreground"
+          title="Compare with another branch"
+          disabled={candidates.length === 0}
+        >
+          <Columns2 className="mr-1.5 h-3.5 w-3.5" />
+          Compare
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-6xl">
+        <DialogHeader>
+          <DialogTitle>Compare Branches</DialogTitle>
+          <DialogDescription>
+            Messages since the two branches diverged, side by side.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Branch picker */}
+        <div className="flex flex-wrap items-center gap-1.5">
+          {candidates.map((b) => (
+            <Button
+              key={b.id}
+              variant={otherBranchId === b.id ? "secondary" : "ghost"}
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => setOtherBranchId(b.id)}
+            >
+              <GitBranch className="mr-1 h-3 w-3" />
+              {getBranchDisplayName(b)}
+            </Button>
+          ))}
+        </div>
+
+        <div className="max-h-[65vh] overflow-y-auto space-y-3 pr-1">
+          {otherBranchId === null ? (
+            <p className="py-4 text-sm text-muted-foreground">
+              Pick a branch to compare with.
+            </p>
+          ) : diffQuery.isLoading ? (
+            <div className="flex items-center gap-2 text-muted-foreground py-4">
+              <div className="h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent" />
+              <span className="text-sm">Comparing...</span>
+            </div>
+          ) : diffQuery.isError || !diff ? (
+            <p className="py-4 text-sm text-destructive">
+              Failed to load the comparison.
+            </p>
+          ) : (
+            <>
+              {/* Shared prefix */}
+              {diff.shared.total > 0 && (
+                <div className="rounded-lg bg-muted/40 p-3 space-y-1">
+                  <p className="text-xs font-medium text-muted-foreground">
+                    {diff.shared.total} shared{" "}
+                    {diff.shared.total === 1 ? "message" : "messages"}
+                    {diff.shared.total > diff.shared.items.length &&
+                      ` (last ${diff.shared.items.length} shown)`}
+                  </p>
+                  {diff.shared.items.map((item) => (
+                    <p
+                      key={item.nodeId}
+                      className="text-xs text-muted-foreground line-clamp-1"
+                    >
+                      {item.block.kind === "user" ? "👤" : "🤖"}{" "}
+                      {stripMarkdown(getText(item))}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              {/* Divergent timelines */}
+              <div className="grid grid-cols-2 gap-3 sticky top-0 bg-background py-1 z-10">
+                <p className="text-sm font-semibold truncate">
+                  {getBranchDisplayName(diff.left.branch)}
+                </p>
+                <p className="text-sm font-semibold truncate">
+                  {getBranchDisplayName(diff.right.branch)}
+                </p>
+              </div>
+              {rows.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Both branches point at the same history.
+                </p>
+              ) : (
+                rows.map((row, i) => {
+                  const paired =
+                    row.left?.block.kind === "assistant" &&
+                    row.right?.block.kind === "assistant";
+                  const segments = paired
+                    ? diffWords(
+                        stripMarkdown(getText(row.left!)),
+                        stripMarkdown(getText(row.right!))
+                      )
+                    : undefined;
+                  return (
+                    <div key={i} className="grid grid-cols-2 gap-3">
+                      <DiffCell
+                        item={row.left}
+                        segments={segments}
+                        side="left"
+                      />
+                      <DiffCell
+                        item={row.right}
+                        segments={segments}
+                        side="right"
+                      />
+                    </div>
+                  );
+                })
+              )}
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -12,6 +12,7 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
+import type { BlockKind } from "@/lib/api/schemas/enums";
 import { GraphDetailResponse } from "@/lib/api/schemas/responses";
 import { useBranchPreview } from "@/lib/hooks/use-branch-preview";
 import { stripMarkdown } from "@/lib/utils/strip-markdown";
@@ -39,7 +40,8 @@ function truncateText(text: string, maxLength: number): string {
 }
 
 // Helper to get author icon
-function getAuthorIcon(kind: "user" | "assistant"): string {
+function getAuthorIcon(kind: BlockKind): string {
+  if (kind === "summary") return "📝";
   return kind === "user" ? "👤" : "🤖";
 }
 
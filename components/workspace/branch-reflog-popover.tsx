@@ -0,0 +1,127 @@
+"use client";
+
+import { useState } from "react";
+
+import { useQuery } from "@tanstack/react-query";
+import { History } from "lucide-react";
+import { z } from "zod";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import type { OperationKind } from "@/lib/api/schemas/enums";
+import { BranchReflogResponse } from "@/lib/api/schemas/responses";
+import { QUERY_KEYS } from "@/lib/constants/query-keys";
+import { stripMarkdown } from "@/lib/utils/strip-markdown";
+
+type BranchReflog = z.infer<typeof BranchReflogResponse>;
+
+const kindLabels: Record<OperationKind, string> = {
+  append: "Message added",
+  send: "Message sent",
+  generate: "Response generated",
+  jump: "Rewound",
+  replace_tip: "Message edited",
+  merge: "Branch merged",
+  cherry_pick: "Messages copied",
+  rebase: "Rebased",
+};
+
+interface BranchReflogPopoverProps {
+  branchId: string;
+}
+
+export function BranchReflogPopover({ branchId }: BranchReflogPopoverProps) {
+  const [open, setOpen] = useState(false);
+
+  const reflogQuery = useQuery({
+    queryKey: QUERY_KEYS.branchReflog(branchId),
+    queryFn: async () => {
+      const res = await fetch(`/api/v1/branches/${branchId}/reflog?limit=50`);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      return (await res.json()) as BranchReflog;
+    },
+    enabled: open,
+  });
+
+  const items = reflogQuery.data?.items ?? [];
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs text-muted-foreground"
+          title="Branch history"
+        >
+          <History className="mr-1.5 h-3.5 w-3.5" />
+          History
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b bg-muted/50">
+          <span className="font-semibold text-sm">Branch history</span>
+          <Badge variant="secondary" className="text-xs">
+            {items.length}
+          </Badge>
+        </div>
+        <div className="max-h-80 overflow-y-auto">
+          {reflogQuery.isLoading ? (
+            <div className="flex items-center gap-2 text-muted-foreground p-4">
+              <div className="h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent" />
+              <span className="text-sm">Loading history...</span>
+            </div>
+          ) : items.length === 0 ? (
+            <p className="p-4 text-sm text-muted-foreground">
+              No changes recorded on this branch yet.
+            </p>
+          ) : (
+            <div className="p-2 space-y-2">
+              {items.map((op) => (
+                <div
+                  key={op.id}
+                  className={`rounded-lg border bg-card p-3 space-y-1 ${
+                    op.undoneAt ? "opacity-60" : ""
+                  }`}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">
+                      {kindLabels[op.kind]}
+                    </span>
+                    {op.forked && (
+                      <Badge variant="outline" className="text-xs">
+                        Fork
+                      </Badge>
+                    )}
+                    {op.undoneAt && (
+                      <Badge variant="secondary" className="text-xs">
+                        Undone
+                      </Badge>
+                    )}
+                    <span className="ml-auto text-xs text-muted-foreground">
+                      {new Date(op.createdAt).toLocaleString()}
+                    </span>
+                  </div>
+                  {op.afterTipExcerpt && (
+                    <p
+                      className={`text-xs text-muted-foreground line-clamp-2 ${
+                        op.undoneAt ? "line-through" : ""
+                      }`}
+                    >
+                      {stripMarkdown(op.afterTipExcerpt)}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -12,9 +12,16 @@ import {
 } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
-import { GraphDetailResponse } from "@/lib/api/schemas/responses";
+import {
+  BookmarkItemSchema,
+  GraphDetailResponse,
+} from "@/lib/api/schemas/responses";
+import { getForkCheckpoints } from "@/lib/utils/branch-tree";
+
+import { bookmarkDotClass } from "./bookmark-popover";
 
 type Branch = z.infer<typeof GraphDetailResponse>["branches"][number];
+type BookmarkItem = z.infer<typeof BookmarkItemSchema>;
 
 export interface Checkpoint {
   nodeId: string;
@@ -24,17 +31,49 @@ export interface Checkpoint {
 }
 
 interface BranchTimelineProps {
-  checkpoints: Checkpoint[];
+  branches: Branch[];
+  timeline: { nodeId: string; excerpt: string }[];
   currentBranchId: string | null;
   onSelectBranch: (branchId: string) => void;
+  bookmarks?: BookmarkItem[];
+  onSelectBookmark?: (bookmark: BookmarkItem) => void;
+}
+
+function BookmarkBadge({ bookmark }: { bookmark?: BookmarkItem }) {
+  if (!bookmark) return null;
+  return (
+    <Badge variant="outline" className="text-[10px] px-1.5 py-0 h-4 gap-1">
+      <span
+        className={`h-1.5 w-1.5 rounded-full ${bookmarkDotClass(bookmark.color)}`}
+      />
+      {bookmark.label}
+    </Badge>
+  );
 }
 
 export function BranchTimeline({
-  checkpoints,
+  branches,
+  timeline,
   currentBranchId,
   onSelectBranch,
+  bookmarks = [],
+  onSelectBookmark,
 }: BranchTimelineProps) {
-  if (checkpoints.length === 0) {
+  // Fork points come from the lineage recorded on each branch
+  const checkpoints: Checkpoint[] = getForkCheckpoints(
+    branches,
+    timeline,
+    currentBranchId
+  );
+
+  // Bookmarks on this path, in timeline order
+  const bookmarkByNode = new Map(bookmarks.map((b) => [b.nodeId, b]));
+  const pathBookmarks = timeline.flatMap((item) => {
+    const bookmark = bookmarkByNode.get(item.nodeId);
+    return bookmark ? [bookmark] : [];
+  });
+
+  if (checkpoints.length === 0 && pathBookmarks.length === 0) {
     return null;
   }
 
@@ -58,6 +97,28 @@ export function BranchTimeline({
       <CardContent className="flex-1 p-0">
         <ScrollArea className="h-full">
           <div className="p-4 space-y-3">
+            {/* Bookmark Markers */}
+            {pathBookmarks.length > 0 && (
+              <div className="space-y-1 pb-1">
+                {pathBookmarks.map((bookmark) => (
+                  <button
+                    key={bookmark.id}
+                    onClick={() => onSelectBookmark?.(bookmark)}
+                    className="w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-left hover:bg-accent transition-colors"
+                    title={bookmark.note ?? bookmark.excerpt}
+                  >
+                    <span
+                      className={`h-2.5 w-2.5 rounded-full flex-shrink-0 ${bookmarkDotClass(bookmark.color)}`}
+                    />
+                    <span className="text-xs font-medium truncate">
+                      {bookmark.label}
+                    </span>
+                  </button>
+                ))}
+                <Separator className="mt-2" />
+              </div>
+            )}
+
             {checkpoints.map((checkpoint, index) => (
               <div
                 key={checkpoint.nodeId}
@@ -91,7 +152,10 @@ export function BranchTimeline({
                   {/* Card Content */}
                   <CardContent className="pl-6 pr-4 py-3">
                     {/* Message Excerpt */}
-                    <div className="mb-2">
+                    <div className="mb-2 space-y-1">
+                      <BookmarkBadge
+                        bookmark={bookmarkByNode.get(checkpoint.nodeId)}
+                      />
                       <p className="text-xs text-muted-foreground line-clamp-2 italic leading-relaxed">
                         &ldquo;{checkpoint.messageExcerpt}&rdquo;
                       </p>
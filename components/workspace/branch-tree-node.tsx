@@ -2,36 +2,83 @@
 
 import { useEffect, useState } from "react";
 
-import { Check, GitBranch } from "lucide-react";
+import { Check, FolderOutput, GitBranch, Pencil, Trash2 } from "lucide-react";
 
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import {
   Popover,
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { useBranchPreview } from "@/lib/hooks/use-branch-preview";
+import { useGraphMutations } from "@/lib/hooks/use-graph-mutations";
 import { cn } from "@/lib/utils";
 import type { BranchNode } from "@/lib/utils/branch-tree";
 import { getBranchDisplayName } from "@/lib/utils/branch-tree";
 import { stripMarkdown } from "@/lib/utils/strip-markdown";
 
+import { DeleteBranchDialog } from "./delete-branch-dialog";
+
 interface BranchTreeNodeProps {
   node: BranchNode;
+  graphId: string | null;
   onSelect: (branchId: string) => void;
+  onDeleted?: (branchId: string) => void;
+  onExtracted?: (graphId: string, branchId: string) => void;
+  canDelete?: boolean;
   isLast?: boolean;
 }
 
 export function BranchTreeNode({
   node,
+  graphId,
   onSelect,
+  onDeleted,
+  onExtracted,
+  canDelete = false,
   isLast = false,
 }: BranchTreeNodeProps) {
   const displayName = getBranchDisplayName(node.branch);
   const hasChildren = node.children.length > 0;
   const [isHovered, setIsHovered] = useState(false);
   const [showPopover, setShowPopover] = useState(false);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftName, setDraftName] = useState("");
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const { renameBranch, deleteBranch, extractBranch, isDeletingBranch } =
+    useGraphMutations();
+
+  const startRename = () => {
+    setDraftName(node.branch.name);
+    setIsHovered(false);
+    setIsRenaming(true);
+  };
+
+  const submitRename = () => {
+    const name = draftName.trim();
+    setIsRenaming(false);
+    if (!graphId || !name || name === node.branch.name) return;
+    renameBranch({ graphId, branchId: node.branch.id, name });
+  };
+
+  const confirmDelete = () => {
+    if (!graphId) return;
+    deleteBranch({
+      graphId,
+      branchId: node.branch.id,
+      onSuccess: () => onDeleted?.(node.branch.id),
+    });
+  };
+
+  const handleExtract = () => {
+    setIsHovered(false);
+    extractBranch({
+      branchId: node.branch.id,
+      onSuccess: (data) => onExtracted?.(data.graph.id, data.branch.id),
+    });
+  };
 
   // Truncate long branch names
   const truncatedName =
@@ -112,133 +159,208 @@ export function BranchTreeNode({
         </>
       )}
 
-      {/* Branch node button with preview popover */}
-      <Popover open={showPopover} onOpenChange={setShowPopover}>
-        <PopoverTrigger asChild>
-          <Button
-            variant="ghost"
-            onClick={() => onSelect(node.branch.id)}
-            onMouseEnter={() => setIsHovered(true)}
-            onMouseLeave={() => setIsHovered(false)}
-            className={cn(
-              "justify-start gap-2 h-auto py-2 px-3 mb-1 transition-all duration-200",
-              "hover:bg-accent hover:shadow-sm",
-              node.isActive &&
-                "bg-primary/10 border border-primary hover:bg-primary/15",
-              !node.isActive && "border border-transparent"
-            )}
-            style={{
-              marginLeft: `${node.depth * 24}px`,
-              width: `calc(100% - ${node.depth * 24}px)`,
+      {/* Inline rename */}
+      {isRenaming ? (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            submitRename();
+          }}
+          className="mb-1"
+          style={{
+            marginLeft: `${node.depth * 24}px`,
+            width: `calc(100% - ${node.depth * 24}px)`,
+          }}
+        >
+          <Input
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            onBlur={submitRename}
+            onKeyDown={(e) => {
+              if (e.key === "Escape") setIsRenaming(false);
             }}
-          >
-            {/* Branch icon */}
-            <GitBranch
-              className={cn(
-                "h-4 w-4 flex-shrink-0",
-                node.isActive ? "text-primary" : "text-muted-foreground"
-              )}
-            />
-
-            {/* Branch name */}
-            <span
-              className={cn(
-                "text-sm truncate flex-1 text-left",
-                node.isActive ? "font-medium" : "font-normal"
-              )}
-            >
-              {truncatedName}
-            </span>
+            maxLength={120}
+            className="h-9 text-sm"
+            autoFocus
+          />
+        </form>
+      ) : (
+        <div className="group/branch relative">
+          {/* Branch node button with preview popover */}
+          <Popover open={showPopover} onOpenChange={setShowPopover}>
+            <PopoverTrigger asChild>
+              <Button
+                variant="ghost"
+                onClick={() => onSelect(node.branch.id)}
+                onMouseEnter={() => setIsHovered(true)}
+                onMouseLeave={() => setIsHovered(false)}
+                className={cn(
+                  "justify-start gap-2 h-auto py-2 px-3 mb-1 transition-all duration-200",
+                  "hover:bg-accent hover:shadow-sm",
+                  node.isActive &&
+                    "bg-primary/10 border border-primary hover:bg-primary/15",
+                  !node.isActive && "border border-transparent"
+                )}
+                style={{
+                  marginLeft: `${node.depth * 24}px`,
+                  width: `calc(100% - ${node.depth * 24}px)`,
+                }}
+              >
+                {/* Branch icon */}
+                <GitBranch
+                  className={cn(
+                    "h-4 w-4 flex-shrink-0",
+                    node.isActive ? "text-primary" : "text-muted-foreground"
+                  )}
+                />
 
-            {/* Active indicator */}
-            {node.isActive && (
-              <Check className="h-4 w-4 text-primary flex-shrink-0" />
-            )}
-          </Button>
-        </PopoverTrigger>
-        <PopoverContent
-          side="left"
-          align="start"
-          className="w-80 p-0"
-          sideOffset={8}
-          onMouseEnter={() => setIsHovered(true)}
-          onMouseLeave={() => setIsHovered(false)}
-        >
-          {/* Header */}
-          <div className="flex items-center justify-between px-4 py-3 border-b bg-muted/50">
-            <div className="flex items-center gap-2">
-              <GitBranch className="h-4 w-4 text-muted-foreground" />
-              <span className="font-semibold text-sm">{displayName}</span>
-            </div>
-            <Badge variant="secondary" className="text-xs">
-              Preview
-            </Badge>
-          </div>
+                {/* Branch name */}
+                <span
+                  className={cn(
+                    "text-sm truncate flex-1 text-left",
+                    node.isActive ? "font-medium" : "font-normal"
+                  )}
+                >
+                  {truncatedName}
+                </span>
 
-          {/* Content */}
-          <div className="p-4">
-            {isLoading ? (
-              <div className="flex items-center gap-2 text-muted-foreground py-4">
-                <div className="h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent" />
-                <span className="text-sm">Loading preview...</span>
+                {/* Active indicator */}
+                {node.isActive && (
+                  <Check className="h-4 w-4 text-primary flex-shrink-0" />
+                )}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent
+              side="left"
+              align="start"
+              className="w-80 p-0"
+              sideOffset={8}
+              onMouseEnter={() => setIsHovered(true)}
+              onMouseLeave={() => setIsHovered(false)}
+            >
+              {/* Header */}
+              <div className="flex items-center justify-between px-4 py-3 border-b bg-muted/50">
+                <div className="flex items-center gap-2">
+                  <GitBranch className="h-4 w-4 text-muted-foreground" />
+                  <span className="font-semibold text-sm">{displayName}</span>
+                </div>
+                <Badge variant="secondary" className="text-xs">
+                  Preview
+                </Badge>
               </div>
-            ) : preview && preview.items.length > 0 ? (
-              <div className="space-y-3">
-                <p className="text-xs text-muted-foreground mb-3">
-                  First {preview.items.length} message
-                  {preview.items.length > 1 ? "s" : ""} in this branch:
-                </p>
-                {preview.items.map((item) => {
-                  const isUser = item.block.kind === "user";
-                  return (
-                    <div
-                      key={item.nodeId}
-                      className="rounded-lg border bg-card p-3 space-y-1.5 hover:shadow-sm transition-shadow"
-                    >
-                      <div className="flex items-center gap-2">
-                        <Badge
-                          variant="outline"
-                          className={`text-xs font-medium ${
-                            isUser
-                              ? "bg-blue-50 dark:bg-blue-950 border-blue-200 dark:border-blue-800"
-                              : "bg-purple-50 dark:bg-purple-950 border-purple-200 dark:border-purple-800"
-                          }`}
+
+              {/* Content */}
+              <div className="p-4">
+                {isLoading ? (
+                  <div className="flex items-center gap-2 text-muted-foreground py-4">
+                    <div className="h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent" />
+                    <span className="text-sm">Loading preview...</span>
+                  </div>
+                ) : preview && preview.items.length > 0 ? (
+                  <div className="space-y-3">
+                    <p className="text-xs text-muted-foreground mb-3">
+                      First {preview.items.length} message
+                      {preview.items.length > 1 ? "s" : ""} in this branch:
+                    </p>
+                    {preview.items.map((item) => {
+                      const isUser = item.block.kind === "user";
+                      return (
+                        <div
+                          key={item.nodeId}
+                          className="rounded-lg border bg-card p-3 space-y-1.5 hover:shadow-sm transition-shadow"
                         >
-                          <span className="mr-1">
-                            {getAuthorIcon(item.block.kind)}
-                          </span>
-                          {isUser ? "You" : "Assistant"}
-                        </Badge>
-                      </div>
-                      <p className="text-sm text-foreground/90 leading-relaxed">
-                        {truncateText(getBlockText(item.block.content))}
-                      </p>
-                    </div>
-                  );
-                })}
+                          <div className="flex items-center gap-2">
+                            <Badge
+                              variant="outline"
+                              className={`text-xs font-medium ${
+                                isUser
+                                  ? "bg-blue-50 dark:bg-blue-950 border-blue-200 dark:border-blue-800"
+                                  : "bg-purple-50 dark:bg-purple-950 border-purple-200 dark:border-purple-800"
+                              }`}
+                            >
+                              <span className="mr-1">
+                                {getAuthorIcon(item.block.kind)}
+                              </span>
+                              {isUser ? "You" : "Assistant"}
+                            </Badge>
+                          </div>
+                          <p className="text-sm text-foreground/90 leading-relaxed">
+                            {truncateText(getBlockText(item.block.content))}
+                          </p>
+                        </div>
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground py-4">
+                    No messages in this branch yet
+                  </p>
+                )}
+
+                {/* Footer with switch button */}
+                <div className="mt-4 pt-3 border-t">
+                  <Button
+                    onClick={() => {
+                      onSelect(node.branch.id);
+                      setIsHovered(false);
+                    }}
+                    className="w-full"
+                    size="sm"
+                  >
+                    Switch to this branch
+                  </Button>
+                </div>
               </div>
-            ) : (
-              <p className="text-sm text-muted-foreground py-4">
-                No messages in this branch yet
-              </p>
-            )}
+            </PopoverContent>
+          </Popover>
 
-            {/* Footer with switch button */}
-            <div className="mt-4 pt-3 border-t">
+          {/* Rename / extract / delete actions */}
+          {graphId && (
+            <div className="absolute right-8 top-1.5 flex items-center gap-0.5 opacity-0 group-hover/branch:opacity-100 transition-opacity">
               <Button
-                onClick={() => {
-                  onSelect(node.branch.id);
-                  setIsHovered(false);
-                }}
-                className="w-full"
+                variant="ghost"
                 size="sm"
+                className="h-7 w-7 p-0"
+                title="Rename branch"
+                onClick={startRename}
               >
-                Switch to this branch
+                <Pencil className="h-3.5 w-3.5" />
               </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                title="Extract into a new session"
+                onClick={handleExtract}
+              >
+                <FolderOutput className="h-3.5 w-3.5" />
+              </Button>
+              {canDelete && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0 hover:text-destructive"
+                  title="Delete branch"
+                  onClick={() => {
+                    setIsHovered(false);
+                    setDeleteDialogOpen(true);
+                  }}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              )}
             </div>
-          </div>
-        </PopoverContent>
-      </Popover>
+          )}
+        </div>
+      )}
+
+      <DeleteBranchDialog
+        open={deleteDialogOpen}
+        onOpenChange={setDeleteDialogOpen}
+        branchName={displayName}
+        onConfirm={confirmDelete}
+        isDeleting={isDeletingBranch}
+      />
 
       {/* Render children recursively */}
       {hasChildren && (
@@ -257,7 +379,11 @@ export function BranchTreeNode({
             <BranchTreeNode
               key={child.branch.id}
               node={child}
+              graphId={graphId}
               onSelect={onSelect}
+              onDeleted={onDeleted}
+              onExtracted={onExtracted}
+              canDelete={canDelete}
               isLast={idx === node.children.length - 1}
             />
           ))}
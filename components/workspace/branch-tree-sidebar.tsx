@@ -2,7 +2,14 @@
 
 import { useEffect, useRef, useState } from "react";
 
-import { ChevronLeft, ChevronRight, GitBranch } from "lucide-react";
+import {
+  Bookmark,
+  ChevronLeft,
+  ChevronRight,
+  GitBranch,
+  ListChecks,
+  X,
+} from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import {
@@ -11,36 +18,59 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { bookmarkDotClass } from "@/components/workspace/bookmark-popover";
 import { BranchTreeNode } from "@/components/workspace/branch-tree-node";
+import type { ContextPick } from "@/lib/hooks/use-context-selection";
+import { useGraphBookmarks } from "@/lib/hooks/use-graph-bookmarks";
 import { cn } from "@/lib/utils";
 import type { Branch } from "@/lib/utils/branch-tree";
-import { buildBranchTree } from "@/lib/utils/branch-tree";
+import { buildBranchTree, pickBookmarkBranch } from "@/lib/utils/branch-tree";
 
 interface BranchTreeSidebarProps {
+  graphId: string | null;
   branches: Branch[];
   activeBranchId: string | null;
   isOpen: boolean;
   onToggle: () => void;
   onSelectBranch: (branchId: string) => void;
+  onBranchDeleted?: (branchId: string) => void;
+  onNavigateToBranch?: (graphId: string, branchId: string) => void;
   width: number;
   onWidthChange: (width: number) => void;
+  contextPicks?: ContextPick[];
+  isPickingContext?: boolean;
+  onTogglePick?: (pick: ContextPick) => void;
+  onRemovePick?: (nodeId: string) => void;
+  onClearPicks?: () => void;
 }
 
 export function BranchTreeSidebar({
+  graphId,
   branches,
   activeBranchId,
   isOpen,
   onToggle,
   onSelectBranch,
+  onBranchDeleted,
+  onNavigateToBranch,
   width,
   onWidthChange,
+  contextPicks = [],
+  isPickingContext = false,
+  onTogglePick,
+  onRemovePick,
+  onClearPicks,
 }: BranchTreeSidebarProps) {
   const [isResizing, setIsResizing] = useState(false);
   const [shouldAnimate, setShouldAnimate] = useState(true);
   const sidebarRef = useRef<HTMLDivElement>(null);
+  const { bookmarks } = useGraphBookmarks(graphId);
 
   // Build the tree structure
   const tree = buildBranchTree(branches, activeBranchId);
+  const branchNames = new Map(branches.map((b) => [b.id, b.name]));
+  const pickedNodeIds = new Set(contextPicks.map((p) => p.nodeId));
 
   // Track initial load to avoid re-animating on updates
   useEffect(() => {
@@ -165,11 +195,129 @@ export function BranchTreeSidebar({
                 >
                   <BranchTreeNode
                     node={node}
+                    graphId={graphId}
                     onSelect={onSelectBranch}
+                    onDeleted={onBranchDeleted}
+                    onExtracted={onNavigateToBranch}
+                    canDelete={branches.length > 1}
                     isLast={idx === tree.length - 1}
                   />
                 </div>
               ))}
+
+              {/* Bookmarks - jump to a branch that contains the node */}
+              {bookmarks.length > 0 && (
+                <div className="mt-6 pt-4 border-t space-y-1">
+                  <p className="flex items-center gap-1.5 px-1 pb-1 text-xs font-medium text-muted-foreground">
+                    <Bookmark className="h-3.5 w-3.5" />
+                    Bookmarks
+                  </p>
+                  {bookmarks.map((bookmark) => {
+                    const targetBranchId = pickBookmarkBranch(
+                      bookmark.branchIds,
+                      activeBranchId
+                    );
+                    return (
+                      <div key={bookmark.id} className="flex items-start gap-1">
+                        {isPickingContext && onTogglePick && targetBranchId && (
+                          <Checkbox
+                            className="mt-2 ml-1"
+                            checked={pickedNodeIds.has(bookmark.nodeId)}
+                            onCheckedChange={() =>
+                              onTogglePick({
+                                nodeId: bookmark.nodeId,
+                                branchId: targetBranchId,
+                                excerpt: bookmark.excerpt,
+                              })
+                            }
+                            aria-label="Use as context for the next message"
+                          />
+                        )}
+                        <button
+                          onClick={() =>
+                            targetBranchId && onSelectBranch(targetBranchId)
+                          }
+                          disabled={!targetBranchId}
+                          className="w-full flex items-start gap-2 px-2 py-1.5 rounded-md text-left hover:bg-accent transition-colors disabled:opacity-50 disabled:hover:bg-transparent"
+                          title={
+                            targetBranchId
+                              ? (bookmark.note ?? bookmark.excerpt)
+                              : "No branch reaches this message"
+                          }
+                        >
+                          <span
+                            className={cn(
+                              "mt-1 h-2.5 w-2.5 rounded-full flex-shrink-0",
+                              bookmarkDotClass(bookmark.color)
+                            )}
+                          />
+                          <span className="min-w-0">
+                            <span className="block text-xs font-medium truncate">
+                              {bookmark.label}
+                            </span>
+                            <span className="block text-[11px] text-muted-foreground truncate">
+                              {bookmark.excerpt}
+                            </span>
+                          </span>
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              {/* Hand-picked context - what the next send sees, in order */}
+              {contextPicks.length > 0 && (
+                <div className="mt-6 pt-4 border-t space-y-1">
+                  <div className="flex items-center justify-between px-1 pb-1">
+                    <p className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground">
+                      <ListChecks className="h-3.5 w-3.5" />
+                      Hand-picked context
+                    </p>
+                    {onClearPicks && (
+                      <button
+                        onClick={onClearPicks}
+                        className="text-[11px] text-muted-foreground hover:text-foreground"
+                      >
+                        Clear
+                      </button>
+                    )}
+                  </div>
+                  {contextPicks.map((pick, idx) => (
+                    <div
+                      key={pick.nodeId}
+                      className="group/pick flex items-start gap-1 rounded-md hover:bg-accent transition-colors"
+                    >
+                      <button
+                        onClick={() => onSelectBranch(pick.branchId)}
+                        className="min-w-0 flex-1 flex items-start gap-2 px-2 py-1.5 text-left"
+                        title={pick.excerpt}
+                      >
+                        <span className="mt-px w-4 flex-shrink-0 text-[11px] font-mono text-muted-foreground">
+                          {idx + 1}
+                        </span>
+                        <span className="min-w-0">
+                          <span className="block text-xs font-medium truncate">
+                            {branchNames.get(pick.branchId) ?? "Unknown branch"}
+                          </span>
+                          <span className="block text-[11px] text-muted-foreground truncate">
+                            {pick.excerpt || "(empty message)"}
+                          </span>
+                        </span>
+                      </button>
+                      {onRemovePick && (
+                        <button
+                          onClick={() => onRemovePick(pick.nodeId)}
+                          className="mt-1.5 mr-1 p-0.5 rounded-sm opacity-0 group-hover/pick:opacity-60 hover:!opacity-100 transition-opacity"
+                          title="Remove from context"
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           )}
         </div>
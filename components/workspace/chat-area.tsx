@@ -3,7 +3,15 @@
 import { useEffect, useState } from "react";
 
 import { UseQueryResult } from "@tanstack/react-query";
-import { GitBranch } from "lucide-react";
+import {
+  GitBranch,
+  ListChecks,
+  Redo2,
+  ScanSearch,
+  ScrollText,
+  Undo2,
+  X,
+} from "lucide-react";
 import { z } from "zod";
 
 import { MarkdownContent } from "@/components/markdown-content";
@@ -14,13 +22,35 @@ import {
   GraphDetailResponse,
   LinearResponse,
 } from "@/lib/api/schemas/responses";
-
+import { useBranchContext } from "@/lib/hooks/use-branch-context";
+import { useBranchMutations } from "@/lib/hooks/use-branch-mutations";
+import { useBranchSummaries } from "@/lib/hooks/use-branch-summaries";
+import type { ContextPick } from "@/lib/hooks/use-context-selection";
+import { useGraphBookmarks } from "@/lib/hooks/use-graph-bookmarks";
+import { useGraphMutations } from "@/lib/hooks/use-graph-mutations";
+import { useGraphPins } from "@/lib/hooks/use-graph-pins";
+import { useNodeMutations } from "@/lib/hooks/use-node-mutations";
+import { cn } from "@/lib/utils";
+import { stripMarkdown } from "@/lib/utils/strip-markdown";
+
+import { BlockLibraryDialog } from "./block-library-dialog";
+import { BookmarkPopover } from "./bookmark-popover";
+import { BranchDiffDialog } from "./branch-diff-dialog";
 import { BranchPoint } from "./branch-point";
+import { BranchReflogPopover } from "./branch-reflog-popover";
+import { ContextInspector } from "./context-inspector";
+import { ContextStrategyMenu } from "./context-strategy-menu";
+import { GraphCanvasDialog } from "./graph-canvas-dialog";
+import { MergeBranchPopover } from "./merge-branch-popover";
 import { MessageItem } from "./message-item";
+import { NodeTrashPopover } from "./node-trash-popover";
+import { PinPopover } from "./pin-popover";
+import { RewindBranchDialog } from "./rewind-branch-dialog";
 import {
   SessionLoadingSkeleton,
   TimelineMessageSkeleton,
 } from "./skeleton-loaders";
+import { SummaryCard } from "./summary-card";
 
 type TimelineItem = z.infer<typeof LinearResponse>["items"][number];
 type GraphDetail = z.infer<typeof GraphDetailResponse>;
@@ -53,6 +83,14 @@ interface ChatAreaProps {
   branchComposer: string;
   setBranchComposer: (value: string) => void;
   onSubmitBranch: (e: React.FormEvent) => void;
+  onAttachReference: (blockId: string) => Promise<unknown>;
+  onRegenerate: (version: number) => void;
+  onNavigateToBranch: (graphId: string, branchId: string) => void;
+  contextPicks: ContextPick[];
+  isPickingContext: boolean;
+  onTogglePickingContext: () => void;
+  onTogglePick: (pick: ContextPick) => void;
+  onClearPicks: () => void;
 }
 
 export function ChatArea({
@@ -74,8 +112,40 @@ export function ChatArea({
   branchComposer,
   setBranchComposer,
   onSubmitBranch,
+  onAttachReference,
+  onRegenerate,
+  onNavigateToBranch,
+  contextPicks,
+  isPickingContext,
+  onTogglePickingContext,
+  onTogglePick,
+  onClearPicks,
 }: ChatAreaProps) {
   const [shouldAnimate, setShouldAnimate] = useState(true);
+  const [rewindNodeId, setRewindNodeId] = useState<string | null>(null);
+  const [isInspecting, setIsInspecting] = useState(false);
+  const {
+    jumpBranch,
+    isJumping,
+    replaceTip,
+    isReplacingTip,
+    mergeBranch,
+    isMerging,
+    cherryPick,
+    summarizeBranch,
+    isSummarizing,
+  } = useBranchMutations();
+  const { deleteNode } = useNodeMutations();
+  const { undo, redo, isUndoing, isRedoing } = useGraphMutations();
+  const { summaries } = useBranchSummaries(selectedBranchId);
+  const { bookmarks } = useGraphBookmarks(selectedGraphId);
+  const bookmarkByNode = new Map(bookmarks.map((b) => [b.nodeId, b]));
+  const { pins } = useGraphPins(selectedGraphId);
+  const inspectedTip =
+    graphDetailQuery.data?.branches.find((b) => b.id === selectedBranchId)
+      ?.tipNodeId ?? null;
+  const { context: inspectedContext, isLoading: isContextLoading } =
+    useBranchContext(isInspecting ? selectedBranchId : null, inspectedTip);
 
   // Track branch changes to control animations
   useEffect(() => {
@@ -164,6 +234,116 @@ export function ChatArea({
     (b) => b.id === selectedBranchId
   )?.name;
 
+  // Only nodes from the branch root onwards can become the new tip
+  const timelineItems = linearQuery.data?.items ?? [];
+  const selectedBranch = graphDetailQuery.data?.branches.find(
+    (b) => b.id === selectedBranchId
+  );
+  const rootIndex = Math.max(
+    0,
+    timelineItems.findIndex((i) => i.nodeId === selectedBranch?.rootNodeId)
+  );
+  const rewindIndex = timelineItems.findIndex((i) => i.nodeId === rewindNodeId);
+
+  const handleEditTip = (text: string, regenerate: boolean) => {
+    if (!selectedBranch?.tipNodeId) return;
+    replaceTip({
+      graphId: selectedGraphId,
+      branchId: selectedBranch.id,
+      tipNodeId: selectedBranch.tipNodeId,
+      text,
+      expectedVersion: selectedBranch.version,
+      onSuccess: (data) => {
+        if (regenerate) onRegenerate(data.version);
+      },
+    });
+  };
+
+  // Branch roots anchor other branches and cannot be deleted
+  const branchRootIds = new Set(
+    (graphDetailQuery.data?.branches ?? []).map((b) => b.rootNodeId)
+  );
+
+  const handleMerge = (sourceBranchId: string) => {
+    if (!selectedBranch) return;
+    mergeBranch({
+      graphId: selectedGraphId,
+      branchId: selectedBranch.id,
+      sourceBranchId,
+      expectedVersion: selectedBranch.version,
+    });
+  };
+
+  // Pinned messages an answer was generated with, as recorded on its block
+  const getIncludedPins = (item: TimelineItem): string[] => {
+    const meta = (item.block.content as { meta?: { pinnedNodeIds?: unknown } })
+      ?.meta;
+    if (!Array.isArray(meta?.pinnedNodeIds)) return [];
+    return meta.pinnedNodeIds.map((nodeId: string) => {
+      const pin = pins.find((p) => p.nodeId === nodeId);
+      return pin ? stripMarkdown(pin.excerpt) : "(no longer pinned)";
+    });
+  };
+
+  // Hand-picked context a reply was generated with, as recorded on its block
+  const getPickedContextCount = (item: TimelineItem): number => {
+    const meta = (item.block.content as { meta?: { contextNodeIds?: unknown } })
+      ?.meta;
+    return Array.isArray(meta?.contextNodeIds) ? meta.contextNodeIds.length : 0;
+  };
+
+  const pickedNodeIds = new Set(contextPicks.map((p) => p.nodeId));
+
+  // While inspecting, outline what the model sees and fade what it doesn't
+  const sentNodeIds = new Set(inspectedContext?.messages.map((m) => m.nodeId));
+  const droppedNodeIds = new Set(
+    inspectedContext?.dropped.map((d) => d.nodeId)
+  );
+  const getInspectClass = (nodeId: string): string | undefined => {
+    if (!isInspecting || !inspectedContext) return undefined;
+    if (sentNodeIds.has(nodeId)) {
+      return "rounded-lg ring-2 ring-primary/40 ring-offset-4 ring-offset-background";
+    }
+    if (droppedNodeIds.has(nodeId)) return "opacity-40";
+    return undefined;
+  };
+
+  // Other branches that can receive a cherry-picked message
+  const copyTargets = (graphDetailQuery.data?.branches ?? []).filter(
+    (b) => b.id !== selectedBranchId && b.tipNodeId
+  );
+
+  // User messages carry their reply along so the exchange stays intact
+  const getCopyNodeIds = (index: number): string[] => {
+    const item = timelineItems[index];
+    const next = timelineItems[index + 1];
+    return item.block.kind === "user" && next?.block.kind === "assistant"
+      ? [item.nodeId, next.nodeId]
+      : [item.nodeId];
+  };
+
+  const handleCopyToBranch = (index: number, branchId: string) => {
+    const target = copyTargets.find((b) => b.id === branchId);
+    if (!target) return;
+    cherryPick({
+      graphId: selectedGraphId,
+      branchId,
+      nodeIds: getCopyNodeIds(index),
+      expectedVersion: target.version,
+    });
+  };
+
+  const handleConfirmRewind = () => {
+    if (!rewindNodeId || !selectedBranch) return;
+    jumpBranch({
+      graphId: selectedGraphId,
+      branchId: selectedBranch.id,
+      toNodeId: rewindNodeId,
+      expectedVersion: selectedBranch.version,
+    });
+    setRewindNodeId(null);
+  };
+
   return (
     <div className="flex flex-col h-full">
       {/* Compact Header - Fixed, Not Scrollable */}
@@ -186,6 +366,108 @@ export function ChatArea({
               </>
             )}
           </div>
+          <div className="flex items-center gap-1 flex-shrink-0">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0 text-muted-foreground"
+              title="Undo last change"
+              disabled={isUndoing || isStreaming}
+              onClick={() => undo({ graphId: selectedGraphId })}
+            >
+              <Undo2 className="h-3.5 w-3.5" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0 text-muted-foreground"
+              title="Redo"
+              disabled={isRedoing || isStreaming}
+              onClick={() => redo({ graphId: selectedGraphId })}
+            >
+              <Redo2 className="h-3.5 w-3.5" />
+            </Button>
+            <GraphCanvasDialog
+              graphId={selectedGraphId}
+              currentBranchId={selectedBranch?.id ?? null}
+              onSelectBranch={onSelectBranch}
+              onFork={(branchId, nodeId, messageText) => {
+                if (branchId !== selectedBranch?.id) onSelectBranch(branchId);
+                onStartBranch(nodeId, messageText);
+              }}
+              onRewind={setRewindNodeId}
+            />
+            {selectedBranch && (
+              <BranchDiffDialog
+                branches={graphDetailQuery.data?.branches ?? []}
+                currentBranchId={selectedBranch.id}
+              />
+            )}
+            {selectedBranch && (
+              <MergeBranchPopover
+                branches={graphDetailQuery.data?.branches ?? []}
+                currentBranchId={selectedBranch.id}
+                onMerge={handleMerge}
+                isMerging={isMerging}
+              />
+            )}
+            {selectedBranch && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs text-muted-foreground"
+                title="Summarize older messages into one context block"
+                disabled={isSummarizing || isStreaming}
+                onClick={() => summarizeBranch({ branchId: selectedBranch.id })}
+              >
+                <ScrollText className="mr-1.5 h-3.5 w-3.5" />
+                {isSummarizing ? "Summarizing..." : "Summarize"}
+              </Button>
+            )}
+            {selectedBranch && (
+              <BranchReflogPopover branchId={selectedBranch.id} />
+            )}
+            {selectedBranch && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className={cn(
+                  "h-7 w-7 p-0 text-muted-foreground",
+                  isPickingContext && "bg-accent text-foreground"
+                )}
+                title="Pick context messages"
+                disabled={isStreaming}
+                onClick={onTogglePickingContext}
+              >
+                <ListChecks className="h-3.5 w-3.5" />
+              </Button>
+            )}
+            {selectedBranch && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className={cn(
+                  "h-7 w-7 p-0 text-muted-foreground",
+                  isInspecting && "bg-accent text-foreground"
+                )}
+                title="Inspect context"
+                onClick={() => setIsInspecting((prev) => !prev)}
+              >
+                <ScanSearch className="h-3.5 w-3.5" />
+              </Button>
+            )}
+            <ContextStrategyMenu
+              graphId={selectedGraphId}
+              strategy={graphDetailQuery.data?.graph.contextStrategy ?? null}
+              disabled={isStreaming}
+            />
+            <BlockLibraryDialog
+              onAttach={
+                selectedBranch?.tipNodeId ? onAttachReference : undefined
+              }
+            />
+            <NodeTrashPopover graphId={selectedGraphId} />
+          </div>
         </div>
       </div>
 
@@ -289,11 +571,11 @@ export function ChatArea({
                 return (
                   <div
                     key={item.nodeId}
-                    className={
-                      shouldAnimate
-                        ? "animate-in fade-in slide-in-from-bottom-3 duration-300"
-                        : ""
-                    }
+                    className={cn(
+                      shouldAnimate &&
+                        "animate-in fade-in slide-in-from-bottom-3 duration-300",
+                      getInspectClass(item.nodeId)
+                    )}
                     style={
                       shouldAnimate
                         ? { animationDelay: `${index * 40}ms` }
@@ -304,6 +586,83 @@ export function ChatArea({
                       item={item}
                       showBranchButton={!branchContext}
                       onStartBranch={onStartBranch}
+                      onRewind={
+                        !isStreaming &&
+                        index >= rootIndex &&
+                        currentBranch?.tipNodeId !== item.nodeId
+                          ? setRewindNodeId
+                          : undefined
+                      }
+                      onDelete={
+                        !isStreaming && !branchRootIds.has(item.nodeId)
+                          ? (nodeId) =>
+                              deleteNode({ graphId: selectedGraphId, nodeId })
+                          : undefined
+                      }
+                      onEdit={
+                        !isStreaming && currentBranch?.tipNodeId === item.nodeId
+                          ? handleEditTip
+                          : undefined
+                      }
+                      isEditPending={isReplacingTip}
+                      onNavigateToBranch={onNavigateToBranch}
+                      copyTargets={copyTargets}
+                      copyIncludesReply={getCopyNodeIds(index).length > 1}
+                      onCopyToBranch={
+                        !isStreaming
+                          ? (branchId) => handleCopyToBranch(index, branchId)
+                          : undefined
+                      }
+                      onAttachReference={
+                        currentBranch?.tipNodeId === item.nodeId
+                          ? onAttachReference
+                          : undefined
+                      }
+                      pinContent={
+                        currentBranch ? (
+                          <PinPopover
+                            graphId={selectedGraphId}
+                            nodeId={item.nodeId}
+                            currentBranchId={currentBranch.id}
+                            branches={graphDetailQuery.data?.branches ?? []}
+                            pinnedBranchIds={pins
+                              .filter((p) => p.nodeId === item.nodeId)
+                              .map((p) => p.branchId)}
+                          />
+                        ) : undefined
+                      }
+                      includedPins={getIncludedPins(item)}
+                      pickedContextCount={getPickedContextCount(item)}
+                      isPicked={pickedNodeIds.has(item.nodeId)}
+                      onTogglePick={
+                        isPickingContext && selectedBranchId
+                          ? () =>
+                              onTogglePick({
+                                nodeId: item.nodeId,
+                                branchId: selectedBranchId,
+                                excerpt: stripMarkdown(
+                                  (
+                                    item.block.content as {
+                                      text?: string;
+                                    } | null
+                                  )?.text ?? ""
+                                ).slice(0, 120),
+                              })
+                          : undefined
+                      }
+                      bookmarkContent={
+                        item.block.kind !== "summary" ? (
+                          <BookmarkPopover
+                            graphId={selectedGraphId}
+                            nodeId={item.nodeId}
+                            bookmark={bookmarkByNode.get(item.nodeId)}
+                            messageText={
+                              (item.block.content as { text?: string } | null)
+                                ?.text ?? ""
+                            }
+                          />
+                        ) : undefined
+                      }
                       branchPointContent={
                         shouldShowPills && alternateBranches.length > 0 ? (
                           <BranchPoint
@@ -315,6 +674,13 @@ export function ChatArea({
                       }
                     />
 
+                    {/* Summaries that take over from this message onwards */}
+                    {summaries
+                      .filter((summary) => summary.endNodeId === item.nodeId)
+                      .map((summary) => (
+                        <SummaryCard key={summary.nodeId} summary={summary} />
+                      ))}
+
                     {/* Inline Branch Composer - Show if this is the branch context node */}
                     {branchContext && branchContext.nodeId === item.nodeId && (
                       <div className="my-4 ml-6 animate-in fade-in slide-in-from-top-4 duration-500 ease-out">
@@ -462,6 +828,24 @@ export function ChatArea({
                         {composer.length} characters
                       </span>
                     )}
+                    {contextPicks.length > 0 && (
+                      <Badge
+                        variant="outline"
+                        className="gap-1 text-xs border-primary/40 bg-primary/5"
+                        title="Send uses only these messages as context"
+                      >
+                        <ListChecks className="h-3 w-3" />
+                        {contextPicks.length} hand-picked
+                        <button
+                          type="button"
+                          className="ml-0.5 rounded-sm hover:text-foreground"
+                          title="Use the branch history again"
+                          onClick={onClearPicks}
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    )}
                   </div>
                   <div className="flex items-center gap-2">
                     <Button
@@ -594,6 +978,27 @@ export function ChatArea({
           </div>
         </div>
       </div>
+
+      <RewindBranchDialog
+        open={rewindNodeId !== null}
+        onOpenChange={(open) => {
+          if (!open) setRewindNodeId(null);
+        }}
+        branchName={currentBranchName ?? null}
+        discardedCount={
+          rewindIndex >= 0 ? timelineItems.length - 1 - rewindIndex : 0
+        }
+        onConfirm={handleConfirmRewind}
+        isRewinding={isJumping}
+      />
+
+      {isInspecting && selectedBranch && (
+        <ContextInspector
+          context={inspectedContext}
+          isLoading={isContextLoading}
+          onClose={() => setIsInspecting(false)}
+        />
+      )}
     </div>
   );
 }
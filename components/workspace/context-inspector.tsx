@@ -0,0 +1,226 @@
+"use client";
+
+import { useState } from "react";
+
+import {
+  ChevronDown,
+  ChevronRight,
+  Pin,
+  ScanSearch,
+  Telescope,
+  X,
+} from "lucide-react";
+import { z } from "zod";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type {
+  ContextDropReason,
+  ContextMessageKind,
+} from "@/lib/api/schemas/enums";
+import { BranchContextResponse } from "@/lib/api/schemas/responses";
+import { cn } from "@/lib/utils";
+import { stripMarkdown } from "@/lib/utils/strip-markdown";
+
+import { contextStrategyLabels } from "./context-strategy-menu";
+
+type BranchContext = z.infer<typeof BranchContextResponse>;
+
+const kindLabels: Record<ContextMessageKind, string> = {
+  system: "System",
+  user: "User",
+  assistant: "Assistant",
+  summary: "Summary",
+  reference: "Reference",
+};
+
+const dropReasonLabels: Record<ContextDropReason, string> = {
+  summarized: "Covered by a summary",
+  token_budget: "Over the token budget",
+  node_budget: "Over the message limit",
+};
+
+const systemPromptSources: Record<
+  BranchContext["systemPrompt"]["source"],
+  string
+> = {
+  env: "Environment override",
+  langfuse: "Langfuse",
+  default: "Built-in default",
+};
+
+function formatUsd(value: number): string {
+  return value < 0.01 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+}
+
+interface ContextInspectorProps {
+  context: BranchContext | null;
+  isLoading: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Drawer listing exactly what the model receives on the next send of this
+ * branch, in order, with token counts and what was left out.
+ */
+export function ContextInspector({
+  context,
+  isLoading,
+  onClose,
+}: ContextInspectorProps) {
+  const [showSystemPrompt, setShowSystemPrompt] = useState(false);
+
+  const droppedByReason = (context?.dropped ?? []).reduce<
+    Partial<Record<ContextDropReason, number>>
+  >((acc, d) => ({ ...acc, [d.reason]: (acc[d.reason] ?? 0) + 1 }), {});
+
+  return (
+    <aside className="fixed inset-y-0 right-0 z-40 flex w-full flex-col border-l bg-background shadow-xl animate-in slide-in-from-right duration-200 sm:w-96">
+      <div className="flex items-center justify-between border-b px-4 py-3">
+        <div className="flex items-center gap-2">
+          <ScanSearch className="h-4 w-4 text-muted-foreground" />
+          <span className="text-sm font-semibold">Context inspector</span>
+          {context && (
+            <Badge variant="outline" className="text-xs">
+              {contextStrategyLabels[context.strategy].title}
+            </Badge>
+          )}
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 w-7 p-0"
+          title="Close"
+          onClick={onClose}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {isLoading || !context ? (
+        <div className="p-4 text-sm text-muted-foreground">
+          Building context...
+        </div>
+      ) : (
+        <div className="flex-1 space-y-4 overflow-y-auto p-4 text-sm">
+          <div className="grid grid-cols-2 gap-2 rounded-lg border bg-card p-3 text-xs">
+            <span className="text-muted-foreground">Model</span>
+            <span className="truncate text-right font-mono">
+              {context.model}
+            </span>
+            <span className="text-muted-foreground">Context tokens</span>
+            <span className="text-right font-mono">
+              {context.tokens.context.toLocaleString()} /{" "}
+              {context.tokens.limit.toLocaleString()}
+            </span>
+            <span className="text-muted-foreground">Input tokens</span>
+            <span className="text-right font-mono">
+              {context.estimate.inputTokens.toLocaleString()}
+            </span>
+            <span className="text-muted-foreground">Next send (est.)</span>
+            <span
+              className="text-right font-mono"
+              title={`Assumes a reply of about ${context.estimate.outputTokens.toLocaleString()} tokens`}
+            >
+              {formatUsd(context.estimate.costUsd)}
+            </span>
+          </div>
+
+          <div className="rounded-lg border">
+            <button
+              type="button"
+              onClick={() => setShowSystemPrompt((prev) => !prev)}
+              className="flex w-full items-center gap-2 px-3 py-2 text-left text-xs"
+            >
+              {showSystemPrompt ? (
+                <ChevronDown className="h-3.5 w-3.5 text-muted-foreground" />
+              ) : (
+                <ChevronRight className="h-3.5 w-3.5 text-muted-foreground" />
+              )}
+              <span className="font-medium">System prompt</span>
+              <span className="text-muted-foreground">
+                {systemPromptSources[context.systemPrompt.source]}
+                {context.systemPrompt.version != null &&
+                  ` v${context.systemPrompt.version}`}
+              </span>
+              <span className="ml-auto font-mono text-muted-foreground">
+                {context.systemPrompt.tokens}
+              </span>
+            </button>
+            {showSystemPrompt && (
+              <pre className="max-h-64 overflow-y-auto whitespace-pre-wrap border-t px-3 py-2 text-xs text-muted-foreground">
+                {context.systemPrompt.text}
+              </pre>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-muted-foreground">
+              Messages in order ({context.messages.length})
+            </p>
+            {context.messages.map((m, i) => (
+              <div
+                key={`${m.nodeId ?? "message"}-${i}`}
+                className={cn(
+                  "rounded-lg border px-3 py-2",
+                  m.pinned && "border-primary/40 bg-primary/5",
+                  m.retrieved && "border-dashed"
+                )}
+              >
+                <div className="mb-1 flex items-center gap-1.5 text-xs">
+                  <Badge variant="outline" className="text-[10px]">
+                    {kindLabels[m.kind]}
+                  </Badge>
+                  <span className="text-muted-foreground">as {m.role}</span>
+                  {m.pinned && <Pin className="h-3 w-3 text-primary" />}
+                  {m.retrieved && (
+                    <span
+                      className="flex items-center gap-1 text-muted-foreground"
+                      title="Related message from another branch"
+                    >
+                      <Telescope className="h-3 w-3" />
+                      retrieved
+                    </span>
+                  )}
+                  {m.truncated && (
+                    <span className="text-amber-600 dark:text-amber-400">
+                      truncated
+                    </span>
+                  )}
+                  <span className="ml-auto font-mono text-muted-foreground">
+                    {m.tokens}
+                  </span>
+                </div>
+                <p className="line-clamp-3 text-xs text-muted-foreground">
+                  {stripMarkdown(m.text)}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {context.dropped.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-xs font-medium text-muted-foreground">
+                Left out ({context.dropped.length})
+              </p>
+              {Object.entries(droppedByReason).map(([reason, count]) => (
+                <div
+                  key={reason}
+                  className="flex items-center justify-between rounded-md bg-muted/50 px-3 py-1.5 text-xs"
+                >
+                  <span>{dropReasonLabels[reason as ContextDropReason]}</span>
+                  <span className="font-mono text-muted-foreground">
+                    {count}
+                  </span>
+                </div>
+              ))}
+              <p className="pt-1 text-xs text-muted-foreground">
+                Faded messages in the timeline are not sent.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+    </aside>
+  );
+}
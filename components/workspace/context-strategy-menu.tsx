@@ -0,0 +1,113 @@
+"use client";
+
+import { Layers } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  type ContextStrategy,
+  ContextStrategySchema,
+} from "@/lib/api/schemas/enums";
+import { useGraphMutations } from "@/lib/hooks/use-graph-mutations";
+
+// Radio value standing in for "no choice made", i.e. the server default
+const DEFAULT_VALUE = "default";
+
+export const contextStrategyLabels: Record<
+  ContextStrategy,
+  { title: string; hint: string }
+> = {
+  recent: {
+    title: "Recent",
+    hint: "Latest messages only",
+  },
+  head_tail: {
+    title: "Start + recent",
+    hint: "Opening messages plus the latest ones",
+  },
+  summary_recent: {
+    title: "Summary + recent",
+    hint: "Summaries of older history plus the latest messages",
+  },
+  retrieval: {
+    title: "Summary + retrieval",
+    hint: "Summary + recent, plus related messages from other branches",
+  },
+};
+
+interface ContextStrategyMenuProps {
+  graphId: string;
+  strategy: ContextStrategy | null;
+  disabled?: boolean;
+}
+
+/**
+ * Choose how this session's history is trimmed to fit the model's context.
+ */
+export function ContextStrategyMenu({
+  graphId,
+  strategy,
+  disabled,
+}: ContextStrategyMenuProps) {
+  const { updateGraph, isUpdating } = useGraphMutations();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs text-muted-foreground"
+          title="Context strategy"
+          disabled={disabled || isUpdating}
+        >
+          <Layers className="mr-1.5 h-3.5 w-3.5" />
+          {strategy ? contextStrategyLabels[strategy].title : "Default context"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-72">
+        <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+          What the assistant sees of this session
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup
+          value={strategy ?? DEFAULT_VALUE}
+          onValueChange={(value) => {
+            const parsed = ContextStrategySchema.safeParse(value);
+            updateGraph({
+              graphId,
+              contextStrategy: parsed.success ? parsed.data : null,
+            });
+          }}
+        >
+          <DropdownMenuRadioItem value={DEFAULT_VALUE}>
+            <div className="flex flex-col">
+              <span>Default</span>
+              <span className="text-xs text-muted-foreground">
+                Server setting
+              </span>
+            </div>
+          </DropdownMenuRadioItem>
+          {ContextStrategySchema.options.map((option) => (
+            <DropdownMenuRadioItem key={option} value={option}>
+              <div className="flex flex-col">
+                <span>{contextStrategyLabels[option].title}</span>
+                <span className="text-xs text-muted-foreground">
+                  {contextStrategyLabels[option].hint}
+                </span>
+              </div>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
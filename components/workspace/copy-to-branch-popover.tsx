@@ -0,0 +1,69 @@
+"use client";
+
+import { useState } from "react";
+
+import { CopyPlus, GitBranch } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { type Branch, getBranchDisplayName } from "@/lib/utils/branch-tree";
+
+interface CopyToBranchPopoverProps {
+  branches: Branch[];
+  includesReply: boolean;
+  onCopy: (branchId: string) => void;
+}
+
+/**
+ * Cherry-pick a message (and its reply, for user messages) onto the tip of
+ * another branch.
+ */
+export function CopyToBranchPopover({
+  branches,
+  includesReply,
+  onCopy,
+}: CopyToBranchPopoverProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="opacity-0 group-hover/message:opacity-60 hover:!opacity-100 data-[state=open]:opacity-100 transition-opacity h-7 w-7 p-0"
+          title="Copy to another branch"
+        >
+          <CopyPlus className="h-3.5 w-3.5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 p-2">
+        <p className="px-2 py-1.5 text-xs text-muted-foreground">
+          {includesReply
+            ? "Copy this exchange to the end of"
+            : "Copy this message to the end of"}
+        </p>
+        <div className="max-h-64 overflow-y-auto">
+          {branches.map((b) => (
+            <button
+              key={b.id}
+              type="button"
+              className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-accent"
+              onClick={() => {
+                onCopy(b.id);
+                setOpen(false);
+              }}
+            >
+              <GitBranch className="h-3.5 w-3.5 flex-shrink-0 text-muted-foreground" />
+              <span className="truncate">{getBranchDisplayName(b)}</span>
+            </button>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface DeleteBranchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  branchName: string | null;
+  onConfirm: () => void;
+  isDeleting?: boolean;
+}
+
+export function DeleteBranchDialog({
+  open,
+  onOpenChange,
+  branchName,
+  onConfirm,
+  isDeleting = false,
+}: DeleteBranchDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Delete Branch</DialogTitle>
+          <DialogDescription>
+            Are you sure you want to delete{" "}
+            <span className="font-semibold text-foreground">
+              {branchName || "this branch"}
+            </span>
+            ? Messages that only exist on this branch will be removed. Messages
+            shared with other branches are kept.
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isDeleting}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => {
+              onConfirm();
+              onOpenChange(false);
+            }}
+            disabled={isDeleting}
+          >
+            {isDeleting ? "Deleting..." : "Delete Branch"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -35,8 +35,8 @@ export function DeleteGraphDialog({
             <span className="font-semibold text-foreground">
               {graphTitle || "Untitled Session"}
             </span>
-            ? This action cannot be undone and will permanently delete all
-            messages and data in this session.
+            ? The session moves to the trash, where you can restore it until it
+            is permanently deleted.
           </DialogDescription>
         </DialogHeader>
         <DialogFooter>
@@ -0,0 +1,458 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+
+import { useQuery } from "@tanstack/react-query";
+import { GitBranch, LocateFixed, Network, RotateCcw } from "lucide-react";
+import { z } from "zod";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { GraphTopologyResponse } from "@/lib/api/schemas/responses";
+import { QUERY_KEYS } from "@/lib/constants/query-keys";
+import { getBranchDisplayName } from "@/lib/utils/branch-tree";
+import {
+  LAYOUT_NODE_HEIGHT,
+  LAYOUT_NODE_WIDTH,
+  layoutDag,
+} from "@/lib/utils/dag-layout";
+import { stripMarkdown } from "@/lib/utils/strip-markdown";
+
+type GraphTopology = z.infer<typeof GraphTopologyResponse>;
+type TopologyEdge = GraphTopology["edges"][number];
+
+const MIN_ZOOM = 0.2;
+const MAX_ZOOM = 2.5;
+
+/**
+ * Node ids on a branch's timeline, walking first `follows` parents back from
+ * the tip like the linear view does.
+ */
+function walkFirstParents(
+  tipNodeId: string | null,
+  firstParent: Map<string, string>
+): string[] {
+  const path: string[] = [];
+  const seen = new Set<string>();
+  let current = tipNodeId;
+  while (current && !seen.has(current)) {
+    seen.add(current);
+    path.push(current);
+    current = firstParent.get(current) ?? null;
+  }
+  return path;
+}
+
+function firstParentIndex(edges: TopologyEdge[]): Map<string, string> {
+  const best = new Map<string, TopologyEdge>();
+  for (const e of edges) {
+    if (e.relation !== "follows") continue;
+    const current = best.get(e.childNodeId);
+    if (!current || (e.ord ?? 0) < (current.ord ?? 0)) {
+      best.set(e.childNodeId, e);
+    }
+  }
+  return new Map([...best].map(([child, e]) => [child, e.parentNodeId]));
+}
+
+interface GraphCanvasDialogProps {
+  graphId: string;
+  currentBranchId: string | null;
+  onSelectBranch: (branchId: string) => void;
+  onFork: (branchId: string, nodeId: string, messageText: string) => void;
+  onRewind: (nodeId: string) => void;
+}
+
+export function GraphCanvasDialog({
+  graphId,
+  currentBranchId,
+  onSelectBranch,
+  onFork,
+  onRewind,
+}: GraphCanvasDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [view, setView] = useState({ x: 40, y: 40, k: 1 });
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const dragRef = useRef<{ x: number; y: number; moved: boolean } | null>(null);
+
+  const topologyQuery = useQuery({
+    queryKey: QUERY_KEYS.graphTopology(graphId),
+    queryFn: async () => {
+      const res = await fetch(`/api/v1/graphs/${graphId}/topology`);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      return (await res.json()) as GraphTopology;
+    },
+    enabled: open,
+    staleTime: 0,
+  });
+  const topology = topologyQuery.data;
+
+  const layout = useMemo(
+    () =>
+      topology
+        ? layoutDag(
+            topology.nodes.map((n) => n.id),
+            topology.edges
+          )
+        : null,
+    [topology]
+  );
+
+  // Timelines per branch, used to decide where forks and rewinds can happen
+  const branchPaths = useMemo(() => {
+    if (!topology) return new Map<string, string[]>();
+    const firstParent = firstParentIndex(topology.edges);
+    return new Map(
+      topology.branches.map((b) => [
+        b.id,
+        walkFirstParents(b.tipNodeId ?? null, firstParent),
+      ])
+    );
+  }, [topology]);
+
+  const currentPath = useMemo(
+    () => new Set(currentBranchId ? branchPaths.get(currentBranchId) : []),
+    [branchPaths, currentBranchId]
+  );
+
+  const tipsByNode = useMemo(() => {
+    const map = new Map<string, GraphTopology["branches"]>();
+    for (const b of topology?.branches ?? []) {
+      if (!b.tipNodeId) continue;
+      map.set(b.tipNodeId, [...(map.get(b.tipNodeId) ?? []), b]);
+    }
+    return map;
+  }, [topology]);
+
+  const focusNode = (nodeId: string | null | undefined, k = view.k) => {
+    const svg = svgRef.current;
+    const pos = nodeId ? layout?.positions.get(nodeId) : undefined;
+    if (!svg || !pos) return;
+    setView({
+      k,
+      x: svg.clientWidth / 2 - (pos.x + LAYOUT_NODE_WIDTH / 2) * k,
+      y: svg.clientHeight / 2 - (pos.y + LAYOUT_NODE_HEIGHT / 2) * k,
+    });
+  };
+
+  const currentTipId = topology?.branches.find(
+    (b) => b.id === currentBranchId
+  )?.tipNodeId;
+
+  // Start centred on the current branch tip
+  useEffect(() => {
+    if (!open || !layout) return;
+    const timer = setTimeout(() => focusNode(currentTipId, 1), 0);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, layout, currentTipId]);
+
+  // Wheel zoom around the cursor; needs a non-passive listener
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const px = e.clientX - rect.left;
+      const py = e.clientY - rect.top;
+      setView((v) => {
+        const k = Math.min(
+          MAX_ZOOM,
+          Math.max(MIN_ZOOM, v.k * Math.exp(-e.deltaY * 0.0015))
+        );
+        return {
+          k,
+          x: px - (px - v.x) * (k / v.k),
+          y: py - (py - v.y) * (k / v.k),
+        };
+      });
+    };
+    svg.addEventListener("wheel", onWheel, { passive: false });
+    return () => svg.removeEventListener("wheel", onWheel);
+  }, [layout]);
+
+  const selectedNode = topology?.nodes.find((n) => n.id === selectedNodeId);
+  const selectedTips = selectedNodeId
+    ? (tipsByNode.get(selectedNodeId) ?? [])
+    : [];
+  // Fork on the current branch when possible, otherwise on any branch that
+  // shows this node in its timeline
+  const forkBranchId = selectedNodeId
+    ? currentPath.has(selectedNodeId)
+      ? currentBranchId
+      : ([...branchPaths].find(([, path]) =>
+          path.includes(selectedNodeId)
+        )?.[0] ?? null)
+    : null;
+  const canRewind =
+    !!selectedNodeId &&
+    currentPath.has(selectedNodeId) &&
+    selectedNodeId !== currentTipId;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) setSelectedNodeId(null);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs text-muted-foreground"
+          title="Show the whole conversation graph"
+        >
+          <Network className="mr-1.5 h-3.5 w-3.5" />
+          Graph
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-[95vw] w-[95vw] h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>
+            {topology?.graph.title ?? "Conversation Graph"}
+          </DialogTitle>
+          <DialogDescription>
+            Drag to pan, scroll to zoom. Click a message to fork or rewind.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="relative flex-1 min-h-0 rounded-lg border bg-muted/20 overflow-hidden">
+          {topologyQuery.isLoading ? (
+            <div className="flex h-full items-center justify-center gap-2 text-muted-foreground">
+              <div className="h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent" />
+              <span className="text-sm">Loading graph...</span>
+            </div>
+          ) : !topology || !layout ? (
+            <div className="flex h-full items-center justify-center text-sm text-destructive">
+              Failed to load the graph.
+            </div>
+          ) : (
+            <>
+              <svg
+                ref={svgRef}
+                className="h-full w-full cursor-grab active:cursor-grabbing select-none touch-none"
+                onPointerDown={(e) => {
+                  dragRef.current = {
+                    x: e.clientX,
+                    y: e.clientY,
+                    moved: false,
+                  };
+                  e.currentTarget.setPointerCapture(e.pointerId);
+                }}
+                onPointerMove={(e) => {
+                  const drag = dragRef.current;
+                  if (!drag) return;
+                  const dx = e.clientX - drag.x;
+                  const dy = e.clientY - drag.y;
+                  if (Math.abs(dx) + Math.abs(dy) > 3) drag.moved = true;
+                  dragRef.current = {
+                    x: e.clientX,
+                    y: e.clientY,
+                    moved: drag.moved,
+                  };
+                  setView((v) => ({ ...v, x: v.x + dx, y: v.y + dy }));
+                }}
+                onPointerUp={(e) => {
+                  const drag = dragRef.current;
+                  dragRef.current = null;
+                  if (drag?.moved) return;
+                  // A click without dragging selects the node under the cursor
+                  const target = (e.target as Element).closest(
+                    "[data-node-id]"
+                  );
+                  setSelectedNodeId(
+                    target?.getAttribute("data-node-id") ?? null
+                  );
+                }}
+              >
+                <g
+                  transform={`translate(${view.x} ${view.y}) scale(${view.k})`}
+                >
+                  {/* Edges */}
+                  {topology.edges.map((e) => {
+                    const from = layout.positions.get(e.parentNodeId);
+                    const to = layout.positions.get(e.childNodeId);
+                    if (!from || !to) return null;
+                    const x1 = from.x + LAYOUT_NODE_WIDTH / 2;
+                    const y1 = from.y + LAYOUT_NODE_HEIGHT;
+                    const x2 = to.x + LAYOUT_NODE_WIDTH / 2;
+                    const y2 = to.y;
+                    const midY = (y1 + y2) / 2;
+                    const onPath =
+                      currentPath.has(e.parentNodeId) &&
+                      currentPath.has(e.childNodeId);
+                    return (
+                      <path
+                        key={e.id}
+                        d={`M ${x1} ${y1} C ${x1} ${midY}, ${x2} ${midY}, ${x2} ${y2}`}
+                        fill="none"
+                        strokeWidth={onPath ? 2 : 1.25}
+                        strokeDasharray={
+                          e.relation === "references" ? "4 4" : undefined
+                        }
+                        className={
+                          e.relation === "references"
+                            ? "stroke-primary/50"
+                            : onPath
+                              ? "stroke-primary"
+                              : "stroke-muted-foreground/40"
+                        }
+                      />
+                    );
+                  })}
+
+                  {/* Nodes */}
+                  {topology.nodes.map((n) => {
+                    const pos = layout.positions.get(n.id);
+                    if (!pos) return null;
+                    const tips = tipsByNode.get(n.id) ?? [];
+                    const isSelected = n.id === selectedNodeId;
+                    return (
+                      <g
+                        key={n.id}
+                        data-node-id={n.id}
+                        transform={`translate(${pos.x} ${pos.y})`}
+                        className="cursor-pointer"
+                      >
+                        <rect
+                          width={LAYOUT_NODE_WIDTH}
+                          height={LAYOUT_NODE_HEIGHT}
+                          rx={10}
+                          strokeWidth={isSelected ? 2.5 : 1.5}
+                          className={`${
+                            n.kind === "user"
+                              ? "fill-blue-50 dark:fill-blue-950/40"
+                              : "fill-card"
+                          } ${
+                            isSelected
+                              ? "stroke-primary"
+                              : currentPath.has(n.id)
+                                ? "stroke-primary/60"
+                                : "stroke-border"
+                          }`}
+                        />
+                        <foreignObject
+                          x={8}
+                          y={6}
+                          width={LAYOUT_NODE_WIDTH - 16}
+                          height={LAYOUT_NODE_HEIGHT - 12}
+                        >
+                          <div className="text-[11px] leading-snug text-foreground line-clamp-3 pointer-events-none">
+                            {n.kind === "user" ? "👤 " : "🤖 "}
+                            {stripMarkdown(n.excerpt)}
+                          </div>
+                        </foreignObject>
+                        {tips.length > 0 && (
+                          <foreignObject
+                            x={0}
+                            y={-22}
+                            width={LAYOUT_NODE_WIDTH}
+                            height={20}
+                          >
+                            <div className="flex gap-1 overflow-hidden pointer-events-none">
+                              {tips.map((b) => (
+                                <span
+                                  key={b.id}
+                                  className={`truncate rounded-full px-2 text-[10px] leading-[18px] ${
+                                    b.id === currentBranchId
+                                      ? "bg-primary text-primary-foreground"
+                                      : "bg-muted text-muted-foreground"
+                                  }`}
+                                >
+                                  {getBranchDisplayName(b)}
+                                </span>
+                              ))}
+                            </div>
+                          </foreignObject>
+                        )}
+                      </g>
+                    );
+                  })}
+                </g>
+              </svg>
+
+              <Button
+                variant="outline"
+                size="sm"
+                className="absolute right-3 top-3 h-7 px-2 text-xs"
+                onClick={() => focusNode(currentTipId, 1)}
+              >
+                <LocateFixed className="mr-1.5 h-3.5 w-3.5" />
+                Current tip
+              </Button>
+
+              {/* Actions for the selected node */}
+              {selectedNode && (
+                <div className="absolute bottom-3 left-3 right-3 mx-auto max-w-xl rounded-lg border bg-background/95 p-3 shadow-lg space-y-2">
+                  <p className="text-sm line-clamp-2">
+                    {stripMarkdown(selectedNode.excerpt)}
+                  </p>
+                  <div className="flex flex-wrap gap-1.5">
+                    {forkBranchId && (
+                      <Button
+                        size="sm"
+                        className="h-7 text-xs"
+                        onClick={() => {
+                          onFork(
+                            forkBranchId,
+                            selectedNode.id,
+                            stripMarkdown(selectedNode.excerpt)
+                          );
+                          setOpen(false);
+                        }}
+                      >
+                        <GitBranch className="mr-1.5 h-3.5 w-3.5" />
+                        Fork from here
+                      </Button>
+                    )}
+                    {canRewind && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 text-xs"
+                        onClick={() => {
+                          onRewind(selectedNode.id);
+                          setOpen(false);
+                        }}
+                      >
+                        <RotateCcw className="mr-1.5 h-3.5 w-3.5" />
+                        Rewind current branch here
+                      </Button>
+                    )}
+                    {selectedTips
+                      .filter((b) => b.id !== currentBranchId)
+                      .map((b) => (
+                        <Button
+                          key={b.id}
+                          variant="outline"
+                          size="sm"
+                          className="h-7 text-xs"
+                          onClick={() => {
+                            onSelectBranch(b.id);
+                            setOpen(false);
+                          }}
+                        >
+                          Open {getBranchDisplayName(b)}
+                        </Button>
+                      ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,118 @@
+"use client";
+
+import { useState } from "react";
+
+import { useQuery } from "@tanstack/react-query";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { z } from "zod";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { TrashedGraphsResponse } from "@/lib/api/schemas/responses";
+import { QUERY_KEYS } from "@/lib/constants/query-keys";
+import { useGraphMutations } from "@/lib/hooks/use-graph-mutations";
+
+type TrashedGraphs = z.infer<typeof TrashedGraphsResponse>;
+
+interface GraphTrashDialogProps {
+  onRestored?: (graphId: string) => void;
+}
+
+export function GraphTrashDialog({ onRestored }: GraphTrashDialogProps) {
+  const [open, setOpen] = useState(false);
+  const { restoreGraph, isRestoring } = useGraphMutations();
+
+  const trashQuery = useQuery({
+    queryKey: QUERY_KEYS.graphsTrash(),
+    queryFn: async () => {
+      const res = await fetch("/api/v1/graphs/trash?limit=50");
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      return (await res.json()) as TrashedGraphs;
+    },
+    enabled: open,
+  });
+
+  const items = trashQuery.data?.items ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full justify-start text-xs text-muted-foreground"
+        >
+          <Trash2 className="mr-2 h-3.5 w-3.5" />
+          Trash
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Trash
+            <Badge variant="secondary" className="text-xs">
+              {items.length}
+            </Badge>
+          </DialogTitle>
+          <DialogDescription>
+            Deleted sessions can be restored until they are permanently removed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[360px] overflow-y-auto space-y-2 pr-1">
+          {trashQuery.isLoading ? (
+            <div className="flex items-center gap-2 text-muted-foreground py-4">
+              <div className="h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent" />
+              <span className="text-sm">Loading trash...</span>
+            </div>
+          ) : items.length === 0 ? (
+            <p className="py-4 text-sm text-muted-foreground">
+              The trash is empty.
+            </p>
+          ) : (
+            items.map((g) => (
+              <div
+                key={g.id}
+                className="flex items-center gap-3 rounded-lg border bg-card p-3"
+              >
+                <div className="min-w-0 flex-1 space-y-1">
+                  <p className="text-sm font-medium truncate">
+                    {g.title ?? "Untitled Session"}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Deleted {new Date(g.deletedAt).toLocaleDateString()} ·
+                    removed for good on{" "}
+                    {new Date(g.purgeAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 px-2 text-xs flex-shrink-0"
+                  disabled={isRestoring}
+                  onClick={() =>
+                    restoreGraph({
+                      graphId: g.id,
+                      onSuccess: () => onRestored?.(g.id),
+                    })
+                  }
+                >
+                  <RotateCcw className="mr-1 h-3 w-3" />
+                  Restore
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import { useState } from "react";
+
+import { GitBranch, GitMerge, Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { type Branch, getBranchDisplayName } from "@/lib/utils/branch-tree";
+
+interface MergeBranchPopoverProps {
+  branches: Branch[];
+  currentBranchId: string;
+  onMerge: (sourceBranchId: string) => void;
+  isMerging?: boolean;
+}
+
+/**
+ * Pick another branch of the graph to merge into the current one. The merge
+ * itself is written by the model, so it can take a few seconds.
+ */
+export function MergeBranchPopover({
+  branches,
+  currentBranchId,
+  onMerge,
+  isMerging = false,
+}: MergeBranchPopoverProps) {
+  const [open, setOpen] = useState(false);
+  const candidates = branches.filter(
+    (b) => b.id !== currentBranchId && b.tipNodeId
+  );
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs text-muted-foreground"
+          title="Merge another branch into this one"
+          disabled={isMerging || candidates.length === 0}
+        >
+          {isMerging ? (
+            <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
+          ) : (
+            <GitMerge className="mr-1.5 h-3.5 w-3.5" />
+          )}
+          {isMerging ? "Merging..." : "Merge"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 p-2">
+        <p className="px-2 py-1.5 text-xs text-muted-foreground">
+          Merge into the current branch
+        </p>
+        <div className="max-h-64 overflow-y-auto">
+          {candidates.map((b) => (
+            <button
+              key={b.id}
+              type="button"
+              className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-accent"
+              onClick={() => {
+                onMerge(b.id);
+                setOpen(false);
+              }}
+            >
+              <GitBranch className="h-3.5 w-3.5 flex-shrink-0 text-muted-foreground" />
+              <span className="truncate">{getBranchDisplayName(b)}</span>
+            </button>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
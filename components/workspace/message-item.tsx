@@ -1,13 +1,23 @@
 "use client";
 
-import { GitBranch } from "lucide-react";
+import { useState } from "react";
+
+import { Copy, GitBranch, Pencil, RotateCcw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
 import { z } from "zod";
 
 import { MarkdownContent } from "@/components/markdown-content";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
 import { LinearResponse } from "@/lib/api/schemas/responses";
 import { ContextBlockSchema } from "@/lib/api/schemas/shared";
+import { type Branch } from "@/lib/utils/branch-tree";
+
+import { AttachBlockPopover } from "./attach-block-popover";
+import { BacklinksPopover } from "./backlinks-popover";
+import { CopyToBranchPopover } from "./copy-to-branch-popover";
 
 type TimelineItem = z.infer<typeof LinearResponse>["items"][number];
 type ContextBlock = z.infer<typeof ContextBlockSchema>;
@@ -24,6 +34,13 @@ function getBlockText(block: ContextBlock): string {
   return "";
 }
 
+// Short single-line preview of a referenced block
+function getExcerpt(block: ContextBlock, maxLength = 80): string {
+  const text = getBlockText(block).replace(/\s+/g, " ").trim();
+  if (text.length <= maxLength) return text;
+  return `${text.slice(0, maxLength - 1)}…`;
+}
+
 // Block type configuration - easily extensible for future types
 const blockTypeConfig = {
   user: {
@@ -39,6 +56,13 @@ const blockTypeConfig = {
     borderColor: "border-purple-500/30",
     icon: "🤖",
   },
+  summary: {
+    label: "Summary",
+    color:
+      "bg-amber-500/10 text-amber-700 dark:text-amber-300 border-amber-500/20",
+    borderColor: "border-amber-500/30",
+    icon: "📝",
+  },
 } as const;
 
 interface MessageItemProps {
@@ -46,6 +70,24 @@ interface MessageItemProps {
   onStartBranch?: (nodeId: string, messageText: string) => void;
   showBranchButton?: boolean;
   branchPointContent?: React.ReactNode;
+  bookmarkContent?: React.ReactNode;
+  pinContent?: React.ReactNode;
+  // Excerpts of the pinned messages that were in context for this answer
+  includedPins?: string[];
+  // Number of hand-picked messages this answer was generated from, if any
+  pickedContextCount?: number;
+  isPicked?: boolean;
+  // Set while picking context for the next send
+  onTogglePick?: () => void;
+  onAttachReference?: (blockId: string) => Promise<unknown>;
+  onRewind?: (nodeId: string) => void;
+  onDelete?: (nodeId: string) => void;
+  onEdit?: (text: string, regenerate: boolean) => void;
+  isEditPending?: boolean;
+  onNavigateToBranch?: (graphId: string, branchId: string) => void;
+  copyTargets?: Branch[];
+  copyIncludesReply?: boolean;
+  onCopyToBranch?: (branchId: string) => void;
 }
 
 export function MessageItem({
@@ -53,9 +95,42 @@ export function MessageItem({
   onStartBranch,
   showBranchButton = false,
   branchPointContent,
+  bookmarkContent,
+  pinContent,
+  includedPins = [],
+  pickedContextCount = 0,
+  isPicked = false,
+  onTogglePick,
+  onAttachReference,
+  onRewind,
+  onDelete,
+  onEdit,
+  isEditPending = false,
+  onNavigateToBranch,
+  copyTargets = [],
+  copyIncludesReply = false,
+  onCopyToBranch,
 }: MessageItemProps) {
   const blockType = item.block.kind;
   const config = blockTypeConfig[blockType];
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+
+  const startEditing = () => {
+    setDraft(getBlockText(item.block));
+    setIsEditing(true);
+  };
+
+  const submitEdit = (regenerate: boolean) => {
+    const text = draft.trim();
+    if (!text || !onEdit) return;
+    if (text === getBlockText(item.block).trim() && !regenerate) {
+      setIsEditing(false);
+      return;
+    }
+    onEdit(text, regenerate);
+    setIsEditing(false);
+  };
 
   return (
     <div
@@ -63,11 +138,20 @@ export function MessageItem({
         group/message rounded-xl border-2 transition-all duration-200
         bg-card hover:shadow-md relative
         ${config.borderColor}
+        ${isPicked ? "ring-2 ring-primary/50" : ""}
       `}
     >
       {/* Block Header - Type & Metadata */}
       <div className="flex items-center justify-between px-5 pt-4 pb-2 border-b border-border/50">
         <div className="flex items-center gap-2 flex-wrap">
+          {onTogglePick && (
+            <Checkbox
+              checked={isPicked}
+              onCheckedChange={onTogglePick}
+              aria-label="Use as context for the next message"
+              title="Use as context for the next message"
+            />
+          )}
           <Badge variant="outline" className={`font-semibold ${config.color}`}>
             <span className="mr-1.5">{config.icon}</span>
             {config.label}
@@ -84,9 +168,99 @@ export function MessageItem({
               📚 Public
             </Badge>
           )}
+
+          {includedPins.length > 0 && (
+            <Badge
+              variant="outline"
+              className="text-xs cursor-help"
+              title={`Pinned messages in context:\n${includedPins
+                .map((excerpt) => `• ${excerpt}`)
+                .join("\n")}`}
+            >
+              📌 {includedPins.length} pinned
+            </Badge>
+          )}
+
+          {pickedContextCount > 0 && (
+            <Badge
+              variant="outline"
+              className="text-xs"
+              title="Generated from hand-picked messages instead of the branch history"
+            >
+              🎯 {pickedContextCount} hand-picked
+            </Badge>
+          )}
         </div>
 
         <div className="flex items-center gap-2">
+          {/* Attach Block - only offered on the branch tip */}
+          {onAttachReference && (
+            <AttachBlockPopover onAttach={onAttachReference} />
+          )}
+          {/* Rewind - moves the branch tip back to this message */}
+          {onRewind && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onRewind(item.nodeId)}
+              className="opacity-0 group-hover/message:opacity-60 hover:!opacity-100 transition-opacity h-7 px-2 text-xs"
+              title="Rewind branch to here"
+            >
+              <RotateCcw className="mr-1.5 h-3.5 w-3.5" />
+              <span className="font-medium">Rewind to here</span>
+            </Button>
+          )}
+          {onCopyToBranch && copyTargets.length > 0 && (
+            <CopyToBranchPopover
+              branches={copyTargets}
+              includesReply={copyIncludesReply}
+              onCopy={onCopyToBranch}
+            />
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              void navigator.clipboard
+                .writeText(item.block.id)
+                .then(() => toast.success("Block id copied"));
+            }}
+            className="opacity-0 group-hover/message:opacity-60 hover:!opacity-100 transition-opacity h-7 w-7 p-0"
+            title="Copy block id"
+          >
+            <Copy className="h-3.5 w-3.5" />
+          </Button>
+          {pinContent}
+          {bookmarkContent}
+          {onNavigateToBranch && (
+            <BacklinksPopover
+              nodeId={item.nodeId}
+              onNavigate={onNavigateToBranch}
+            />
+          )}
+          {onEdit && !isEditing && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={startEditing}
+              disabled={isEditPending}
+              className="opacity-0 group-hover/message:opacity-60 hover:!opacity-100 transition-opacity h-7 w-7 p-0"
+              title="Edit message"
+            >
+              <Pencil className="h-3.5 w-3.5" />
+            </Button>
+          )}
+          {onDelete && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onDelete(item.nodeId)}
+              className="opacity-0 group-hover/message:opacity-60 hover:!opacity-100 hover:text-destructive transition-opacity h-7 w-7 p-0"
+              title="Delete message"
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          )}
           {/* Start Branch Button - Appears on hover with amber accent */}
           {showBranchButton && onStartBranch && (
             <Button
@@ -112,25 +286,74 @@ export function MessageItem({
 
       {/* Block Content */}
       <div className="px-5 py-4">
-        <MarkdownContent content={getBlockText(item.block)} />
+        {isEditing ? (
+          <div className="space-y-3">
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Escape") setIsEditing(false);
+                if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+                  e.preventDefault();
+                  submitEdit(false);
+                }
+              }}
+              className="min-h-[100px] resize-y"
+              autoFocus
+            />
+            <div className="flex items-center justify-end gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsEditing(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => submitEdit(false)}
+                disabled={!draft.trim()}
+              >
+                Save
+              </Button>
+              {item.block.kind === "user" && (
+                <Button
+                  size="sm"
+                  onClick={() => submitEdit(true)}
+                  disabled={!draft.trim()}
+                >
+                  Save & regenerate
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <MarkdownContent content={getBlockText(item.block)} />
+        )}
       </div>
 
       {/* References */}
       {item.references && item.references.length > 0 && (
-        <div className="flex flex-wrap gap-2 px-5 pb-4 pt-3 border-t border-border/50">
+        <div className="flex flex-col gap-2 px-5 pb-4 pt-3 border-t border-border/50">
           <span className="text-xs font-medium text-muted-foreground">
-            📎 References:
+            📎 References
           </span>
-          {item.references.map((ref, idx) => (
-            <span
-              key={ref.nodeId}
-              className="inline-flex items-center rounded-full bg-accent/50 border border-border px-3 py-1 text-xs font-medium text-foreground hover:bg-accent hover:border-primary hover:scale-105 transition-all duration-200 cursor-help animate-in fade-in zoom-in-95"
-              style={{ animationDelay: `${idx * 50}ms` }}
-              title={getBlockText(ref.block)}
-            >
-              {ref.block.kind === "user" ? "📄" : "🤖"} ref
-            </span>
-          ))}
+          <div className="flex flex-wrap gap-2">
+            {item.references.map((ref, idx) => (
+              <span
+                key={ref.nodeId}
+                className="inline-flex max-w-full items-center gap-1.5 rounded-full bg-accent/50 border border-border px-3 py-1 text-xs font-medium text-foreground hover:bg-accent hover:border-primary transition-all duration-200 cursor-help animate-in fade-in zoom-in-95"
+                style={{ animationDelay: `${idx * 50}ms` }}
+                title={getBlockText(ref.block)}
+              >
+                <span>{ref.block.kind === "user" ? "📄" : "🤖"}</span>
+                <span className="truncate">
+                  {getExcerpt(ref.block) || "Empty block"}
+                </span>
+              </span>
+            ))}
+          </div>
         </div>
       )}
 
@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from "react";
+
+import { useQuery } from "@tanstack/react-query";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { z } from "zod";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { GraphTrashResponse } from "@/lib/api/schemas/responses";
+import { QUERY_KEYS } from "@/lib/constants/query-keys";
+import { useNodeMutations } from "@/lib/hooks/use-node-mutations";
+import { stripMarkdown } from "@/lib/utils/strip-markdown";
+
+type GraphTrash = z.infer<typeof GraphTrashResponse>;
+
+interface NodeTrashPopoverProps {
+  graphId: string;
+}
+
+export function NodeTrashPopover({ graphId }: NodeTrashPopoverProps) {
+  const [open, setOpen] = useState(false);
+  const { restoreNode, isRestoring } = useNodeMutations();
+
+  const trashQuery = useQuery({
+    queryKey: QUERY_KEYS.graphTrash(graphId),
+    queryFn: async () => {
+      const res = await fetch(`/api/v1/graphs/${graphId}/trash?limit=50`);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      return (await res.json()) as GraphTrash;
+    },
+    enabled: open,
+  });
+
+  const items = trashQuery.data?.items ?? [];
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs text-muted-foreground"
+          title="Deleted messages"
+        >
+          <Trash2 className="mr-1.5 h-3.5 w-3.5" />
+          Trash
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b bg-muted/50">
+          <span className="font-semibold text-sm">Deleted messages</span>
+          <Badge variant="secondary" className="text-xs">
+            {items.length}
+          </Badge>
+        </div>
+        <div className="max-h-80 overflow-y-auto">
+          {trashQuery.isLoading ? (
+            <div className="flex items-center gap-2 text-muted-foreground p-4">
+              <div className="h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent" />
+              <span className="text-sm">Loading trash...</span>
+            </div>
+          ) : items.length === 0 ? (
+            <p className="p-4 text-sm text-muted-foreground">
+              No deleted messages in this session.
+            </p>
+          ) : (
+            <div className="p-2 space-y-2">
+              {items.map((item) => {
+                const content = item.block.content as { text?: string };
+                return (
+                  <div
+                    key={item.deletionId}
+                    className="flex items-start gap-3 rounded-lg border bg-card p-3"
+                  >
+                    <div className="min-w-0 flex-1 space-y-1">
+                      <p className="text-xs text-muted-foreground">
+                        {item.block.kind === "user" ? "👤" : "🤖"}{" "}
+                        {new Date(item.deletedAt).toLocaleString()}
+                      </p>
+                      <p className="text-sm line-clamp-2">
+                        {stripMarkdown(content?.text ?? "")}
+                      </p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 px-2 text-xs flex-shrink-0"
+                      disabled={isRestoring}
+                      onClick={() =>
+                        restoreNode({ graphId, nodeId: item.nodeId })
+                      }
+                    >
+                      <RotateCcw className="mr-1 h-3 w-3" />
+                      Restore
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { useState } from "react";
+
+import { Check, GitBranch, Pin } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { usePinMutations } from "@/lib/hooks/use-pin-mutations";
+import { cn } from "@/lib/utils";
+import { type Branch, getBranchDisplayName } from "@/lib/utils/branch-tree";
+
+interface PinPopoverProps {
+  graphId: string;
+  nodeId: string;
+  currentBranchId: string;
+  branches: Branch[];
+  // Branches this message is pinned to
+  pinnedBranchIds: string[];
+}
+
+/**
+ * Pin a message into the context of this or any other branch of the graph.
+ * Pinned messages always reach the model, ahead of the recent history.
+ */
+export function PinPopover({
+  graphId,
+  nodeId,
+  currentBranchId,
+  branches,
+  pinnedBranchIds,
+}: PinPopoverProps) {
+  const [open, setOpen] = useState(false);
+  const { pinNode, unpinNode, isPinning } = usePinMutations();
+  const pinnedHere = pinnedBranchIds.includes(currentBranchId);
+
+  // Current branch first, the rest in their usual order
+  const targets = [
+    ...branches.filter((b) => b.id === currentBranchId),
+    ...branches.filter((b) => b.id !== currentBranchId),
+  ];
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn(
+            "transition-opacity h-7 w-7 p-0",
+            pinnedHere
+              ? "opacity-100"
+              : "opacity-0 group-hover/message:opacity-60 hover:!opacity-100 data-[state=open]:opacity-100"
+          )}
+          title={pinnedHere ? "Pinned to this branch" : "Pin to context"}
+        >
+          <Pin
+            className={cn(
+              "h-3.5 w-3.5",
+              pinnedHere && "fill-current text-primary"
+            )}
+          />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 p-2">
+        <p className="px-2 py-1.5 text-xs text-muted-foreground">
+          Always include this message in the context of
+        </p>
+        <div className="max-h-64 overflow-y-auto">
+          {targets.map((b) => {
+            const pinned = pinnedBranchIds.includes(b.id);
+            return (
+              <button
+                key={b.id}
+                type="button"
+                disabled={isPinning}
+                className="flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-accent disabled:opacity-50"
+                onClick={() =>
+                  pinned
+                    ? unpinNode({ graphId, branchId: b.id, nodeId })
+                    : pinNode({ graphId, branchId: b.id, nodeId })
+                }
+              >
+                <GitBranch className="h-3.5 w-3.5 flex-shrink-0 text-muted-foreground" />
+                <span className="truncate flex-1">
+                  {getBranchDisplayName(b)}
+                  {b.id === currentBranchId && (
+                    <span className="text-muted-foreground">
+                      {" "}
+                      (this branch)
+                    </span>
+                  )}
+                </span>
+                {pinned && <Check className="h-3.5 w-3.5 text-primary" />}
+              </button>
+            );
+          })}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface RewindBranchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  branchName: string | null;
+  discardedCount: number;
+  onConfirm: () => void;
+  isRewinding?: boolean;
+}
+
+export function RewindBranchDialog({
+  open,
+  onOpenChange,
+  branchName,
+  discardedCount,
+  onConfirm,
+  isRewinding = false,
+}: RewindBranchDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Rewind Branch</DialogTitle>
+          <DialogDescription>
+            Move the tip of{" "}
+            <span className="font-semibold text-foreground">
+              {branchName || "this branch"}
+            </span>{" "}
+            back to this message? The {discardedCount}{" "}
+            {discardedCount === 1 ? "message" : "messages"} after it will no
+            longer be part of the branch. Other branches that contain them are
+            not affected.
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isRewinding}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => {
+              onConfirm();
+              onOpenChange(false);
+            }}
+            disabled={isRewinding}
+          >
+            {isRewinding ? "Rewinding..." : "Rewind Branch"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,12 +3,21 @@
 import { useEffect, useMemo, useState } from "react";
 
 import { UseQueryResult, useQueryClient } from "@tanstack/react-query";
-import { ChevronLeft, ChevronRight, MessageSquare, Trash2 } from "lucide-react";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Copy,
+  MessageSquare,
+  Pencil,
+  Sparkles,
+  Trash2,
+} from "lucide-react";
 import { z } from "zod";
 
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { DeleteGraphDialog } from "@/components/workspace/delete-graph-dialog";
+import { GraphTrashDialog } from "@/components/workspace/graph-trash-dialog";
 import { NewSessionDialog } from "@/components/workspace/new-session-dialog";
 import { GraphListSkeleton } from "@/components/workspace/skeleton-loaders";
 import {
@@ -72,10 +81,24 @@ export function Sidebar({
   const [hoveredGraphId, setHoveredGraphId] = useState<string | null>(null);
   const [deletingGraphId, setDeletingGraphId] = useState<string | null>(null);
   const [shouldAnimate, setShouldAnimate] = useState(true);
+  const [editingGraphId, setEditingGraphId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+  const [draftDescription, setDraftDescription] = useState("");
+  const [regeneratingGraphId, setRegeneratingGraphId] = useState<string | null>(
+    null
+  );
 
   const queryClient = useQueryClient();
-  const { createGraph, deleteGraph, isCreating, isDeleting } =
-    useGraphMutations();
+  const {
+    createGraph,
+    deleteGraph,
+    updateGraph,
+    cloneGraph,
+    isCreating,
+    isDeleting,
+    isUpdating,
+    isCloning,
+  } = useGraphMutations();
 
   const filteredGraphs = useMemo(() => {
     const items = graphsQuery.data?.items ?? [];
@@ -142,6 +165,42 @@ export function Sidebar({
     setDeleteDialogOpen(true);
   };
 
+  const handleEditClick = (e: React.MouseEvent, graph: GraphListItem) => {
+    e.stopPropagation();
+    setDraftTitle(graph.title ?? "");
+    setDraftDescription(graph.description ?? "");
+    setEditingGraphId(graph.id);
+  };
+
+  const handleEditSubmit = (graph: GraphListItem) => {
+    setEditingGraphId(null);
+    const title = draftTitle.trim();
+    const description = draftDescription.trim();
+    const titleChanged = title.length > 0 && title !== (graph.title ?? "");
+    const descriptionChanged = description !== (graph.description ?? "");
+    if (!titleChanged && !descriptionChanged) return;
+
+    updateGraph({
+      graphId: graph.id,
+      title: titleChanged ? title : undefined,
+      description: descriptionChanged ? description || null : undefined,
+    });
+  };
+
+  const handleRegenerateClick = (e: React.MouseEvent, graphId: string) => {
+    e.stopPropagation();
+    setRegeneratingGraphId(graphId);
+    updateGraph({ graphId, regenerateTitle: true });
+  };
+
+  const handleCloneClick = (e: React.MouseEvent, graphId: string) => {
+    e.stopPropagation();
+    cloneGraph({
+      graphId,
+      onSuccess: (data) => onSelectGraph(data.graph.id),
+    });
+  };
+
   const handleDeleteConfirm = () => {
     if (graphToDelete) {
       // Set deleting state for animation
@@ -273,9 +332,51 @@ export function Sidebar({
                   onMouseEnter={() => handleGraphHover(g.id)}
                   onMouseLeave={() => setHoveredGraphId(null)}
                 >
-                  <button
-                    onClick={() => onSelectGraph(g.id)}
-                    className={`
+                  {editingGraphId === g.id ? (
+                    <form
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        handleEditSubmit(g);
+                      }}
+                      onKeyDown={(e) => {
+                        if (e.key === "Escape") setEditingGraphId(null);
+                      }}
+                      className="space-y-1.5 rounded-lg border bg-card p-2"
+                    >
+                      <Input
+                        value={draftTitle}
+                        onChange={(e) => setDraftTitle(e.target.value)}
+                        placeholder="Session title"
+                        maxLength={120}
+                        className="h-8 text-sm"
+                        autoFocus
+                      />
+                      <Input
+                        value={draftDescription}
+                        onChange={(e) => setDraftDescription(e.target.value)}
+                        placeholder="Description (optional)"
+                        maxLength={2000}
+                        className="h-8 text-xs"
+                      />
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 text-xs"
+                          onClick={() => setEditingGraphId(null)}
+                        >
+                          Cancel
+                        </Button>
+                        <Button type="submit" size="sm" className="h-7 text-xs">
+                          Save
+                        </Button>
+                      </div>
+                    </form>
+                  ) : (
+                    <button
+                      onClick={() => onSelectGraph(g.id)}
+                      className={`
                     w-full text-left px-4 py-3 rounded-lg
                     transition-all duration-200
                     ${
@@ -284,40 +385,101 @@ export function Sidebar({
                         : "hover:bg-accent/50 text-foreground"
                     }
                   `}
-                  >
-                    <div className="font-medium truncate mb-1 pr-8">
-                      {g.title ?? "Untitled Session"}
-                    </div>
-                    <div className="text-xs opacity-70">
-                      {g.lastActivityAt
-                        ? new Date(g.lastActivityAt).toLocaleDateString()
-                        : "Recently"}
-                    </div>
-                  </button>
-                  {hoveredGraphId === g.id && (
-                    <button
-                      onClick={(e) => handleDeleteClick(e, g)}
-                      className={`
-                        absolute right-2 top-1/2 -translate-y-1/2
-                        p-2 rounded-md
-                        transition-all
+                    >
+                      <div className="font-medium truncate mb-1 pr-28">
+                        {regeneratingGraphId === g.id && isUpdating
+                          ? "Generating title..."
+                          : (g.title ?? "Untitled Session")}
+                      </div>
+                      {g.description && (
+                        <div className="text-xs opacity-80 truncate mb-1 pr-28">
+                          {g.description}
+                        </div>
+                      )}
+                      <div className="text-xs opacity-70">
+                        {g.lastActivityAt
+                          ? new Date(g.lastActivityAt).toLocaleDateString()
+                          : "Recently"}
+                      </div>
+                    </button>
+                  )}
+                  {hoveredGraphId === g.id && editingGraphId !== g.id && (
+                    <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center animate-in fade-in slide-in-from-right-2 duration-150">
+                      <button
+                        onClick={(e) => handleEditClick(e, g)}
+                        className={`
+                        p-1.5 rounded-md transition-all
+                        hover:scale-110 active:scale-95
+                        ${
+                          selectedGraphId === g.id
+                            ? "hover:bg-primary-foreground/20 text-primary-foreground"
+                            : "hover:bg-accent text-muted-foreground hover:text-foreground"
+                        }
+                      `}
+                        aria-label="Edit session"
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                      </button>
+                      <button
+                        onClick={(e) => handleRegenerateClick(e, g.id)}
+                        disabled={isUpdating}
+                        className={`
+                        p-1.5 rounded-md transition-all
+                        hover:scale-110 active:scale-95 disabled:opacity-50
+                        ${
+                          selectedGraphId === g.id
+                            ? "hover:bg-primary-foreground/20 text-primary-foreground"
+                            : "hover:bg-accent text-muted-foreground hover:text-foreground"
+                        }
+                      `}
+                        aria-label="Regenerate title"
+                        title="Regenerate title from current content"
+                      >
+                        <Sparkles className="h-3.5 w-3.5" />
+                      </button>
+                      <button
+                        onClick={(e) => handleCloneClick(e, g.id)}
+                        disabled={isCloning}
+                        className={`
+                        p-1.5 rounded-md transition-all
+                        hover:scale-110 active:scale-95 disabled:opacity-50
+                        ${
+                          selectedGraphId === g.id
+                            ? "hover:bg-primary-foreground/20 text-primary-foreground"
+                            : "hover:bg-accent text-muted-foreground hover:text-foreground"
+                        }
+                      `}
+                        aria-label="Duplicate session"
+                        title="Duplicate session"
+                      >
+                        <Copy className="h-3.5 w-3.5" />
+                      </button>
+                      <button
+                        onClick={(e) => handleDeleteClick(e, g)}
+                        className={`
+                        p-1.5 rounded-md transition-all
                         hover:scale-110 active:scale-95
-                        animate-in fade-in slide-in-from-right-2 duration-150
                         ${
                           selectedGraphId === g.id
                             ? "hover:bg-primary-foreground/20 text-primary-foreground"
                             : "hover:bg-destructive/10 text-muted-foreground hover:text-destructive"
                         }
                       `}
-                      aria-label="Delete session"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </button>
+                        aria-label="Delete session"
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </button>
+                    </div>
                   )}
                 </div>
               ))
             )}
           </div>
+
+          {/* Trash */}
+          <div className="pt-3 mt-3 border-t">
+            <GraphTrashDialog onRestored={onSelectGraph} />
+          </div>
         </div>
       </aside>
 
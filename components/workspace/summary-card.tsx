@@ -0,0 +1,59 @@
+"use client";
+
+import { useState } from "react";
+
+import { ChevronDown, ChevronRight, ScrollText } from "lucide-react";
+import { z } from "zod";
+
+import { MarkdownContent } from "@/components/markdown-content";
+import { Badge } from "@/components/ui/badge";
+import { SummaryItemSchema } from "@/lib/api/schemas/responses";
+
+type SummaryItem = z.infer<typeof SummaryItemSchema>;
+
+function getText(content: unknown): string {
+  if (content && typeof content === "object" && "text" in content) {
+    return String(content.text);
+  }
+  return "";
+}
+
+interface SummaryCardProps {
+  summary: SummaryItem;
+}
+
+/**
+ * Collapsed marker for a summary that replaces the messages above it when the
+ * model sees this branch; expands to the summary text.
+ */
+export function SummaryCard({ summary }: SummaryCardProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div className="my-4 rounded-lg border border-dashed border-amber-500/40 bg-amber-500/5">
+      <button
+        type="button"
+        onClick={() => setExpanded((prev) => !prev)}
+        className="flex w-full items-center gap-2 px-4 py-2.5 text-left"
+      >
+        {expanded ? (
+          <ChevronDown className="h-4 w-4 text-muted-foreground" />
+        ) : (
+          <ChevronRight className="h-4 w-4 text-muted-foreground" />
+        )}
+        <ScrollText className="h-4 w-4 text-amber-600 dark:text-amber-400" />
+        <span className="text-sm font-medium">
+          Summary of {summary.nodeCount} earlier messages
+        </span>
+        <Badge variant="outline" className="ml-auto text-[10px]">
+          Used as context
+        </Badge>
+      </button>
+      {expanded && (
+        <div className="border-t border-amber-500/20 px-4 py-3 text-sm animate-in fade-in slide-in-from-top-1 duration-200">
+          <MarkdownContent content={getText(summary.block.content)} />
+        </div>
+      )}
+    </div>
+  );
+}
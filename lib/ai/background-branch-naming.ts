@@ -26,13 +26,19 @@ export async function generateAndUpdateBranchName(
       with recursive backtrack(id, depth) as (
         select ${forkFromNodeId}::text as id, 0 as depth
         union all
-        select e."parentNodeId", backtrack.depth + 1
+        select p.id, backtrack.depth + 1
         from backtrack
-        join "BlockEdge" e on e."childNodeId" = backtrack.id
-        where e."graphId" = ${graphId} 
-          and e."relation" = 'follows' 
-          and e."deletedAt" is null
-          and backtrack.depth < 5
+        cross join lateral (
+          select e."parentNodeId" as id
+          from "BlockEdge" e
+          where e."childNodeId" = backtrack.id
+            and e."graphId" = ${graphId}
+            and e."relation" = 'follows'
+            and e."deletedAt" is null
+          order by coalesce(e."ord", 0), e."createdAt", e.id
+          limit 1
+        ) p
+        where backtrack.depth < 5
       )
       select id as "nodeId" 
       from backtrack
@@ -65,8 +71,9 @@ export async function generateAndUpdateBranchName(
 
     if (generatedName) {
       const uniqueName = await ensureUniqueBranchName(graphId, generatedName);
-      await prisma.branch.update({
-        where: { id: branchId },
+      // Skip if the user renamed the branch while the name was generating
+      await prisma.branch.updateMany({
+        where: { id: branchId, name: "Generating name..." },
         data: { name: uniqueName },
       });
       log.info({
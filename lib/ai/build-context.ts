@@ -1,72 +1,460 @@
 import { baseLogger } from "@/lib/api/logger";
-import { CONTEXT_MAX_NODES, CONTEXT_TOKEN_LIMIT } from "@/lib/config";
+import type {
+  ContextDropReason,
+  ContextStrategy as ContextStrategyName,
+} from "@/lib/api/schemas/enums";
+import {
+  CONTEXT_MAX_NODES,
+  CONTEXT_RETRIEVAL_MIN_SCORE,
+  CONTEXT_RETRIEVAL_TOKEN_SHARE,
+  CONTEXT_RETRIEVAL_TOP_K,
+  CONTEXT_TOKEN_LIMIT,
+} from "@/lib/config";
 import { prisma } from "@/lib/db";
+import type { BlockKind } from "@/lib/generated/prisma";
 
-import { BlockKind } from "../generated/prisma";
+import {
+  type ContextMessage,
+  countTokens,
+  messageTokens,
+} from "./context-messages";
+import {
+  CONTEXT_STRATEGIES,
+  resolveContextStrategy,
+  toContextGroup,
+} from "./context-strategies";
+import { retrieveRelated } from "./retrieval";
+import { summarizeOverflow } from "./summarize";
 
-// Rough but simple way to estimate tokens, if not available at the block
-const estimateTokens = (text: string) =>
-  Math.max(1, Math.ceil(text?.length ?? 0) / 4);
+/**
+ * One unit of model context: a message on the path, or a summary standing in
+ * for a span of them.
+ */
+export interface ContextEntry {
+  nodeId: string;
+  kind: BlockKind;
+  text: string;
+  tokens: number;
+  // Path nodes this entry represents, oldest first
+  coveredNodeIds: string[];
+}
 
-export async function buildSimpleContext(
+export interface BuiltContext {
+  // Oldest first, without the system prompt
+  messages: ContextMessage[];
+  // Pinned nodes that made it into the context, in prompt order
+  pinnedNodeIds: string[];
+  tokens: number;
+  strategy: ContextStrategyName;
+  // Nodes on the path, pinned or referenced that the model won't see
+  dropped: DroppedNode[];
+}
+
+export interface DroppedNode {
+  nodeId: string;
+  reason: ContextDropReason;
+}
+
+export interface BuildContextOptions {
+  // Overrides the graph's own strategy
+  strategy?: ContextStrategyName | null;
+  tokenLimit?: number;
+  maxNodes?: number;
+  // Read-only use: no background summarizing of an overflowing path, and
+  // retrieval works from stored embeddings only, embedding nothing
+  readOnly?: boolean;
+}
+
+// Context built from hand-picked nodes has no strategy
+export type SelectedContext = Omit<BuiltContext, "strategy"> & {
+  strategy: null;
+};
+
+export interface ContextPath {
+  graphId: string;
+  userId: string;
+  // Oldest first
+  entries: ContextEntry[];
+}
+
+/**
+ * Walk a branch's timeline back from its tip (first `follows` parents) and,
+ * unless `summaries` is off, substitute stored summaries for the spans they
+ * cover. Where summaries overlap, the one reaching furthest back wins.
+ */
+export async function loadContextPath(
   branchId: string,
-  tokenLimit = CONTEXT_TOKEN_LIMIT,
-  maxNodes = CONTEXT_MAX_NODES
-) {
-  try {
-    // Fetch up to 20 nodes walking backwards from branch tip
-    const rows = await prisma.$queryRawUnsafe<
-      Array<{
-        node_id: string;
-        depth: number;
-        kind: BlockKind;
-        content: { text: string };
-        token_count: number | null;
-      }>
-    >(
-      `
+  { summaries = true }: { summaries?: boolean } = {}
+): Promise<ContextPath | null> {
+  const branch = await prisma.branch.findUnique({
+    where: { id: branchId },
+    select: { graphId: true, graph: { select: { userId: true } } },
+  });
+  if (!branch) return null;
+
+  const rows = await prisma.$queryRawUnsafe<
+    Array<{
+      node_id: string;
+      depth: number;
+      kind: BlockKind;
+      content: { text: string };
+    }>
+  >(
+    `
     WITH RECURSIVE trail AS (
       SELECT b."graphId" AS graph_id, n.id AS node_id, 0 AS depth
       FROM "Branch" b
       JOIN "GraphNode" n ON n.id = b."tipNodeId"
       WHERE b.id = $1 AND n."hiddenAt" IS NULL
       UNION ALL
-      SELECT t.graph_id, e."parentNodeId", t.depth + 1
+      SELECT t.graph_id, p.parent_id, t.depth + 1
       FROM trail t
-      JOIN "BlockEdge" e
-        ON e."childNodeId" = t.node_id
-       AND e."graphId"     = t.graph_id
-       AND e."relation"    = 'follows'
-       AND e."deletedAt"   IS NULL
-      JOIN "GraphNode" pn
-        ON pn.id = e."parentNodeId"
-       AND pn."hiddenAt" IS NULL
+      -- Merge nodes have several parents: follow only the first one
+      CROSS JOIN LATERAL (
+        SELECT e."parentNodeId" AS parent_id
+        FROM "BlockEdge" e
+        JOIN "GraphNode" pn
+          ON pn.id = e."parentNodeId"
+         AND pn."hiddenAt" IS NULL
+        WHERE e."childNodeId" = t.node_id
+          AND e."graphId"     = t.graph_id
+          AND e."relation"    = 'follows'
+          AND e."deletedAt"   IS NULL
+        ORDER BY COALESCE(e."ord", 0), e."createdAt", e.id
+        LIMIT 1
+      ) p
       WHERE t.depth < 200
     )
-    SELECT t.node_id, t.depth, cb."kind", cb."content", cb."tokenCount" AS token_count
+    SELECT t.node_id, t.depth, cb."kind", cb."content"
     FROM trail t
     JOIN "GraphNode" gn ON gn.id = t.node_id
     JOIN "ContextBlock" cb ON cb.id = gn."blockId"
-    ORDER BY t.depth DESC
-    LIMIT $2;
+    ORDER BY t.depth ASC;
     `,
-      branchId,
-      maxNodes
+    branchId
+  );
+
+  const pathIds = rows.map((r) => r.node_id);
+  const depthOf = new Map(pathIds.map((id, depth) => [id, depth]));
+
+  const spans =
+    summaries && pathIds.length
+      ? await prisma.summarySpan.findMany({
+          where: {
+            graphId: branch.graphId,
+            endNodeId: { in: pathIds },
+            startNodeId: { in: pathIds },
+            summaryNode: { hiddenAt: null },
+          },
+          include: { summaryNode: { include: { block: true } } },
+          orderBy: { createdAt: "desc" },
+        })
+      : [];
+
+  // Newest first while walking; reversed at the end
+  const entries: ContextEntry[] = [];
+  let depth = 0;
+  while (depth < rows.length) {
+    const row = rows[depth];
+    const span = spans
+      .filter((s) => s.endNodeId === row.node_id)
+      .reduce<(typeof spans)[number] | null>((best, s) => {
+        const startDepth = depthOf.get(s.startNodeId) ?? -1;
+        if (startDepth < depth) return best;
+        if (!best || startDepth > (depthOf.get(best.startNodeId) ?? -1)) {
+          return s;
+        }
+        return best;
+      }, null);
+
+    if (span) {
+      const startDepth = depthOf.get(span.startNodeId)!;
+      const block = span.summaryNode.block;
+      const text = (block.content as { text?: string } | null)?.text ?? "";
+      entries.push({
+        nodeId: span.summaryNodeId,
+        kind: block.kind,
+        text,
+        tokens: messageTokens(text),
+        coveredNodeIds: pathIds.slice(depth, startDepth + 1).reverse(),
+      });
+      depth = startDepth + 1;
+      continue;
+    }
+
+    const text = row.content?.text ?? "";
+    entries.push({
+      nodeId: row.node_id,
+      kind: row.kind,
+      text,
+      tokens: messageTokens(text),
+      coveredNodeIds: [row.node_id],
+    });
+    depth += 1;
+  }
+
+  return {
+    graphId: branch.graphId,
+    userId: branch.graph.userId,
+    entries: entries.reverse(),
+  };
+}
+
+/**
+ * The branch's pinned nodes as context entries, oldest pin first. Deleted
+ * nodes are skipped until they are restored.
+ */
+export async function loadPinnedEntries(
+  branchId: string
+): Promise<ContextEntry[]> {
+  const pins = await prisma.nodePin.findMany({
+    where: { branchId, node: { hiddenAt: null } },
+    include: { node: { include: { block: true } } },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+  });
+
+  return pins.map(({ node }) => {
+    const text = (node.block.content as { text?: string } | null)?.text ?? "";
+    return {
+      nodeId: node.id,
+      kind: node.block.kind,
+      text,
+      tokens: messageTokens(text),
+      coveredNodeIds: [node.id],
+    };
+  });
+}
+
+/**
+ * Blocks attached as references to the given path nodes, keyed by the node
+ * they are attached to, in attachment order.
+ */
+async function loadReferences(
+  nodeIds: string[]
+): Promise<Map<string, ContextMessage[]>> {
+  const edges = nodeIds.length
+    ? await prisma.blockEdge.findMany({
+        where: {
+          parentNodeId: { in: nodeIds },
+          relation: "references",
+          deletedAt: null,
+          childNode: { hiddenAt: null },
+        },
+        include: { childNode: { include: { block: true } } },
+        orderBy: [{ ord: "asc" }, { createdAt: "asc" }],
+      })
+    : [];
+
+  const byNode = new Map<string, ContextMessage[]>();
+  for (const edge of edges) {
+    const block = edge.childNode.block;
+    const text = (block.content as { text?: string } | null)?.text ?? "";
+    byNode.set(edge.parentNodeId, [
+      ...(byNode.get(edge.parentNodeId) ?? []),
+      {
+        kind: "reference",
+        text,
+        tokens: messageTokens(text),
+        nodeId: edge.childNodeId,
+      },
+    ]);
+  }
+  return byNode;
+}
+
+/**
+ * Messages from other branches related to the newest user message on the
+ * path, best first, as many as fit the tokens. Retrieval failing, e.g. with
+ * the embedding provider down, only costs these messages, never the context.
+ */
+async function loadRetrieved(
+  path: ContextPath,
+  excludeNodeIds: string[],
+  tokens: number,
+  readOnly: boolean
+): Promise<ContextMessage[]> {
+  const query =
+    path.entries.findLast((e) => e.kind === "user") ?? path.entries.at(-1);
+  if (!query) return [];
+
+  try {
+    const related = await retrieveRelated(
+      path.graphId,
+      path.userId,
+      query.nodeId,
+      {
+        excludeNodeIds,
+        limit: CONTEXT_RETRIEVAL_TOP_K,
+        minScore: CONTEXT_RETRIEVAL_MIN_SCORE,
+        embed: !readOnly,
+        log: baseLogger,
+      }
+    );
+
+    const messages: ContextMessage[] = [];
+    let left = tokens;
+    for (const node of related) {
+      const nodeTokens = messageTokens(node.text);
+      if (nodeTokens > left) continue;
+      left -= nodeTokens;
+      messages.push({
+        kind: node.kind,
+        text: node.text,
+        tokens: nodeTokens,
+        nodeId: node.nodeId,
+        retrieved: true,
+      });
+    }
+    return messages;
+  } catch (error) {
+    baseLogger.warn({
+      event: "context_retrieval_failed",
+      graphId: path.graphId,
+      error,
+    });
+    return [];
+  }
+}
+
+function toMessage(entry: ContextEntry, pinned = false): ContextMessage {
+  return {
+    kind: entry.kind,
+    text: entry.text,
+    tokens: entry.tokens,
+    nodeId: entry.nodeId,
+    ...(pinned ? { pinned } : {}),
+  };
+}
+
+/**
+ * Pinned nodes first, then for the retrieval strategy related messages from
+ * other branches, then the path entries the context strategy picks, each
+ * followed by the blocks referenced from it. Every message counts against the
+ * token budget; pins, retrieved messages and references don't count against
+ * the node budget, and a pin that would overflow the budget on its own is
+ * left out. Retrieved messages get at most CONTEXT_RETRIEVAL_TOKEN_SHARE of
+ * what the pins leave. The newest entry is always part of the context, cut
+ * short if it has to be.
+ */
+export async function buildSimpleContext(
+  branchId: string,
+  {
+    strategy: requestedStrategy,
+    tokenLimit = CONTEXT_TOKEN_LIMIT,
+    maxNodes = CONTEXT_MAX_NODES,
+    readOnly = false,
+  }: BuildContextOptions = {}
+): Promise<BuiltContext> {
+  try {
+    const branch = await prisma.branch.findUnique({
+      where: { id: branchId },
+      select: { graph: { select: { contextStrategy: true } } },
+    });
+    const strategy = resolveContextStrategy(
+      requestedStrategy ?? branch?.graph.contextStrategy
     );
 
-    // Now we want to make sure the retrived 20 context blocks are within the token limit
+    const path = await loadContextPath(branchId, {
+      summaries: strategy.summaries,
+    });
+    if (!path) {
+      return {
+        messages: [],
+        pinnedNodeIds: [],
+        tokens: 0,
+        strategy: strategy.name,
+        dropped: [],
+      };
+    }
+
+    const pinnedEntries = await loadPinnedEntries(branchId);
+    const pinned: ContextMessage[] = [];
+    let pinnedTokens = 0;
+    for (const entry of pinnedEntries) {
+      if (pinnedTokens + entry.tokens > tokenLimit) continue;
+      pinnedTokens += entry.tokens;
+      pinned.push(toMessage(entry, true));
+    }
+    const pinnedIds = new Set(pinned.map((m) => m.nodeId));
 
-    let currentTokens = 0;
-    let context = "";
+    const references = await loadReferences(path.entries.map((e) => e.nodeId));
 
-    for (const r of rows) {
-      const blockTokens = r.token_count ?? estimateTokens(r.content.text);
+    // Pinned entries are already placed up front
+    const groups = path.entries
+      .filter((entry) => !pinnedIds.has(entry.nodeId))
+      .map((entry) =>
+        toContextGroup([
+          toMessage(entry),
+          ...(references.get(entry.nodeId) ?? []),
+        ])
+      );
 
-      currentTokens += blockTokens;
-      if (currentTokens <= tokenLimit) context += `${r.content?.text} \n`;
+    const retrieved = strategy.retrieval
+      ? await loadRetrieved(
+          path,
+          [
+            ...path.entries.flatMap((e) => e.coveredNodeIds),
+            ...pinnedEntries.map((e) => e.nodeId),
+            ...[...references.values()].flat().map((m) => m.nodeId!),
+          ],
+          Math.floor(
+            (tokenLimit - pinnedTokens) * CONTEXT_RETRIEVAL_TOKEN_SHARE
+          ),
+          readOnly
+        )
+      : [];
+    const retrievedTokens = countTokens(retrieved);
+
+    const selected = strategy.select(groups, {
+      tokens: tokenLimit - pinnedTokens - retrievedTokens,
+      nodes: maxNodes,
+    });
+
+    // Once the whole path no longer fits, compress its older part for next time
+    const totalTokens = path.entries.reduce((sum, e) => sum + e.tokens, 0);
+    if (!readOnly && strategy.summaries && totalTokens > tokenLimit) {
+      void summarizeOverflow(branchId, path, baseLogger);
     }
 
-    return context;
+    const messages = [
+      ...pinned,
+      ...retrieved,
+      ...selected.flatMap((g) => g.messages),
+    ];
+
+    // Everything else that could have been sent, first reason wins. A full
+    // node budget is what stopped the selection, if it was reached.
+    const included = new Set(messages.map((m) => m.nodeId));
+    const budgetReason: ContextDropReason =
+      selected.length >= maxNodes ? "node_budget" : "token_budget";
+    const dropped = new Map<string, ContextDropReason>();
+    for (const entry of path.entries) {
+      for (const nodeId of entry.coveredNodeIds) {
+        if (nodeId !== entry.nodeId) dropped.set(nodeId, "summarized");
+      }
+    }
+    for (const entry of pinnedEntries) {
+      if (!included.has(entry.nodeId) && !dropped.has(entry.nodeId)) {
+        dropped.set(entry.nodeId, "token_budget");
+      }
+    }
+    for (const message of groups.flatMap((g) => g.messages)) {
+      const nodeId = message.nodeId!;
+      if (!included.has(nodeId) && !dropped.has(nodeId)) {
+        dropped.set(nodeId, budgetReason);
+      }
+    }
+
+    return {
+      messages,
+      pinnedNodeIds: pinned.map((m) => m.nodeId!),
+      tokens: selected.reduce(
+        (sum, g) => sum + g.tokens,
+        pinnedTokens + retrievedTokens
+      ),
+      strategy: strategy.name,
+      dropped: [...dropped].map(([nodeId, reason]) => ({ nodeId, reason })),
+    };
   } catch (error) {
     baseLogger.error({
       event: "context_build_failed",
@@ -78,3 +466,80 @@ export async function buildSimpleContext(
     );
   }
 }
+
+/**
+ * Of the given node ids, those that can't be hand-picked as context for the
+ * branch: unknown, deleted, or in another graph.
+ */
+export async function findUnselectableNodes(
+  branchId: string,
+  nodeIds: string[]
+): Promise<string[]> {
+  const found = await prisma.graphNode.findMany({
+    where: {
+      id: { in: nodeIds },
+      hiddenAt: null,
+      graph: { branches: { some: { id: branchId } } },
+    },
+    select: { id: true },
+  });
+  const foundIds = new Set(found.map((n) => n.id));
+  return nodeIds.filter((id) => !foundIds.has(id));
+}
+
+/**
+ * Context from hand-picked nodes anywhere in the graph instead of the
+ * branch's own history, in the order given, each followed by the blocks
+ * referenced from it. The last node counts as the newest: it is always kept,
+ * and the earliest picks are the first to go when over the token budget.
+ * Pins don't apply; the picks are the whole context.
+ */
+export async function buildSelectedContext(
+  nodeIds: string[],
+  tokenLimit = CONTEXT_TOKEN_LIMIT
+): Promise<SelectedContext> {
+  const uniqueIds = [...new Set(nodeIds)];
+  const nodes = await prisma.graphNode.findMany({
+    where: { id: { in: uniqueIds }, hiddenAt: null },
+    include: { block: true },
+  });
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+
+  const references = await loadReferences(uniqueIds);
+  const groups = uniqueIds.flatMap((id) => {
+    const node = byId.get(id);
+    if (!node) return [];
+    const text = (node.block.content as { text?: string } | null)?.text ?? "";
+    return [
+      toContextGroup([
+        {
+          kind: node.block.kind,
+          text,
+          tokens: messageTokens(text),
+          nodeId: id,
+        },
+        ...(references.get(id) ?? []),
+      ]),
+    ];
+  });
+
+  const selected = CONTEXT_STRATEGIES.recent.select(groups, {
+    tokens: tokenLimit,
+    nodes: groups.length,
+  });
+  const messages = selected.flatMap((g) => g.messages);
+
+  const included = new Set(messages.map((m) => m.nodeId));
+  const dropped = groups
+    .flatMap((g) => g.messages)
+    .filter((m) => !included.has(m.nodeId))
+    .map((m) => ({ nodeId: m.nodeId!, reason: "token_budget" as const }));
+
+  return {
+    messages,
+    pinnedNodeIds: [],
+    tokens: selected.reduce((sum, g) => sum + g.tokens, 0),
+    strategy: null,
+    dropped,
+  };
+}
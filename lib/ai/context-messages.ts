@@ -0,0 +1,68 @@
+import type { EasyInputMessage } from "openai/resources/responses/responses";
+
+import type { ContextMessageKind } from "@/lib/api/schemas/enums";
+
+import { MESSAGE_OVERHEAD_TOKENS, countTextTokens } from "./tokenizer";
+
+export interface ContextMessage {
+  kind: ContextMessageKind;
+  text: string;
+  tokens: number;
+  // Node the message comes from; absent for the system prompt
+  nodeId?: string;
+  // Placed up front because the node is pinned to the branch
+  pinned?: boolean;
+  // Found on another branch by similarity to the latest message
+  retrieved?: boolean;
+  // Cut short to fit the token budget
+  truncated?: boolean;
+}
+
+/** Tokens a message with this text takes up in the model input. */
+export const messageTokens = (text: string) =>
+  countTextTokens(text) + MESSAGE_OVERHEAD_TOKENS;
+
+/** Total tokens of the messages, as accounted when they were selected. */
+export function countTokens(messages: ContextMessage[]): number {
+  return messages.reduce((sum, m) => sum + m.tokens, 0);
+}
+
+/**
+ * Role-tagged model input. Summaries, references, pinned and retrieved
+ * messages are app-supplied material out of conversation order, so they go in
+ * as labeled developer messages instead of being attributed to either side.
+ */
+export function toResponseInput(
+  messages: ContextMessage[]
+): EasyInputMessage[] {
+  return messages.map((m) => {
+    if (m.pinned) {
+      return {
+        role: "developer",
+        content: `Pinned ${m.kind} message, kept in context on purpose:\n\n${m.text}`,
+      };
+    }
+    if (m.retrieved) {
+      return {
+        role: "developer",
+        content: `Retrieved ${m.kind} message from another branch of this conversation, possibly relevant:\n\n${m.text}`,
+      };
+    }
+    switch (m.kind) {
+      case "system":
+        return { role: "system", content: m.text };
+      case "summary":
+        return {
+          role: "developer",
+          content: `Summary of earlier conversation:\n\n${m.text}`,
+        };
+      case "reference":
+        return {
+          role: "developer",
+          content: `Referenced block attached to the previous message:\n\n${m.text}`,
+        };
+      default:
+        return { role: m.kind, content: m.text };
+    }
+  });
+}
@@ -0,0 +1,165 @@
+import {
+  type ContextStrategy as ContextStrategyName,
+  ContextStrategySchema,
+} from "@/lib/api/schemas/enums";
+import { CONTEXT_HEAD_NODES, CONTEXT_STRATEGY } from "@/lib/config";
+
+import { type ContextMessage, messageTokens } from "./context-messages";
+import { MESSAGE_OVERHEAD_TOKENS, truncateToTokens } from "./tokenizer";
+
+/** A path entry followed by the blocks referenced from it. */
+export interface ContextGroup {
+  messages: ContextMessage[];
+  tokens: number;
+}
+
+export interface ContextBudget {
+  // Tokens left once pinned messages are placed
+  tokens: number;
+  // Most path entries to include
+  nodes: number;
+}
+
+export interface ContextStrategy {
+  name: ContextStrategyName;
+  // Whether stored summaries stand in for the spans of the path they cover,
+  // and an overflowing path gets its older part summarized for next time
+  summaries: boolean;
+  // Whether related messages from other branches of the graph are added
+  retrieval: boolean;
+  /**
+   * Groups to send, oldest first. Whenever there are groups at all, the
+   * newest one is part of the result.
+   */
+  select(groups: ContextGroup[], budget: ContextBudget): ContextGroup[];
+}
+
+export function toContextGroup(messages: ContextMessage[]): ContextGroup {
+  return {
+    messages,
+    tokens: messages.reduce((sum, m) => sum + m.tokens, 0),
+  };
+}
+
+/**
+ * The newest group, made to fit the budget: its references go first, then the
+ * message itself is cut down to what is left. It is never dropped outright,
+ * so the message just sent always reaches the model.
+ */
+function fitNewest(group: ContextGroup, tokens: number): ContextGroup {
+  if (group.tokens <= tokens) return group;
+
+  const [message] = group.messages;
+  if (message.tokens <= tokens) return toContextGroup([message]);
+
+  const text = truncateToTokens(
+    message.text,
+    Math.max(1, tokens - MESSAGE_OVERHEAD_TOKENS)
+  );
+  return toContextGroup([
+    { ...message, text, tokens: messageTokens(text), truncated: true },
+  ]);
+}
+
+/**
+ * The longest run of groups ending at the newest one that fits the budget,
+ * oldest first. Stops at the first group that doesn't fit, so the window has
+ * no gaps.
+ */
+function takeNewest(
+  groups: ContextGroup[],
+  budget: ContextBudget
+): ContextGroup[] {
+  const taken: ContextGroup[] = [];
+  let tokens = budget.tokens;
+  for (let i = groups.length - 1; i >= 0; i--) {
+    if (taken.length >= budget.nodes || groups[i].tokens > tokens) break;
+    tokens -= groups[i].tokens;
+    taken.unshift(groups[i]);
+  }
+  return taken;
+}
+
+function selectRecent(
+  groups: ContextGroup[],
+  budget: ContextBudget
+): ContextGroup[] {
+  if (groups.length === 0) return [];
+  const newest = fitNewest(groups[groups.length - 1], budget.tokens);
+  const rest = takeNewest(groups.slice(0, -1), {
+    tokens: budget.tokens - newest.tokens,
+    nodes: budget.nodes - 1,
+  });
+  return [...rest, newest];
+}
+
+function selectHeadTail(
+  groups: ContextGroup[],
+  budget: ContextBudget
+): ContextGroup[] {
+  if (groups.length === 0) return [];
+  const newest = fitNewest(groups[groups.length - 1], budget.tokens);
+  let tokens = budget.tokens - newest.tokens;
+  let nodes = budget.nodes - 1;
+
+  // Opening messages usually set up the task, so they come next
+  const head: ContextGroup[] = [];
+  for (const group of groups.slice(
+    0,
+    Math.min(CONTEXT_HEAD_NODES, groups.length - 1)
+  )) {
+    if (nodes <= 0 || group.tokens > tokens) break;
+    tokens -= group.tokens;
+    nodes -= 1;
+    head.push(group);
+  }
+
+  const tail = takeNewest(groups.slice(head.length, -1), { tokens, nodes });
+  return [...head, ...tail, newest];
+}
+
+export const CONTEXT_STRATEGIES: Record<ContextStrategyName, ContextStrategy> =
+  {
+    // The latest messages verbatim; older history simply falls off
+    recent: {
+      name: "recent",
+      summaries: false,
+      retrieval: false,
+      select: selectRecent,
+    },
+    // The opening messages plus the latest ones, skipping the middle
+    head_tail: {
+      name: "head_tail",
+      summaries: false,
+      retrieval: false,
+      select: selectHeadTail,
+    },
+    // Summaries of older spans followed by the latest messages verbatim
+    summary_recent: {
+      name: "summary_recent",
+      summaries: true,
+      retrieval: false,
+      select: selectRecent,
+    },
+    // Summary+recent, plus the messages from other branches most related to
+    // the latest one
+    retrieval: {
+      name: "retrieval",
+      summaries: true,
+      retrieval: true,
+      select: selectRecent,
+    },
+  };
+
+/**
+ * The strategy to build context with: the requested one, else the configured
+ * default, else summary+recent.
+ */
+export function resolveContextStrategy(
+  name?: ContextStrategyName | null
+): ContextStrategy {
+  const fallback = ContextStrategySchema.safeParse(CONTEXT_STRATEGY);
+  return CONTEXT_STRATEGIES[
+    name ?? (fallback.success ? fallback.data : "summary_recent")
+  ];
+}
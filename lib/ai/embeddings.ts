@@ -0,0 +1,112 @@
+import { openai } from "@/lib/ai/openai";
+import { EMBEDDING_MODEL, EMBEDDING_PROVIDER } from "@/lib/config";
+
+import { truncateToTokens } from "./tokenizer";
+
+export interface Embeddings {
+  // One unit-length vector per text, in the same order
+  vectors: number[][];
+  // Billable tokens the request used; 0 for local providers
+  tokens: number;
+}
+
+export interface EmbeddingProvider {
+  // Stored with every vector; vectors of different models never compare
+  model: string;
+  embed(texts: string[]): Promise<Embeddings>;
+}
+
+// Longest input the OpenAI embedding models accept, in tokens
+const OPENAI_MAX_INPUT_TOKENS = 8000;
+
+// Texts per embeddings request
+const OPENAI_BATCH_SIZE = 100;
+
+export function createOpenAIEmbeddings(
+  model = EMBEDDING_MODEL
+): EmbeddingProvider {
+  return {
+    model,
+    async embed(texts) {
+      const vectors: number[][] = [];
+      let tokens = 0;
+      for (let i = 0; i < texts.length; i += OPENAI_BATCH_SIZE) {
+        const response = await openai.embeddings.create({
+          model,
+          input: texts
+            .slice(i, i + OPENAI_BATCH_SIZE)
+            .map((text) => truncateToTokens(text, OPENAI_MAX_INPUT_TOKENS)),
+        });
+        vectors.push(
+          ...response.data
+            .sort((a, b) => a.index - b.index)
+            .map((d) => d.embedding)
+        );
+        tokens += response.usage.total_tokens;
+      }
+      return { vectors, tokens };
+    },
+  };
+}
+
+// 32-bit FNV-1a, stable across runs and platforms
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map((v) => v / norm) : vector;
+}
+
+/**
+ * Hashed bag of words and word pairs. Far weaker than a trained model, but
+ * deterministic and offline: texts sharing vocabulary land close together,
+ * which is enough for tests and for running without an API key.
+ */
+export function createLocalEmbeddings(dimensions = 256): EmbeddingProvider {
+  const embedOne = (text: string): number[] => {
+    const vector = new Array<number>(dimensions).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    const features = [
+      ...words,
+      ...words.slice(1).map((word, i) => `${words[i]} ${word}`),
+    ];
+    for (const feature of features) {
+      const hash = fnv1a(feature);
+      // The top bit picks the sign so unrelated features tend to cancel out
+      vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+    }
+    return normalize(vector);
+  };
+
+  return {
+    model: `local-hash-${dimensions}`,
+    embed: async (texts) => ({ vectors: texts.map(embedOne), tokens: 0 }),
+  };
+}
+
+/** The provider configured by EMBEDDING_PROVIDER. */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  return EMBEDDING_PROVIDER === "local"
+    ? createLocalEmbeddings()
+    : createOpenAIEmbeddings();
+}
+
+/** Cosine similarity of two vectors of equal length. */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
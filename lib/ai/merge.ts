@@ -0,0 +1,64 @@
+import { openai } from "@/lib/ai/openai";
+import { OPENAI_MODEL } from "@/lib/config";
+
+import { type Message } from "./naming";
+
+// Longest single message forwarded to the model, in characters
+const MAX_MESSAGE_CHARS = 2000;
+
+// Merge blocks are stored like any other message (8000 chars max per schema)
+const MAX_MERGE_CHARS = 8000;
+
+export interface MergeTextInput {
+  targetName: string;
+  sourceName: string;
+  shared: Message[];
+  target: Message[];
+  source: Message[];
+  model?: string;
+}
+
+export interface MergeTextResult {
+  text: string;
+  model: string;
+  tokenCount: number | null;
+}
+
+function formatTranscript(messages: Message[]): string {
+  if (messages.length === 0) return "(no messages)";
+  return messages
+    .map(
+      (msg) =>
+        `${msg.role === "user" ? "User" : "Assistant"}: ${msg.content.slice(0, MAX_MESSAGE_CHARS)}`
+    )
+    .join("\n\n");
+}
+
+/**
+ * Ask the model to reconcile two conversation branches that diverged from a
+ * common point. The result becomes the merge block that follows both tips.
+ */
+export async function generateMergeText(
+  input: MergeTextInput
+): Promise<MergeTextResult> {
+  const model = input.model ?? OPENAI_MODEL;
+
+  const prompt = [
+    "You are merging two branches of the same conversation. Both branches start from the shared context below and then diverge.",
+    "Write a single reply that reconciles them: keep the conclusions, facts and decisions from both branches, point out where they disagree and state which view holds up (or that it is unresolved). Write it so the conversation can continue from it without reading either branch. Do not mention that you were asked to merge.",
+    `## Shared context\n\n${formatTranscript(input.shared)}`,
+    `## Branch "${input.targetName}" (continues here)\n\n${formatTranscript(input.target)}`,
+    `## Branch "${input.sourceName}" (merged in)\n\n${formatTranscript(input.source)}`,
+  ].join("\n\n---\n\n");
+
+  const response = await openai.responses.create({ model, input: prompt });
+
+  const text = response.output_text?.trim();
+  if (!text) throw new Error("Model returned an empty merge");
+
+  return {
+    text: text.slice(0, MAX_MERGE_CHARS),
+    model: response.model ?? model,
+    tokenCount: response.usage?.output_tokens ?? null,
+  };
+}
@@ -49,6 +49,56 @@ export async function generateGraphName(
   }
 }
 
+/**
+ * Generate a concise graph title from an existing conversation using LLM.
+ * Used when the user asks to regenerate a title. Returns null if generation
+ * fails.
+ */
+export async function generateGraphTitle(
+  messages: Message[]
+): Promise<string | null> {
+  try {
+    const transcript = messages
+      .map(
+        (msg) =>
+          `${msg.role === "user" ? "User" : "Assistant"}: ${msg.content.slice(0, 500)}`
+      )
+      .join("\n");
+
+    const response = await openai.chat.completions.create({
+      model: "gpt-4o-mini",
+      messages: [
+        {
+          role: "system",
+          content:
+            "You are a helpful assistant that generates concise, descriptive titles for conversations. Generate a 3-4 word title that captures the overall topic of the conversation so far. Do not use quotes or special formatting. Just return the plain title.",
+        },
+        {
+          role: "user",
+          content: `Generate a concise title for this conversation:\n\n${transcript}`,
+        },
+      ],
+      temperature: 0.7,
+      max_tokens: 50,
+    });
+
+    const generatedName = response.choices[0]?.message?.content?.trim();
+    if (!generatedName) {
+      baseLogger.error({ event: "empty_graph_title" });
+      return null;
+    }
+
+    // Remove quotes if the LLM added them
+    const cleanedName = generatedName.replace(/^["']|["']$/g, "");
+
+    // Ensure it's not too long (max 120 chars per schema)
+    return cleanedName.slice(0, 120);
+  } catch (error) {
+    baseLogger.error({ event: "graph_title_generation_failed", error });
+    return null;
+  }
+}
+
 /**
  * Generate a concise branch name from recent conversation context using LLM.
  * Returns null if generation fails.
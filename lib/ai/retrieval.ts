@@ -0,0 +1,245 @@
+import { createHash } from "crypto";
+
+import { type Logger } from "@/lib/api/logger";
+import { checkQuota, recordTokenUsage } from "@/lib/api/quota";
+import { prisma } from "@/lib/db";
+import type { BlockKind } from "@/lib/generated/prisma";
+
+import {
+  type EmbeddingProvider,
+  cosineSimilarity,
+  getEmbeddingProvider,
+} from "./embeddings";
+
+// Most recent messages of a graph considered for retrieval, and embedded per
+// indexing run, to bound the work on very large graphs
+const MAX_CANDIDATES = 500;
+
+// Graphs with an indexing run in flight, so concurrent writes don't embed the
+// same blocks twice
+const indexingInFlight = new Set<string>();
+
+export interface RetrievedNode {
+  nodeId: string;
+  kind: BlockKind;
+  text: string;
+  score: number;
+}
+
+export interface RetrieveOptions {
+  // Nodes already in context; blocks they show are never retrieved again
+  excludeNodeIds: string[];
+  limit: number;
+  minScore: number;
+  // Embed the query when it has no stored vector yet, and index the graph's
+  // missing blocks in the background; off for read-only use, which then
+  // works from stored vectors only
+  embed?: boolean;
+  log?: Logger;
+  provider?: EmbeddingProvider;
+}
+
+const textHash = (text: string) =>
+  createHash("sha256").update(text).digest("hex");
+
+const blockText = (content: unknown) =>
+  (content as { text?: string } | null)?.text ?? "";
+
+/**
+ * The graph's visible user and assistant messages, newest first, each with
+ * its block's stored vector under the provider's model if that is current.
+ */
+async function loadIndexedBlocks(
+  graphId: string,
+  provider: EmbeddingProvider,
+  excludeNodeIds: string[] = []
+) {
+  const nodes = await prisma.graphNode.findMany({
+    where: {
+      graphId,
+      hiddenAt: null,
+      id: { notIn: excludeNodeIds },
+      block: { kind: { in: ["user", "assistant"] } },
+    },
+    include: {
+      block: {
+        include: { embeddings: { where: { model: provider.model } } },
+      },
+    },
+    orderBy: { block: { createdAt: "desc" } },
+    take: MAX_CANDIDATES,
+  });
+
+  return nodes.flatMap((node) => {
+    const text = blockText(node.block.content);
+    if (!text.trim()) return [];
+    const [embedding] = node.block.embeddings;
+    return [
+      {
+        nodeId: node.id,
+        blockId: node.blockId,
+        kind: node.block.kind,
+        text,
+        vector:
+          embedding?.textHash === textHash(text) ? embedding.vector : null,
+      },
+    ];
+  });
+}
+
+/**
+ * Embed the blocks and store the vectors under the provider's model, billing
+ * the tokens to the user. Returns the vectors by block id.
+ */
+export async function embedBlocks(
+  userId: string,
+  blocks: { id: string; text: string }[],
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<Map<string, number[]>> {
+  if (blocks.length === 0) return new Map();
+
+  const { vectors, tokens } = await provider.embed(blocks.map((b) => b.text));
+  await recordTokenUsage(userId, tokens);
+  await prisma.$transaction(
+    blocks.map((block, i) => {
+      const data = { textHash: textHash(block.text), vector: vectors[i] };
+      return prisma.blockEmbedding.upsert({
+        where: {
+          blockId_model: { blockId: block.id, model: provider.model },
+        },
+        create: { blockId: block.id, model: provider.model, ...data },
+        update: data,
+      });
+    })
+  );
+  return new Map(blocks.map((block, i) => [block.id, vectors[i]]));
+}
+
+/**
+ * Embed the graph's messages that have no current vector yet. Runs in the
+ * background after writes; skipped while the user is out of quota, and
+ * failures are logged and picked up by the next run.
+ */
+export async function indexGraphEmbeddings(
+  graphId: string,
+  userId: string,
+  log: Logger,
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<void> {
+  if (indexingInFlight.has(graphId)) return;
+
+  indexingInFlight.add(graphId);
+  try {
+    const quota = await checkQuota(userId);
+    if (quota.remaining <= 0) return;
+
+    const missing = new Map<string, string>();
+    for (const block of await loadIndexedBlocks(graphId, provider)) {
+      if (!block.vector) missing.set(block.blockId, block.text);
+    }
+    if (missing.size === 0) return;
+
+    await embedBlocks(
+      userId,
+      [...missing].map(([id, text]) => ({ id, text })),
+      provider
+    );
+    log.info({
+      event: "embeddings_indexed",
+      graphId,
+      blockCount: missing.size,
+    });
+  } catch (error) {
+    log.error({ event: "embeddings_index_failed", graphId, error });
+  } finally {
+    indexingInFlight.delete(graphId);
+  }
+}
+
+/**
+ * Messages elsewhere in the graph most similar to the query node, best
+ * first. Only user and assistant messages with a stored vector qualify, and a
+ * block reachable through several nodes is returned once.
+ */
+export async function retrieveRelated(
+  graphId: string,
+  userId: string,
+  queryNodeId: string,
+  {
+    excludeNodeIds,
+    limit,
+    minScore,
+    embed = true,
+    log,
+    provider = getEmbeddingProvider(),
+  }: RetrieveOptions
+): Promise<RetrievedNode[]> {
+  if (limit <= 0) return [];
+
+  const query = await prisma.graphNode.findUnique({
+    where: { id: queryNodeId },
+    include: {
+      block: {
+        include: { embeddings: { where: { model: provider.model } } },
+      },
+    },
+  });
+  const queryText = blockText(query?.block.content);
+  if (!query || !queryText.trim()) return [];
+
+  const [stored] = query.block.embeddings;
+  let queryVector =
+    stored?.textHash === textHash(queryText) ? stored.vector : null;
+  if (!queryVector && embed) {
+    const embedded = await embedBlocks(
+      userId,
+      [{ id: query.blockId, text: queryText }],
+      provider
+    );
+    queryVector = embedded.get(query.blockId) ?? null;
+  }
+
+  const excluded = await prisma.graphNode.findMany({
+    where: { id: { in: excludeNodeIds } },
+    select: { blockId: true },
+  });
+  const excludedBlockIds = new Set(excluded.map((n) => n.blockId));
+
+  const candidates = new Map<string, RetrievedNode & { vector: number[] }>();
+  let unindexed = 0;
+  for (const block of await loadIndexedBlocks(
+    graphId,
+    provider,
+    excludeNodeIds
+  )) {
+    if (excludedBlockIds.has(block.blockId)) continue;
+    if (candidates.has(block.blockId)) continue;
+    if (!block.vector) {
+      unindexed += 1;
+      continue;
+    }
+    candidates.set(block.blockId, {
+      nodeId: block.nodeId,
+      kind: block.kind,
+      text: block.text,
+      score: 0,
+      vector: block.vector,
+    });
+  }
+
+  // Messages written before the graph was indexed become retrievable once
+  // the background run catches up
+  if (unindexed > 0 && embed && log) {
+    void indexGraphEmbeddings(graphId, userId, log, provider);
+  }
+  if (!queryVector) return [];
+
+  return [...candidates.values()]
+    .map(({ vector, ...c }) => ({
+      ...c,
+      score: cosineSimilarity(queryVector, vector),
+    }))
+    .filter((c) => c.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
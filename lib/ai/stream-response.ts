@@ -1,9 +1,15 @@
+import {
+  type ContextMessage,
+  countTokens,
+  toResponseInput,
+} from "@/lib/ai/context-messages";
 import { openai } from "@/lib/ai/openai";
 import { type Logger } from "@/lib/api/logger";
 import { OPENAI_MODEL } from "@/lib/config";
 
 export interface StreamResponseOptions {
-  context: string;
+  // Oldest first, system prompt included
+  messages: ContextMessage[];
   model?: string;
   onDelta?: (chunk: string) => void;
   log: Logger;
@@ -24,7 +30,7 @@ export async function streamOpenAIResponse(
   options: StreamResponseOptions
 ): Promise<StreamResponseResult> {
   const {
-    context,
+    messages,
     model: requestedModel,
     onDelta,
     log,
@@ -32,7 +38,7 @@ export async function streamOpenAIResponse(
   } = options;
 
   const model = requestedModel ?? OPENAI_MODEL;
-  const input = context; // context is already built with system prompt
+  const input = toResponseInput(messages);
 
   let accumulatedResponse = "";
   let finalAssistantResponse = "";
@@ -47,6 +53,12 @@ export async function streamOpenAIResponse(
 
   let streamedDeltas = 0;
 
+  // Per-kind estimate next to the count the model reports on completion
+  const tokensByKind: Record<string, number> = {};
+  for (const m of messages) {
+    tokensByKind[m.kind] = (tokensByKind[m.kind] ?? 0) + m.tokens;
+  }
+
   for await (const event of stream) {
     switch (event.type) {
       case "response.output_text.delta": {
@@ -79,6 +91,10 @@ export async function streamOpenAIResponse(
         log.info({
           event: "model_completed",
           durationMs: Date.now() - requestStartedAt,
+          inputMessages: messages.length,
+          estimatedInputTokens: countTokens(messages),
+          estimatedTokensByKind: tokensByKind,
+          inputTokens: event.response?.usage?.input_tokens ?? null,
         });
         break;
       }
@@ -0,0 +1,184 @@
+import { openai } from "@/lib/ai/openai";
+import { type Logger } from "@/lib/api/logger";
+import { checkQuota, recordTokenUsage } from "@/lib/api/quota";
+import { OPENAI_MODEL, SUMMARY_KEEP_RECENT_NODES } from "@/lib/config";
+import { prisma } from "@/lib/db";
+import type { ContextBlock, Prisma } from "@/lib/generated/prisma";
+
+import type { ContextEntry, ContextPath } from "./build-context";
+import { type Message } from "./naming";
+
+// Longest single message forwarded to the model, in characters
+const MAX_MESSAGE_CHARS = 4000;
+
+// Summary blocks are stored like any other message (8000 chars max per schema)
+const MAX_SUMMARY_CHARS = 8000;
+
+export interface CreatedSummary {
+  nodeId: string;
+  startNodeId: string;
+  endNodeId: string;
+  nodeCount: number;
+  block: ContextBlock;
+  createdAt: Date;
+}
+
+// Branches with an automatic summary in flight, so concurrent sends don't
+// summarize the same history twice
+const autoSummaryInFlight = new Set<string>();
+
+function toMessage(entry: ContextEntry): Message {
+  if (entry.kind === "summary") {
+    return {
+      role: "assistant",
+      content: `(Summary of earlier messages) ${entry.text}`,
+    };
+  }
+  return {
+    role: entry.kind === "user" ? "user" : "assistant",
+    content: entry.text,
+  };
+}
+
+/**
+ * Ask the model to compress a run of messages into a summary that can stand
+ * in for them in later prompts.
+ */
+export async function generateSummaryText(
+  messages: Message[],
+  model: string = OPENAI_MODEL
+): Promise<{ text: string; model: string; tokenCount: number | null }> {
+  const transcript = messages
+    .map(
+      (msg) =>
+        `${msg.role === "user" ? "User" : "Assistant"}: ${msg.content.slice(0, MAX_MESSAGE_CHARS)}`
+    )
+    .join("\n\n");
+
+  const prompt = [
+    "Summarize the conversation below so it can replace these messages as context for the rest of the conversation.",
+    'Keep every fact, decision, constraint, open question and piece of code or data the user may refer back to. Drop pleasantries and repetition. Write in the third person ("The user asked..."), as compact markdown.',
+    `## Conversation\n\n${transcript}`,
+  ].join("\n\n---\n\n");
+
+  const response = await openai.responses.create({ model, input: prompt });
+
+  const text = response.output_text?.trim();
+  if (!text) throw new Error("Model returned an empty summary");
+
+  return {
+    text: text.slice(0, MAX_SUMMARY_CHARS),
+    model: response.model ?? model,
+    tokenCount: response.usage?.output_tokens ?? null,
+  };
+}
+
+/**
+ * The oldest context entries that may be folded into a summary: everything
+ * but the most recent `keepRecent`. Null when fewer than two entries qualify,
+ * since summarizing a single entry saves nothing.
+ */
+export function pickSummarySpan(
+  entries: ContextEntry[],
+  keepRecent: number = SUMMARY_KEEP_RECENT_NODES
+): ContextEntry[] | null {
+  const span = entries.slice(0, Math.max(0, entries.length - keepRecent));
+  return span.length >= 2 ? span : null;
+}
+
+/**
+ * Generate a summary of `span` (context entries, oldest first) and store it as
+ * a `summary` block on its own graph node, linked to the path nodes it covers.
+ * Token usage is recorded against `userId`.
+ */
+export async function createSummary(
+  graphId: string,
+  userId: string,
+  span: ContextEntry[]
+): Promise<CreatedSummary> {
+  const covered = span.flatMap((e) => e.coveredNodeIds);
+  if (covered.length === 0) throw new Error("Nothing to summarize");
+
+  const { text, model, tokenCount } = await generateSummaryText(
+    span.map(toMessage)
+  );
+
+  const result = await prisma.$transaction(async (tx) => {
+    const block = await tx.contextBlock.create({
+      data: {
+        userId,
+        kind: "summary",
+        content: { text } as unknown as Prisma.InputJsonValue,
+        model,
+        tokenCount,
+        public: false,
+      },
+    });
+    const node = await tx.graphNode.create({
+      data: { graphId, blockId: block.id },
+    });
+    const summary = await tx.summarySpan.create({
+      data: {
+        graphId,
+        summaryNodeId: node.id,
+        startNodeId: covered[0],
+        endNodeId: covered[covered.length - 1],
+        nodeCount: covered.length,
+      },
+    });
+
+    return {
+      nodeId: node.id,
+      startNodeId: summary.startNodeId,
+      endNodeId: summary.endNodeId,
+      nodeCount: summary.nodeCount,
+      block,
+      createdAt: summary.createdAt,
+    };
+  });
+
+  if (tokenCount && tokenCount > 0) {
+    await recordTokenUsage(userId, tokenCount);
+  }
+
+  return result;
+}
+
+/**
+ * Fold the older part of a branch's context into a summary once the path no
+ * longer fits the token budget. Runs in the background; failures are logged
+ * and the next request simply tries again.
+ */
+export async function summarizeOverflow(
+  branchId: string,
+  path: ContextPath,
+  log: Logger
+): Promise<void> {
+  if (autoSummaryInFlight.has(branchId)) return;
+
+  const span = pickSummarySpan(path.entries);
+  if (!span) return;
+
+  // Wait until enough new messages piled up instead of re-summarizing the
+  // previous summary on every turn
+  const unsummarized = span.filter((e) => e.kind !== "summary").length;
+  if (unsummarized < SUMMARY_KEEP_RECENT_NODES) return;
+
+  autoSummaryInFlight.add(branchId);
+  try {
+    const quota = await checkQuota(path.userId);
+    if (quota.remaining <= 0) return;
+
+    const summary = await createSummary(path.graphId, path.userId, span);
+    log.info({
+      event: "auto_summary_created",
+      branchId,
+      summaryNodeId: summary.nodeId,
+      nodeCount: summary.nodeCount,
+    });
+  } catch (error) {
+    log.error({ event: "auto_summary_failed", branchId, error });
+  } finally {
+    autoSummaryInFlight.delete(branchId);
+  }
+}
@@ -1,3 +1,4 @@
+import { type ContextMessage, messageTokens } from "@/lib/ai/context-messages";
 import { getLangfuseClient } from "@/lib/ai/langfuse-client";
 import { baseLogger } from "@/lib/api/logger";
 import {
@@ -57,17 +58,22 @@ Each response you create becomes a permanent node in the conversation tree. User
 
 When uncertain, be honest - users can always branch to explore alternatives. That's the beauty of this platform.
 
-You're not just answering questions; you're creating pathways through a garden of forking paths. Make each one worthwhile.
+You're not just answering questions; you're creating pathways through a garden of forking paths. Make each one worthwhile.`;
 
-This is the latest context to answer the user's question:
-
-`;
+export interface SystemPromptInfo {
+  text: string;
+  // Where the prompt came from
+  source: "env" | "langfuse" | "default";
+  // Langfuse prompt version; null for the other sources
+  version: number | null;
+}
 
 /**
  * Cache for the Langfuse prompt to avoid fetching on every request
- * Structure: { prompt: string, fetchedAt: number }
+ * Structure: { prompt: string, version: number, fetchedAt: number }
  */
-let promptCache: { prompt: string; fetchedAt: number } | null = null;
+let promptCache: { prompt: string; version: number; fetchedAt: number } | null =
+  null;
 const CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
 
 /**
@@ -78,9 +84,21 @@ const CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
  * 3. Hardcoded DEFAULT_SYSTEM_PROMPT (as fallback)
  */
 export async function getSystemPrompt(): Promise<string> {
+  return (await getSystemPromptInfo()).text;
+}
+
+/**
+ * The system prompt along with where it came from, following the same
+ * priority order as `getSystemPrompt`.
+ */
+export async function getSystemPromptInfo(): Promise<SystemPromptInfo> {
   // 1. Check for environment variable override
   if (process.env.SYSTEM_PROMPT?.trim()) {
-    return process.env.SYSTEM_PROMPT.trim();
+    return {
+      text: process.env.SYSTEM_PROMPT.trim(),
+      source: "env",
+      version: null,
+    };
   }
 
   // 2. Try to fetch from Langfuse if enabled
@@ -88,7 +106,11 @@ export async function getSystemPrompt(): Promise<string> {
     try {
       // Check cache first
       if (promptCache && Date.now() - promptCache.fetchedAt < CACHE_TTL_MS) {
-        return promptCache.prompt;
+        return {
+          text: promptCache.prompt,
+          source: "langfuse",
+          version: promptCache.version,
+        };
       }
 
       const langfuse = getLangfuseClient();
@@ -110,6 +132,7 @@ export async function getSystemPrompt(): Promise<string> {
           // Update cache
           promptCache = {
             prompt: promptText,
+            version: promptObject.version,
             fetchedAt: Date.now(),
           };
 
@@ -120,7 +143,11 @@ export async function getSystemPrompt(): Promise<string> {
             version: promptObject.version,
           });
 
-          return promptText;
+          return {
+            text: promptText,
+            source: "langfuse",
+            version: promptObject.version,
+          };
         }
       }
     } catch (error) {
@@ -134,17 +161,24 @@ export async function getSystemPrompt(): Promise<string> {
   }
 
   // 3. Return hardcoded default as fallback
-  return DEFAULT_SYSTEM_PROMPT;
+  return { text: DEFAULT_SYSTEM_PROMPT, source: "default", version: null };
 }
 
 /**
- * Prepend the system prompt to user context for the LLM
+ * Prepend the system prompt to the conversation context for the LLM
  */
 export async function buildPromptWithSystem(
-  userContext: string
-): Promise<string> {
+  context: ContextMessage[]
+): Promise<ContextMessage[]> {
   const systemPrompt = await getSystemPrompt();
-  return `${systemPrompt}\n\n---\n\n${userContext}`;
+  return [
+    {
+      kind: "system",
+      text: systemPrompt,
+      tokens: messageTokens(systemPrompt),
+    },
+    ...context,
+  ];
 }
 
 /**
@@ -0,0 +1,40 @@
+import { Tiktoken, type TiktokenBPE } from "js-tiktoken/lite";
+import cl100k_base from "js-tiktoken/ranks/cl100k_base";
+import o200k_base from "js-tiktoken/ranks/o200k_base";
+
+import { OPENAI_MODEL } from "@/lib/config";
+
+// Per-message framing the chat format adds on top of the content tokens
+export const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Models newer than GPT-4 Turbo share the o200k vocabulary
+const O200K_MODEL = /^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|o\d)/;
+
+let encoder: Tiktoken | null = null;
+
+function getEncoder(): Tiktoken {
+  if (!encoder) {
+    const ranks: TiktokenBPE = O200K_MODEL.test(OPENAI_MODEL)
+      ? o200k_base
+      : cl100k_base;
+    encoder = new Tiktoken(ranks);
+  }
+  return encoder;
+}
+
+/** Tokens the configured model's tokenizer produces for the text. */
+export function countTextTokens(text: string): number {
+  if (!text) return 0;
+  return getEncoder().encode(text).length;
+}
+
+/**
+ * Cut the text down to at most `maxTokens` tokens, keeping its beginning.
+ * Returns an empty string when nothing fits.
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (maxTokens <= 0) return "";
+  const tokens = getEncoder().encode(text);
+  if (tokens.length <= maxTokens) return text;
+  return getEncoder().decode(tokens.slice(0, maxTokens));
+}
@@ -2,6 +2,7 @@ import { auth } from "@clerk/nextjs/server";
 
 import { Errors } from "@/lib/api/errors";
 import { prisma } from "@/lib/db";
+import type { Prisma } from "@/lib/generated/prisma";
 import { ensureCurrentUserExists } from "@/lib/users/ensure-user";
 
 export async function requireOwner(): Promise<
@@ -16,3 +17,25 @@ export async function requireOwner(): Promise<
 
   return { owner: { id: user.id }, clerkUserId };
 }
+
+/**
+ * Lookup condition for a branch reachable through the API: its graph is not
+ * in the trash. Branches of a trashed graph read as not found until restored.
+ */
+export function liveBranchWhere(branchId: string) {
+  return {
+    id: branchId,
+    graph: { deletedAt: null },
+  } satisfies Prisma.BranchWhereUniqueInput;
+}
+
+/**
+ * Lookup condition for a node reachable through the API, under the same rule
+ * as liveBranchWhere: nodes of a trashed graph read as not found.
+ */
+export function liveNodeWhere(nodeId: string) {
+  return {
+    id: nodeId,
+    graph: { deletedAt: null },
+  } satisfies Prisma.GraphNodeWhereUniqueInput;
+}
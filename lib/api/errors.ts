@@ -43,6 +43,22 @@ export const Errors = {
   notFound: (what = "Resource") => jsonError("NOT_FOUND", `${what} not found`),
   validation: (message = "Validation failed", details?: unknown) =>
     jsonError("VALIDATION_FAILED", message, details),
+  dagCycle: (details?: unknown) =>
+    jsonError("DAG_CYCLE", "Operation would create a cycle", details),
+  invalidReachability: (message = "Target node is not reachable") =>
+    jsonError("INVALID_REACHABILITY", message),
+  cannotDeleteBranchRoot: (branchIds: string[]) =>
+    jsonError(
+      "CANNOT_DELETE_BRANCH_ROOT",
+      "Node is the root of a branch and cannot be deleted",
+      { branchIds }
+    ),
+  duplicateBranchName: (name: string) =>
+    jsonError(
+      "DUPLICATE_BRANCH_NAME",
+      "A branch with this name already exists",
+      { name }
+    ),
   conflictTip: (currentTip: string | null, currentVersion: number) =>
     jsonError("CONFLICT_TIP_MOVED", "Branch tip has advanced", {
       currentTip,
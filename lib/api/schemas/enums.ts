@@ -1,11 +1,66 @@
 import { z } from "zod";
 
-export const BlockKindSchema = z.enum(["user", "assistant"]);
+export const BlockKindSchema = z.enum(["user", "assistant", "summary"]);
 export type BlockKind = z.infer<typeof BlockKindSchema>;
 
+// Kinds a client may author directly; summaries are only produced server-side
+export const MessageAuthorSchema = z.enum(["user", "assistant"]);
+export type MessageAuthor = z.infer<typeof MessageAuthorSchema>;
+
 export const RelationTypeSchema = z.enum(["follows", "references"]);
 export type RelationType = z.infer<typeof RelationTypeSchema>;
 
+export const OperationKindSchema = z.enum([
+  "append",
+  "send",
+  "generate",
+  "jump",
+  "replace_tip",
+  "merge",
+  "cherry_pick",
+  "rebase",
+]);
+export type OperationKind = z.infer<typeof OperationKindSchema>;
+
+// Palette offered for bookmarks; the client maps each name to its own colors
+export const BookmarkColorSchema = z.enum([
+  "gray",
+  "red",
+  "amber",
+  "green",
+  "blue",
+  "purple",
+]);
+export type BookmarkColor = z.infer<typeof BookmarkColorSchema>;
+
+// How a branch's history is trimmed to the context budget
+export const ContextStrategySchema = z.enum([
+  "recent",
+  "head_tail",
+  "summary_recent",
+  "retrieval",
+]);
+export type ContextStrategy = z.infer<typeof ContextStrategySchema>;
+
+// What a message in the model input is: the system prompt, a turn of the
+// conversation, or material supplied alongside it (summaries, references)
+export const ContextMessageKindSchema = z.enum([
+  "system",
+  "user",
+  "assistant",
+  "summary",
+  "reference",
+]);
+export type ContextMessageKind = z.infer<typeof ContextMessageKindSchema>;
+
+// Why a node on the branch didn't make it into the model context
+export const ContextDropReasonSchema = z.enum([
+  "summarized",
+  "token_budget",
+  "node_budget",
+]);
+export type ContextDropReason = z.infer<typeof ContextDropReasonSchema>;
+
 export const ErrorCodeSchema = z.enum([
   "FORBIDDEN",
   "NOT_FOUND",
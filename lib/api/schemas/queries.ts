@@ -1,5 +1,7 @@
 import { z } from "zod";
 
+import { ContextStrategySchema } from "./enums";
+
 export const PaginationQuery = z.object({
   limit: z.number().int().positive().max(100).default(20),
   cursor: z.string().optional(),
@@ -7,10 +9,15 @@ export const PaginationQuery = z.object({
 
 export const GraphsListQuery = PaginationQuery.extend({});
 
+export const TrashedGraphsQuery = PaginationQuery;
+
 export const BlocksListQuery = PaginationQuery.extend({
   public: z.boolean().default(true),
   kind: z.enum(["user", "assistant"]).optional(),
-  q: z.string().min(1).max(256).optional(),
+  // parseQuery turns digit-only values into numbers; a search for "2024" is
+  // still text
+  q: z.coerce.string().min(1).max(256).optional(),
+  starred: z.boolean().optional(),
 });
 
 export const LinearQuery = z.object({
@@ -21,6 +28,31 @@ export const LinearQuery = z.object({
 
 export const NodeRefsQuery = PaginationQuery;
 
+export const GraphTrashQuery = PaginationQuery;
+
+export const BranchReflogQuery = PaginationQuery;
+
+export const BranchDiffQuery = z.object({
+  context: z.number().int().min(0).max(50).default(3), // shared messages to return
+});
+
+export const BranchContextQuery = z.object({
+  strategy: ContextStrategySchema.optional(), // preview another strategy
+});
+
 export const BranchIdParam = z.object({ branchId: z.string() });
 export const GraphIdParam = z.object({ graphId: z.string() });
 export const NodeIdParam = z.object({ nodeId: z.string() });
+export const BlockIdParam = z.object({ blockId: z.string() });
+export const BookmarkParams = z.object({
+  graphId: z.string(),
+  bookmarkId: z.string(),
+});
+export const BranchNodeParams = z.object({
+  branchId: z.string(),
+  nodeId: z.string(),
+});
+export const BranchDiffParams = z.object({
+  branchId: z.string(),
+  otherBranchId: z.string(),
+});
@@ -1,12 +1,16 @@
 import { z } from "zod";
 
-import { BlockKindSchema } from "./enums";
+import {
+  BookmarkColorSchema,
+  ContextStrategySchema,
+  MessageAuthorSchema,
+} from "./enums";
 import { MessageContentSchema } from "./shared";
 
 export const StartGraphBody = z.object({
   title: z.string().max(120).optional(),
   firstMessage: z.object({
-    author: BlockKindSchema,
+    author: MessageAuthorSchema,
     content: MessageContentSchema,
     model: z.string().nullable().optional(),
   }),
@@ -14,8 +18,29 @@ export const StartGraphBody = z.object({
 });
 export type StartGraphInput = z.infer<typeof StartGraphBody>;
 
+export const UpdateGraphBody = z
+  .object({
+    title: z.string().trim().min(1).max(120).optional(),
+    description: z.string().trim().max(2000).nullable().optional(),
+    regenerateTitle: z.boolean().optional(),
+    // null falls back to the server default
+    contextStrategy: ContextStrategySchema.nullable().optional(),
+  })
+  .refine(
+    (b) =>
+      b.title !== undefined ||
+      b.description !== undefined ||
+      b.contextStrategy !== undefined ||
+      b.regenerateTitle === true,
+    { message: "Nothing to update" }
+  )
+  .refine((b) => !(b.title !== undefined && b.regenerateTitle), {
+    message: "Provide either title or regenerateTitle, not both",
+  });
+export type UpdateGraphInput = z.infer<typeof UpdateGraphBody>;
+
 export const AppendBody = z.object({
-  author: BlockKindSchema,
+  author: MessageAuthorSchema,
   content: MessageContentSchema,
   model: z.string().nullable().optional(),
   expectedVersion: z.number().int().nonnegative().optional(),
@@ -41,6 +66,11 @@ export const GenerateStreamBody = z.object({
   forkFromNodeId: z.string().nullable().optional(),
   newBranchName: z.string().max(120).optional(),
   generation: z.record(z.string(), z.unknown()).optional(),
+  // Overrides the graph's context strategy for this request only
+  contextStrategy: ContextStrategySchema.optional(),
+  // Hand-picked nodes from anywhere in the graph, oldest first, used as the
+  // context instead of the branch history
+  contextNodeIds: z.array(z.string()).min(1).max(100).optional(),
 });
 export type GenerateStreamInput = z.infer<typeof GenerateStreamBody>;
 
@@ -50,6 +80,11 @@ export const SendStreamBody = z.object({
   forkFromNodeId: z.string().nullable().optional(),
   newBranchName: z.string().max(120).optional(),
   generation: z.record(z.string(), z.unknown()).optional(),
+  // Overrides the graph's context strategy for this request only
+  contextStrategy: ContextStrategySchema.optional(),
+  // Hand-picked nodes from anywhere in the graph, oldest first, used as the
+  // context instead of the branch history
+  contextNodeIds: z.array(z.string()).min(1).max(100).optional(),
 });
 export type SendStreamInput = z.infer<typeof SendStreamBody>;
 
@@ -59,6 +94,30 @@ export const JumpBody = z.object({
 });
 export type JumpInput = z.infer<typeof JumpBody>;
 
+export const MergeBody = z.object({
+  sourceBranchId: z.string(),
+  expectedVersion: z.number().int().nonnegative().optional(),
+});
+export type MergeInput = z.infer<typeof MergeBody>;
+
+export const CherryPickBody = z.object({
+  nodeIds: z.array(z.string()).min(1).max(50),
+  expectedVersion: z.number().int().nonnegative().optional(),
+});
+export type CherryPickInput = z.infer<typeof CherryPickBody>;
+
+export const RebaseBody = z.object({
+  ontoNodeId: z.string(),
+  expectedVersion: z.number().int().nonnegative().optional(),
+});
+export type RebaseInput = z.infer<typeof RebaseBody>;
+
+export const RenameBranchBody = z.object({
+  name: z.string().trim().min(1).max(120),
+  ensureUnique: z.boolean().optional(),
+});
+export type RenameBranchInput = z.infer<typeof RenameBranchBody>;
+
 export const DeleteNodeBody = z.object({
   removeReferences: z.boolean().optional(),
   expectedVersions: z
@@ -68,10 +127,54 @@ export const DeleteNodeBody = z.object({
 export type DeleteNodeInput = z.infer<typeof DeleteNodeBody>;
 
 export const EnsureBlockBody = z.object({
-  kind: BlockKindSchema,
+  kind: MessageAuthorSchema,
   content: MessageContentSchema,
   checksum: z.string().max(256).optional(),
   public: z.boolean().optional(),
   model: z.string().nullable().optional(),
 });
 export type EnsureBlockInput = z.infer<typeof EnsureBlockBody>;
+
+export const CloneGraphBody = z.object({
+  title: z.string().trim().min(1).max(120).optional(),
+});
+export type CloneGraphInput = z.infer<typeof CloneGraphBody>;
+
+export const ExtractBranchBody = z.object({
+  title: z.string().trim().min(1).max(120).optional(),
+});
+export type ExtractBranchInput = z.infer<typeof ExtractBranchBody>;
+
+export const SummarizeBody = z.object({
+  // Newest message to fold into the summary; defaults to all but the most
+  // recent few
+  throughNodeId: z.string().optional(),
+});
+export type SummarizeInput = z.infer<typeof SummarizeBody>;
+
+export const CreateBookmarkBody = z.object({
+  nodeId: z.string(),
+  label: z.string().trim().min(1).max(80),
+  color: BookmarkColorSchema.nullable().optional(),
+  note: z.string().trim().max(2000).nullable().optional(),
+});
+export type CreateBookmarkInput = z.infer<typeof CreateBookmarkBody>;
+
+export const UpdateBookmarkBody = z
+  .object({
+    label: z.string().trim().min(1).max(80).optional(),
+    color: BookmarkColorSchema.nullable().optional(),
+    note: z.string().trim().max(2000).nullable().optional(),
+  })
+  .refine(
+    (b) =>
+      b.label !== undefined || b.color !== undefined || b.note !== undefined,
+    { message: "Nothing to update" }
+  );
+export type UpdateBookmarkInput = z.infer<typeof UpdateBookmarkBody>;
+
+export const PinNodeBody = z.object({
+  // Any visible node of the branch's graph, not only its own history
+  nodeId: z.string(),
+});
+export type PinNodeInput = z.infer<typeof PinNodeBody>;
@@ -1,9 +1,19 @@
 import { z } from "zod";
 
+import {
+  BlockKindSchema,
+  ContextDropReasonSchema,
+  ContextMessageKindSchema,
+  ContextStrategySchema,
+  RelationTypeSchema,
+} from "./enums";
 import {
   BranchSchema,
   ContextBlockSchema,
+  GraphOperationSchema,
   GraphSchema,
+  NodeBookmarkSchema,
+  NodePinSchema,
   PaginatedSchema,
   TimelineItemSchema,
 } from "./shared";
@@ -40,6 +50,8 @@ export const AppendForkResponse = z.object({
     name: true,
     rootNodeId: true,
     tipNodeId: true,
+    parentBranchId: true,
+    forkNodeId: true,
     version: true,
   }),
   item: TimelineItemSchema.pick({ nodeId: true, block: true }),
@@ -51,6 +63,44 @@ export const InjectResponse = z.object({
 
 export const ReplaceTipResponse = AppendResponse;
 
+export const MergeResponse = AppendResponse.extend({
+  mergeBaseNodeId: z.string(),
+  sourceTipNodeId: z.string(),
+});
+
+export const CherryPickResponse = z.object({
+  items: z.array(TimelineItemSchema.pick({ nodeId: true, block: true })),
+  newTip: z.string(),
+  version: z.number().int(),
+});
+
+export const RebaseResponse = z.object({
+  branch: BranchSchema.pick({
+    id: true,
+    rootNodeId: true,
+    tipNodeId: true,
+    parentBranchId: true,
+    forkNodeId: true,
+    version: true,
+  }),
+  items: z.array(TimelineItemSchema.pick({ nodeId: true, block: true })),
+});
+
+const BranchDiffSide = z.object({
+  branch: BranchSchema.pick({ id: true, name: true, tipNodeId: true }),
+  items: z.array(TimelineItemSchema.pick({ nodeId: true, block: true })),
+});
+
+export const BranchDiffResponse = z.object({
+  baseNodeId: z.string().nullable(),
+  shared: z.object({
+    total: z.number().int().nonnegative(),
+    items: z.array(TimelineItemSchema.pick({ nodeId: true, block: true })),
+  }),
+  left: BranchDiffSide,
+  right: BranchDiffSide,
+});
+
 export const JumpResponse = z.object({
   branch: BranchSchema.pick({ id: true, tipNodeId: true, version: true }),
 });
@@ -71,10 +121,35 @@ export const DeleteNodeResponse = z.object({
   }),
 });
 
+export const RestoreNodeResponse = z.object({
+  nodeId: z.string(),
+  restoredAt: z.string(),
+  affected: z.object({
+    restoredEdges: z.number().int().nonnegative(),
+    restoredTips: z.array(
+      z.object({
+        branchId: z.string(),
+        tipNodeId: z.string(),
+        version: z.number().int(),
+      })
+    ),
+  }),
+});
+
+export const GraphTrashResponse = PaginatedSchema(
+  z.object({
+    deletionId: z.string(),
+    nodeId: z.string(),
+    deletedAt: z.string(),
+    block: ContextBlockSchema,
+  })
+);
+
 export const GraphsListResponse = PaginatedSchema(
   GraphSchema.pick({
     id: true,
     title: true,
+    description: true,
     createdAt: true,
     lastActivityAt: true,
   })
@@ -84,6 +159,8 @@ export const GraphDetailResponse = z.object({
   graph: GraphSchema.pick({
     id: true,
     title: true,
+    description: true,
+    contextStrategy: true,
     createdAt: true,
     lastActivityAt: true,
   }),
@@ -93,6 +170,8 @@ export const GraphDetailResponse = z.object({
       name: true,
       rootNodeId: true,
       tipNodeId: true,
+      parentBranchId: true,
+      forkNodeId: true,
       version: true,
     })
   ),
@@ -107,6 +186,7 @@ export const BlocksListResponse = PaginatedSchema(
     createdAt: z.string(),
     checksum: z.string().nullable().optional(),
     model: z.string().nullable().optional(),
+    starred: z.boolean().optional(),
   })
 );
 
@@ -128,13 +208,116 @@ export const NodeRefsResponse = z.object({
   nextCursor: z.string().nullable(),
 });
 
+export const NodeBacklinksResponse = z.object({
+  blockId: z.string(),
+  items: z.array(
+    z.object({
+      nodeId: z.string(),
+      relation: z.enum(["contains", "references"]),
+      graph: GraphSchema.pick({ id: true, title: true }),
+      branches: z.array(BranchSchema.pick({ id: true, name: true })),
+    })
+  ),
+});
+
 export const EnsureBlockResponse = z.object({
   block: ContextBlockSchema,
 });
 
+export const BlockStarResponse = z.object({
+  blockId: z.string(),
+  starred: z.boolean(),
+});
+
+export const BranchDetailResponse = z.object({
+  branch: BranchSchema.pick({
+    id: true,
+    graphId: true,
+    name: true,
+    rootNodeId: true,
+    tipNodeId: true,
+    parentBranchId: true,
+    forkNodeId: true,
+    version: true,
+    createdAt: true,
+  }),
+});
+
+export const DeleteBranchResponse = z.object({
+  branchId: z.string(),
+  deletedAt: z.string(),
+  hiddenNodes: z.number().int().nonnegative(),
+});
+
+export const GraphTopologyResponse = z.object({
+  graph: GraphSchema.pick({ id: true, title: true }),
+  nodes: z.array(
+    z.object({
+      id: z.string(),
+      blockId: z.string(),
+      kind: BlockKindSchema,
+      excerpt: z.string(),
+    })
+  ),
+  edges: z.array(
+    z.object({
+      id: z.string(),
+      parentNodeId: z.string(),
+      childNodeId: z.string(),
+      relation: RelationTypeSchema,
+      ord: z.number().int().nullable(),
+    })
+  ),
+  branches: z.array(
+    BranchSchema.pick({
+      id: true,
+      name: true,
+      rootNodeId: true,
+      tipNodeId: true,
+      version: true,
+    })
+  ),
+});
+
 export const DeleteGraphResponse = z.object({
   graphId: z.string(),
   deletedAt: z.string(),
+  purgeAt: z.string(),
+});
+
+export const TrashedGraphsResponse = PaginatedSchema(
+  GraphSchema.pick({
+    id: true,
+    title: true,
+    description: true,
+    createdAt: true,
+    lastActivityAt: true,
+  }).extend({
+    deletedAt: z.string(),
+    purgeAt: z.string(),
+  })
+);
+
+export const RestoreGraphResponse = z.object({
+  graph: GraphSchema.pick({
+    id: true,
+    title: true,
+    description: true,
+    createdAt: true,
+    lastActivityAt: true,
+  }),
+  restoredAt: z.string(),
+});
+
+export const UpdateGraphResponse = z.object({
+  graph: GraphSchema.pick({
+    id: true,
+    title: true,
+    description: true,
+    contextStrategy: true,
+    createdAt: true,
+    lastActivityAt: true,
+  }),
 });
 
 export const BranchPreviewResponse = z.object({
@@ -149,3 +332,167 @@ export const BranchPreviewResponse = z.object({
     })
   ),
 });
+
+export const CloneGraphResponse = z.object({
+  graph: GraphSchema.pick({
+    id: true,
+    title: true,
+    description: true,
+    createdAt: true,
+    lastActivityAt: true,
+  }),
+  branches: z.array(
+    BranchSchema.pick({
+      id: true,
+      name: true,
+      rootNodeId: true,
+      tipNodeId: true,
+      parentBranchId: true,
+      forkNodeId: true,
+      version: true,
+    })
+  ),
+  nodeCount: z.number().int().nonnegative(),
+});
+
+export const ExtractBranchResponse = z.object({
+  graph: GraphSchema.pick({
+    id: true,
+    title: true,
+    description: true,
+    createdAt: true,
+    lastActivityAt: true,
+  }),
+  branch: BranchSchema.pick({
+    id: true,
+    graphId: true,
+    name: true,
+    rootNodeId: true,
+    tipNodeId: true,
+    version: true,
+  }),
+  sourceBranchId: z.string(),
+  nodeCount: z.number().int().nonnegative(),
+});
+
+export const SummaryItemSchema = z.object({
+  nodeId: z.string(),
+  startNodeId: z.string(),
+  endNodeId: z.string(),
+  nodeCount: z.number().int().positive(),
+  block: ContextBlockSchema.pick({
+    id: true,
+    kind: true,
+    content: true,
+    model: true,
+    tokenCount: true,
+    public: true,
+    createdAt: true,
+  }),
+  createdAt: z.string(),
+});
+
+export const SummariesListResponse = z.object({
+  items: z.array(SummaryItemSchema),
+});
+
+export const SummarizeResponse = z.object({
+  summary: SummaryItemSchema,
+});
+
+export const OperationResultResponse = z.object({
+  operation: GraphOperationSchema,
+  branch: BranchSchema.pick({ id: true, tipNodeId: true, version: true }),
+});
+
+export const BranchReflogResponse = PaginatedSchema(
+  GraphOperationSchema.extend({
+    // Start of the message the operation left as tip
+    afterTipExcerpt: z.string().nullable(),
+  })
+);
+
+export const BookmarkItemSchema = NodeBookmarkSchema.extend({
+  // Start of the bookmarked message
+  excerpt: z.string(),
+  // Branches whose timeline passes through the bookmarked node
+  branchIds: z.array(z.string()),
+});
+
+export const BookmarksListResponse = z.object({
+  items: z.array(BookmarkItemSchema),
+});
+
+export const BookmarkResponse = z.object({
+  bookmark: BookmarkItemSchema,
+});
+
+export const DeleteBookmarkResponse = z.object({
+  bookmarkId: z.string(),
+  deletedAt: z.string(),
+});
+
+export const PinItemSchema = NodePinSchema.extend({
+  kind: BlockKindSchema,
+  // Start of the pinned message
+  excerpt: z.string(),
+});
+
+export const GraphPinsResponse = z.object({
+  items: z.array(PinItemSchema),
+});
+
+export const PinNodeResponse = z.object({
+  pin: PinItemSchema,
+});
+
+export const UnpinNodeResponse = z.object({
+  branchId: z.string(),
+  nodeId: z.string(),
+  unpinnedAt: z.string(),
+});
+
+export const BranchContextResponse = z.object({
+  branchId: z.string(),
+  strategy: ContextStrategySchema,
+  model: z.string(),
+  systemPrompt: z.object({
+    text: z.string(),
+    source: z.enum(["env", "langfuse", "default"]),
+    version: z.number().int().nullable(),
+    tokens: z.number().int().nonnegative(),
+  }),
+  // In prompt order, after the system prompt
+  messages: z.array(
+    z.object({
+      kind: ContextMessageKindSchema,
+      // Role the message is sent with
+      role: z.enum(["system", "developer", "user", "assistant"]),
+      text: z.string(),
+      tokens: z.number().int().nonnegative(),
+      nodeId: z.string().nullable(),
+      pinned: z.boolean(),
+      // Found on another branch by the retrieval strategy
+      retrieved: z.boolean(),
+      truncated: z.boolean(),
+    })
+  ),
+  dropped: z.array(
+    z.object({
+      nodeId: z.string(),
+      reason: ContextDropReasonSchema,
+    })
+  ),
+  tokens: z.object({
+    system: z.number().int().nonnegative(),
+    context: z.number().int().nonnegative(),
+    // Budget the context (without the system prompt) is trimmed to
+    limit: z.number().int().nonnegative(),
+  }),
+  // What sending the next message costs, not counting the message itself
+  estimate: z.object({
+    inputTokens: z.number().int().nonnegative(),
+    outputTokens: z.number().int().nonnegative(),
+    costUsd: z.number().nonnegative(),
+  }),
+});
@@ -1,6 +1,12 @@
 import { z } from "zod";
 
-import { BlockKindSchema, ErrorCodeSchema } from "./enums";
+import {
+  BlockKindSchema,
+  BookmarkColorSchema,
+  ContextStrategySchema,
+  ErrorCodeSchema,
+  OperationKindSchema,
+} from "./enums";
 
 export const MessageContentSchema = z.object({
   text: z.string().min(1).max(8000),
@@ -31,8 +37,11 @@ export const GraphSchema = z.object({
   id: z.string(),
   userId: z.string().optional(),
   title: z.string().nullable().optional(),
+  description: z.string().nullable().optional(),
+  contextStrategy: ContextStrategySchema.nullable().optional(),
   createdAt: z.string().optional(),
   lastActivityAt: z.string().optional(),
+  deletedAt: z.string().nullable().optional(),
 });
 
 export const BranchSchema = z.object({
@@ -41,6 +50,8 @@ export const BranchSchema = z.object({
   name: z.string(),
   rootNodeId: z.string().nullable().optional(),
   tipNodeId: z.string().nullable().optional(),
+  parentBranchId: z.string().nullable().optional(),
+  forkNodeId: z.string().nullable().optional(),
   version: z.number().int().nonnegative().optional(),
   createdAt: z.string().optional(),
 });
@@ -64,6 +75,38 @@ export const GraphNodeSchema = z.object({
   hiddenAt: z.string().nullable().optional(),
 });
 
+export const GraphOperationSchema = z.object({
+  id: z.string(),
+  graphId: z.string(),
+  branchId: z.string(),
+  kind: OperationKindSchema,
+  forked: z.boolean(),
+  beforeTipNodeId: z.string().nullable(),
+  afterTipNodeId: z.string().nullable(),
+  createdNodeIds: z.array(z.string()),
+  undoneAt: z.string().nullable(),
+  createdAt: z.string(),
+});
+
+export const NodeBookmarkSchema = z.object({
+  id: z.string(),
+  graphId: z.string(),
+  nodeId: z.string(),
+  label: z.string(),
+  color: BookmarkColorSchema.nullable(),
+  note: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const NodePinSchema = z.object({
+  id: z.string(),
+  graphId: z.string(),
+  branchId: z.string(),
+  nodeId: z.string(),
+  createdAt: z.string(),
+});
+
 export const TimelineItemSchema = z.object({
   nodeId: z.string(),
   block: ContextBlockSchema,
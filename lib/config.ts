@@ -9,6 +9,33 @@
 
 export const OPENAI_MODEL = process.env.OPENAI_MODEL ?? "gpt-4";
 
+/**
+ * Model prices in USD per million tokens, used for cost estimates only
+ */
+export const OPENAI_INPUT_USD_PER_MILLION = parseFloat(
+  process.env.OPENAI_INPUT_USD_PER_MILLION ?? "30"
+);
+
+export const OPENAI_OUTPUT_USD_PER_MILLION = parseFloat(
+  process.env.OPENAI_OUTPUT_USD_PER_MILLION ?? "60"
+);
+
+// ============================================================================
+// Embedding Configuration
+// ============================================================================
+
+/**
+ * Embedding provider for retrieval: "openai", or "local" for a deterministic
+ * offline embedder that needs no API key
+ */
+export const EMBEDDING_PROVIDER = process.env.EMBEDDING_PROVIDER ?? "openai";
+
+/**
+ * Embedding model used by the OpenAI provider
+ */
+export const EMBEDDING_MODEL =
+  process.env.EMBEDDING_MODEL ?? "text-embedding-3-small";
+
 // ============================================================================
 // Langfuse Configuration (Prompt Management)
 // ============================================================================
@@ -93,6 +120,84 @@ export const CONTEXT_MAX_NODES = parseInt(
   10
 );
 
+/**
+ * Context strategy for graphs that don't choose one: "recent", "head_tail",
+ * "summary_recent" or "retrieval"
+ */
+export const CONTEXT_STRATEGY =
+  process.env.CONTEXT_STRATEGY ?? "summary_recent";
+
+/**
+ * Opening messages the head+tail strategy keeps ahead of the recent window
+ */
+export const CONTEXT_HEAD_NODES = parseInt(
+  process.env.CONTEXT_HEAD_NODES ?? "2",
+  10
+);
+
+/**
+ * Related messages from other branches the retrieval strategy adds at most
+ */
+export const CONTEXT_RETRIEVAL_TOP_K = parseInt(
+  process.env.CONTEXT_RETRIEVAL_TOP_K ?? "3",
+  10
+);
+
+/**
+ * Cosine similarity a message needs to the latest one to count as related
+ */
+export const CONTEXT_RETRIEVAL_MIN_SCORE = parseFloat(
+  process.env.CONTEXT_RETRIEVAL_MIN_SCORE ?? "0.3"
+);
+
+/**
+ * Share of the token budget, after pins, that retrieved messages may take up
+ */
+export const CONTEXT_RETRIEVAL_TOKEN_SHARE = parseFloat(
+  process.env.CONTEXT_RETRIEVAL_TOKEN_SHARE ?? "0.25"
+);
+
+/**
+ * Most nodes a single branch may pin into its context
+ */
+export const CONTEXT_MAX_PINNED_NODES = parseInt(
+  process.env.CONTEXT_MAX_PINNED_NODES ?? "10",
+  10
+);
+
+/**
+ * Most recent messages a summary never covers, so the latest turns always
+ * reach the model verbatim
+ */
+export const SUMMARY_KEEP_RECENT_NODES = parseInt(
+  process.env.SUMMARY_KEEP_RECENT_NODES ?? "6",
+  10
+);
+
+// ============================================================================
+// Trash Configuration
+// ============================================================================
+
+/**
+ * Days a deleted graph stays in the trash before it is purged for good
+ */
+export const GRAPH_TRASH_RETENTION_DAYS = parseInt(
+  process.env.GRAPH_TRASH_RETENTION_DAYS ?? "30",
+  10
+);
+
+// ============================================================================
+// Garbage Collection Configuration
+// ============================================================================
+
+/**
+ * Hours an idempotency record is kept for replaying a retried request
+ */
+export const IDEMPOTENCY_TTL_HOURS = parseInt(
+  process.env.IDEMPOTENCY_TTL_HOURS ?? "24",
+  10
+);
+
 // ============================================================================
 // SSE (Server-Sent Events) Configuration
 // ============================================================================
@@ -130,6 +235,10 @@ export const PREVIEW_MODE_PASSWORD =
 if (process.env.NODE_ENV !== "production") {
   console.log("[Config] Loaded configuration:", {
     OPENAI_MODEL,
+    OPENAI_INPUT_USD_PER_MILLION,
+    OPENAI_OUTPUT_USD_PER_MILLION,
+    EMBEDDING_PROVIDER,
+    EMBEDDING_MODEL,
     QUOTA_LIMIT,
     QUOTA_WINDOW_DAYS,
     RATE_LIMIT_WRITE_PER_MINUTE,
@@ -137,6 +246,15 @@ if (process.env.NODE_ENV !== "production") {
     RATE_LIMIT_SSE_CONCURRENT,
     CONTEXT_TOKEN_LIMIT,
     CONTEXT_MAX_NODES,
+    CONTEXT_STRATEGY,
+    CONTEXT_HEAD_NODES,
+    CONTEXT_RETRIEVAL_TOP_K,
+    CONTEXT_RETRIEVAL_MIN_SCORE,
+    CONTEXT_RETRIEVAL_TOKEN_SHARE,
+    CONTEXT_MAX_PINNED_NODES,
+    SUMMARY_KEEP_RECENT_NODES,
+    GRAPH_TRASH_RETENTION_DAYS,
+    IDEMPOTENCY_TTL_HOURS,
     SSE_KEEPALIVE_INTERVAL_MS,
     LOG_LEVEL,
     LANGFUSE_ENABLED,
@@ -7,6 +7,7 @@
 
 export const QUERY_KEYS = {
   graphsList: () => ["graphs", "list"] as const,
+  graphsTrash: () => ["graphs", "trash"] as const,
   graphDetail: (graphId: string) => ["graphs", graphId, "detail"] as const,
   branchLinear: (branchId: string, includeRefs: boolean) =>
     [
@@ -17,4 +18,18 @@ export const QUERY_KEYS = {
     ] as const,
   branchPreview: (branchId: string) =>
     ["branches", branchId, "preview"] as const,
+  branchSummaries: (branchId: string) =>
+    ["branches", branchId, "summaries"] as const,
+  branchContext: (branchId: string, tipNodeId?: string | null) =>
+    ["branches", branchId, "context", tipNodeId ?? null] as const,
+  branchReflog: (branchId: string) => ["branches", branchId, "reflog"] as const,
+  branchDiff: (branchId: string, otherBranchId: string) =>
+    ["branches", branchId, "diff", otherBranchId] as const,
+  graphTopology: (graphId: string) => ["graphs", graphId, "topology"] as const,
+  graphTrash: (graphId: string) => ["graphs", graphId, "trash"] as const,
+  graphBookmarks: (graphId: string) =>
+    ["graphs", graphId, "bookmarks"] as const,
+  graphPins: (graphId: string) => ["graphs", graphId, "pins"] as const,
+  nodeBacklinks: (nodeId: string) => ["nodes", nodeId, "backlinks"] as const,
+  blocksList: (view: string, q: string) => ["blocks", "list", view, q] as const,
 } as const;
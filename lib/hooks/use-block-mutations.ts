@@ -0,0 +1,109 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { z } from "zod";
+
+import {
+  BlockStarResponse,
+  EnsureBlockResponse,
+} from "@/lib/api/schemas/responses";
+
+type EnsureBlockResult = z.infer<typeof EnsureBlockResponse>;
+type BlockStarResult = z.infer<typeof BlockStarResponse>;
+
+interface EnsureBlockOptions {
+  text: string;
+  isPublic?: boolean;
+  onSuccess?: (data: EnsureBlockResult) => void;
+}
+
+export function useBlockMutations() {
+  const queryClient = useQueryClient();
+
+  const invalidateLibrary = () =>
+    queryClient.invalidateQueries({ queryKey: ["blocks", "list"] });
+
+  const ensureBlock = useMutation({
+    mutationFn: async ({
+      text,
+      isPublic,
+    }: {
+      text: string;
+      isPublic?: boolean;
+    }) => {
+      const response = await fetch("/api/v1/blocks/ensure", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": crypto.randomUUID(),
+        },
+        body: JSON.stringify({
+          kind: "user",
+          content: { text },
+          public: isPublic,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error?.error?.message || "Failed to save block");
+      }
+
+      return (await response.json()) as EnsureBlockResult;
+    },
+
+    onSuccess: () => {
+      void invalidateLibrary();
+      toast.success("Saved to library");
+    },
+
+    onError: (error) => {
+      toast.error("Failed to save block", {
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+      });
+    },
+  });
+
+  const setStar = useMutation({
+    mutationFn: async ({
+      blockId,
+      starred,
+    }: {
+      blockId: string;
+      starred: boolean;
+    }) => {
+      const response = await fetch(`/api/v1/blocks/${blockId}/star`, {
+        method: starred ? "PUT" : "DELETE",
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error?.error?.message || "Failed to update star");
+      }
+
+      return (await response.json()) as BlockStarResult;
+    },
+
+    onSuccess: () => {
+      void invalidateLibrary();
+    },
+
+    onError: (error) => {
+      toast.error("Failed to update star", {
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+      });
+    },
+  });
+
+  return {
+    ensureBlock: (options: EnsureBlockOptions) =>
+      ensureBlock.mutate(
+        { text: options.text, isPublic: options.isPublic },
+        { onSuccess: options.onSuccess }
+      ),
+    setStar: (blockId: string, starred: boolean) =>
+      setStar.mutate({ blockId, starred }),
+    isSaving: ensureBlock.isPending,
+  };
+}
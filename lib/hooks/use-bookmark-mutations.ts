@@ -0,0 +1,209 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { z } from "zod";
+
+import type { BookmarkColor } from "@/lib/api/schemas/enums";
+import {
+  BookmarkResponse,
+  BookmarksListResponse,
+  DeleteBookmarkResponse,
+} from "@/lib/api/schemas/responses";
+import { QUERY_KEYS } from "@/lib/constants/query-keys";
+
+type BookmarkResult = z.infer<typeof BookmarkResponse>;
+type BookmarksList = z.infer<typeof BookmarksListResponse>;
+type DeleteBookmarkResult = z.infer<typeof DeleteBookmarkResponse>;
+
+interface BookmarkFields {
+  label?: string;
+  color?: BookmarkColor | null;
+  note?: string | null;
+}
+
+interface CreateBookmarkOptions extends BookmarkFields {
+  graphId: string;
+  nodeId: string;
+  label: string;
+  onSuccess?: (data: BookmarkResult) => void;
+}
+
+interface UpdateBookmarkOptions extends BookmarkFields {
+  graphId: string;
+  bookmarkId: string;
+  onSuccess?: (data: BookmarkResult) => void;
+}
+
+interface DeleteBookmarkOptions {
+  graphId: string;
+  bookmarkId: string;
+  onSuccess?: (data: DeleteBookmarkResult) => void;
+}
+
+export function useBookmarkMutations() {
+  const queryClient = useQueryClient();
+
+  // Insert or replace a bookmark in the cached list, keeping creation order
+  const upsertCached = (
+    graphId: string,
+    bookmark: BookmarkResult["bookmark"]
+  ) =>
+    queryClient.setQueryData<BookmarksList>(
+      QUERY_KEYS.graphBookmarks(graphId),
+      (old) => {
+        if (!old) return old;
+        const exists = old.items.some((b) => b.id === bookmark.id);
+        return {
+          items: exists
+            ? old.items.map((b) => (b.id === bookmark.id ? bookmark : b))
+            : [...old.items, bookmark],
+        };
+      }
+    );
+
+  const createBookmark = useMutation({
+    mutationFn: async ({
+      graphId,
+      ...body
+    }: BookmarkFields & { graphId: string; nodeId: string }) => {
+      const response = await fetch(`/api/v1/graphs/${graphId}/bookmarks`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": crypto.randomUUID(),
+        },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error?.error?.message || "Failed to add bookmark");
+      }
+
+      return (await response.json()) as BookmarkResult;
+    },
+
+    onSuccess: (data, { graphId }) => {
+      upsertCached(graphId, data.bookmark);
+      toast.success("Bookmark added");
+    },
+
+    onError: (error) => {
+      toast.error("Failed to add bookmark", {
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+      });
+    },
+  });
+
+  const updateBookmark = useMutation({
+    mutationFn: async ({
+      graphId,
+      bookmarkId,
+      ...body
+    }: BookmarkFields & { graphId: string; bookmarkId: string }) => {
+      const response = await fetch(
+        `/api/v1/graphs/${graphId}/bookmarks/${bookmarkId}`,
+        {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+            "Idempotency-Key": crypto.randomUUID(),
+          },
+          body: JSON.stringify(body),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error?.error?.message || "Failed to update bookmark");
+      }
+
+      return (await response.json()) as BookmarkResult;
+    },
+
+    onSuccess: (data, { graphId }) => {
+      upsertCached(graphId, data.bookmark);
+      toast.success("Bookmark updated");
+    },
+
+    onError: (error) => {
+      toast.error("Failed to update bookmark", {
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+      });
+    },
+  });
+
+  const deleteBookmark = useMutation({
+    mutationFn: async ({
+      graphId,
+      bookmarkId,
+    }: {
+      graphId: string;
+      bookmarkId: string;
+    }) => {
+      const response = await fetch(
+        `/api/v1/graphs/${graphId}/bookmarks/${bookmarkId}`,
+        {
+          method: "DELETE",
+          headers: { "Idempotency-Key": crypto.randomUUID() },
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error?.error?.message || "Failed to remove bookmark");
+      }
+
+      return (await response.json()) as DeleteBookmarkResult;
+    },
+
+    onSuccess: (_data, { graphId, bookmarkId }) => {
+      queryClient.setQueryData<BookmarksList>(
+        QUERY_KEYS.graphBookmarks(graphId),
+        (old) =>
+          old ? { items: old.items.filter((b) => b.id !== bookmarkId) } : old
+      );
+      toast.success("Bookmark removed");
+    },
+
+    onError: (error) => {
+      toast.error("Failed to remove bookmark", {
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+      });
+    },
+  });
+
+  return {
+    createBookmark: (options: CreateBookmarkOptions) =>
+      createBookmark.mutate(
+        {
+          graphId: options.graphId,
+          nodeId: options.nodeId,
+          label: options.label,
+          color: options.color,
+          note: options.note,
+        },
+        { onSuccess: options.onSuccess }
+      ),
+    updateBookmark: (options: UpdateBookmarkOptions) =>
+      updateBookmark.mutate(
+        {
+          graphId: options.graphId,
+          bookmarkId: options.bookmarkId,
+          label: options.label,
+          color: options.color,
+          note: options.note,
+        },
+        { onSuccess: options.onSuccess }
+      ),
+    deleteBookmark: (options: DeleteBookmarkOptions) =>
+      deleteBookmark.mutate(
+        { graphId: options.graphId, bookmarkId: options.bookmarkId },
+        { onSuccess: options.onSuccess }
+      ),
+    isSavingBookmark: createBookmark.isPending || updateBookmark.isPending,
+    isDeletingBookmark: deleteBookmark.isPending,
+  };
+}
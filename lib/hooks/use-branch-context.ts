@@ -0,0 +1,34 @@
+import { useQuery } from "@tanstack/react-query";
+import { z } from "zod";
+
+import { BranchContextResponse } from "@/lib/api/schemas/responses";
+import { QUERY_KEYS } from "@/lib/constants/query-keys";
+
+type BranchContext = z.infer<typeof BranchContextResponse>;
+
+async function fetchBranchContext(branchId: string): Promise<BranchContext> {
+  const res = await fetch(`/api/v1/branches/${branchId}/context`);
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return await res.json();
+}
+
+/**
+ * What the model would see on the next send. Keyed by the branch tip so any
+ * new, edited or rewound message refetches it.
+ */
+export function useBranchContext(
+  branchId: string | null,
+  tipNodeId: string | null
+) {
+  const query = useQuery({
+    queryKey: QUERY_KEYS.branchContext(branchId ?? "", tipNodeId),
+    queryFn: () => fetchBranchContext(branchId!),
+    enabled: !!branchId,
+    staleTime: 60 * 1000,
+  });
+
+  return {
+    context: query.data ?? null,
+    isLoading: query.isLoading,
+  };
+}
@@ -70,6 +70,8 @@ export function useBranchCreation() {
               name: data.branch.name,
               rootNodeId: data.branch.rootNodeId,
               tipNodeId: data.branch.tipNodeId,
+              parentBranchId: data.branch.parentBranchId,
+              forkNodeId: data.branch.forkNodeId,
               version: data.branch.version,
             },
           ],
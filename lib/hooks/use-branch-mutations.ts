@@ -0,0 +1,446 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { z } from "zod";
+
+import {
+  CherryPickResponse,
+  GraphDetailResponse,
+  JumpResponse,
+  LinearResponse,
+  MergeResponse,
+  ReplaceTipResponse,
+  SummarizeResponse,
+} from "@/lib/api/schemas/responses";
+import { QUERY_KEYS } from "@/lib/constants/query-keys";
+
+type GraphDetail = z.infer<typeof GraphDetailResponse>;
+type JumpResult = z.infer<typeof JumpResponse>;
+type ReplaceTipResult = z.infer<typeof ReplaceTipResponse>;
+type MergeResult = z.infer<typeof MergeResponse>;
+type CherryPickResult = z.infer<typeof CherryPickResponse>;
+type SummarizeResult = z.infer<typeof SummarizeResponse>;
+type TimelineItem = z.infer<typeof LinearResponse>["items"][number];
+
+interface JumpBranchOptions {
+  graphId: string;
+  branchId: string;
+  toNodeId: string;
+  expectedVersion?: number;
+  onSuccess?: (data: JumpResult) => void;
+}
+
+interface ReplaceTipOptions {
+  graphId: string;
+  branchId: string;
+  tipNodeId: string;
+  text: string;
+  expectedVersion?: number;
+  onSuccess?: (data: ReplaceTipResult) => void;
+}
+
+interface MergeBranchOptions {
+  graphId: string;
+  branchId: string;
+  sourceBranchId: string;
+  expectedVersion?: number;
+  onSuccess?: (data: MergeResult) => void;
+}
+
+interface CherryPickOptions {
+  graphId: string;
+  branchId: string;
+  nodeIds: string[];
+  expectedVersion?: number;
+  onSuccess?: (data: CherryPickResult) => void;
+}
+
+interface SummarizeBranchOptions {
+  branchId: string;
+  throughNodeId?: string;
+  onSuccess?: (data: SummarizeResult) => void;
+}
+
+export function useBranchMutations() {
+  const queryClient = useQueryClient();
+
+  const jumpBranch = useMutation({
+    mutationFn: async ({
+      branchId,
+      toNodeId,
+      expectedVersion,
+    }: {
+      graphId: string;
+      branchId: string;
+      toNodeId: string;
+      expectedVersion?: number;
+    }) => {
+      const response = await fetch(`/api/v1/branches/${branchId}/jump`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": crypto.randomUUID(),
+        },
+        body: JSON.stringify({ toNodeId, expectedVersion }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error?.error?.message || "Failed to rewind branch");
+      }
+
+      return (await response.json()) as JumpResult;
+    },
+
+    onSuccess: (data, { graphId, branchId }) => {
+      // Move the tip in the cached graph detail
+      queryClient.setQueryData<GraphDetail>(
+        QUERY_KEYS.graphDetail(graphId),
+        (old) => {
+          if (!old) return old;
+          return {
+            ...old,
+            branches: old.branches.map((b) =>
+              b.id === data.branch.id
+                ? {
+                    ...b,
+                    tipNodeId: data.branch.tipNodeId,
+                    version: data.branch.version,
+                  }
+                : b
+            ),
+          };
+        }
+      );
+
+      void queryClient.invalidateQueries({
+        queryKey: QUERY_KEYS.branchLinear(branchId, true),
+      });
+      void queryClient.invalidateQueries({
+        queryKey: QUERY_KEYS.branchPreview(branchId),
+      });
+      void queryClient.invalidateQueries({
+        queryKey: QUERY_KEYS.graphDetail(graphId),
+      });
+
+      toast.success("Branch rewound");
+    },
+
+    onError: (error) => {
+      toast.error("Failed to rewind branch", {
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+      });
+    },
+  });
+
+  const replaceTip = useMutation({
+    mutationFn: async ({
+      branchId,
+      text,
+      expectedVersion,
+    }: {
+      graphId: string;
+      branchId: string;
+      tipNodeId: string;
+      text: string;
+      expectedVersion?: number;
+    }) => {
+      const response = await fetch(`/api/v1/branches/${branchId}/replace-tip`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": crypto.randomUUID(),
+        },
+        body: JSON.stringify({ newContent: { text }, expectedVersion }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error?.error?.message || "Failed to edit message");
+      }
+
+      return (await response.json()) as ReplaceTipResult;
+    },
+
+    onSuccess: (data, { graphId, branchId, tipNodeId }) => {
+      // Swap the edited message in place in the timeline
+      queryClient.setQueryData<{
+        items: TimelineItem[];
+        nextCursor: string | null;
+      }>(QUERY_KEYS.branchLinear(branchId, true), (old) => {
+        if (!old?.items) return old;
+        return {
+          ...old,
+          items: old.items.map((item) =>
+            item.nodeId === tipNodeId
+              ? { ...item, nodeId: data.item.nodeId, block: data.item.block }
+              : item
+          ),
+        };
+      });
+
+      queryClient.setQueryData<GraphDetail>(
+        QUERY_KEYS.graphDetail(graphId),
+        (old) => {
+          if (!old) return old;
+          return {
+            ...old,
+            branches: old.branches.map((b) =>
+              b.id === branchId
+                ? { ...b, tipNodeId: data.newTip, version: data.version }
+                : b
+            ),
+          };
+        }
+      );
+
+      toast.success("Message updated");
+    },
+
+    onError: (error) => {
+      toast.error("Failed to edit message", {
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+      });
+    },
+  });
+
+  const mergeBranch = useMutation({
+    mutationFn: async ({
+      branchId,
+      sourceBranchId,
+      expectedVersion,
+    }: {
+      graphId: string;
+      branchId: string;
+      sourceBranchId: string;
+      expectedVersion?: number;
+    }) => {
+      const response = await fetch(`/api/v1/branches/${branchId}/merge`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": crypto.randomUUID(),
+        },
+        body: JSON.stringify({ sourceBranchId, expectedVersion }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error?.error?.message || "Failed to merge branches");
+      }
+
+      return (await response.json()) as MergeResult;
+    },
+
+    onSuccess: (data, { graphId, branchId }) => {
+      // The merge block becomes the new tip of the target branch
+      queryClient.setQueryData<{
+        items: TimelineItem[];
+        nextCursor: string | null;
+      }>(QUERY_KEYS.branchLinear(branchId, true), (old) => {
+        if (!old?.items) return old;
+        return {
+          ...old,
+          items: [
+            ...old.items,
+            { nodeId: data.item.nodeId, block: data.item.block },
+          ],
+        };
+      });
+
+      queryClient.setQueryData<GraphDetail>(
+        QUERY_KEYS.graphDetail(graphId),
+        (old) => {
+          if (!old) return old;
+          return {
+            ...old,
+            branches: old.branches.map((b) =>
+              b.id === branchId
+                ? { ...b, tipNodeId: data.newTip, version: data.version }
+                : b
+            ),
+          };
+        }
+      );
+
+      void queryClient.invalidateQueries({
+        queryKey: QUERY_KEYS.graphsList(),
+      });
+      void queryClient.invalidateQueries({ queryKey: ["quota"] });
+
+      toast.success("Branches merged");
+    },
+
+    onError: (error) => {
+      toast.error("Failed to merge branches", {
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+      });
+    },
+  });
+
+  const cherryPick = useMutation({
+    mutationFn: async ({
+      branchId,
+      nodeIds,
+      expectedVersion,
+    }: {
+      graphId: string;
+      branchId: string;
+      nodeIds: string[];
+      expectedVersion?: number;
+    }) => {
+      const response = await fetch(`/api/v1/branches/${branchId}/cherry-pick`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": crypto.randomUUID(),
+        },
+        body: JSON.stringify({ nodeIds, expectedVersion }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error?.error?.message || "Failed to copy messages");
+      }
+
+      return (await response.json()) as CherryPickResult;
+    },
+
+    onSuccess: (data, { graphId, branchId }) => {
+      queryClient.setQueryData<GraphDetail>(
+        QUERY_KEYS.graphDetail(graphId),
+        (old) => {
+          if (!old) return old;
+          return {
+            ...old,
+            branches: old.branches.map((b) =>
+              b.id === branchId
+                ? { ...b, tipNodeId: data.newTip, version: data.version }
+                : b
+            ),
+          };
+        }
+      );
+
+      void queryClient.invalidateQueries({
+        queryKey: QUERY_KEYS.branchLinear(branchId, true),
+      });
+      void queryClient.invalidateQueries({
+        queryKey: QUERY_KEYS.branchPreview(branchId),
+      });
+
+      toast.success(
+        data.items.length === 1
+          ? "Message copied to branch"
+          : `${data.items.length} messages copied to branch`
+      );
+    },
+
+    onError: (error) => {
+      toast.error("Failed to copy messages", {
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+      });
+    },
+  });
+
+  const summarizeBranch = useMutation({
+    mutationFn: async ({
+      branchId,
+      throughNodeId,
+    }: {
+      branchId: string;
+      throughNodeId?: string;
+    }) => {
+      const response = await fetch(`/api/v1/branches/${branchId}/summaries`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": crypto.randomUUID(),
+        },
+        body: JSON.stringify({ throughNodeId }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error?.error?.message || "Failed to summarize");
+      }
+
+      return (await response.json()) as SummarizeResult;
+    },
+
+    onSuccess: (data, { branchId }) => {
+      void queryClient.invalidateQueries({
+        queryKey: QUERY_KEYS.branchSummaries(branchId),
+      });
+      void queryClient.invalidateQueries({ queryKey: ["quota"] });
+
+      toast.success("History summarized", {
+        description: `${data.summary.nodeCount} messages now reach the model as one summary.`,
+      });
+    },
+
+    onError: (error) => {
+      toast.error("Failed to summarize", {
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+      });
+    },
+  });
+
+  return {
+    jumpBranch: (options: JumpBranchOptions) =>
+      jumpBranch.mutate(
+        {
+          graphId: options.graphId,
+          branchId: options.branchId,
+          toNodeId: options.toNodeId,
+          expectedVersion: options.expectedVersion,
+        },
+        { onSuccess: options.onSuccess }
+      ),
+    replaceTip: (options: ReplaceTipOptions) =>
+      replaceTip.mutate(
+        {
+          graphId: options.graphId,
+          branchId: options.branchId,
+          tipNodeId: options.tipNodeId,
+          text: options.text,
+          expectedVersion: options.expectedVersion,
+        },
+        { onSuccess: options.onSuccess }
+      ),
+    mergeBranch: (options: MergeBranchOptions) =>
+      mergeBranch.mutate(
+        {
+          graphId: options.graphId,
+          branchId: options.branchId,
+          sourceBranchId: options.sourceBranchId,
+          expectedVersion: options.expectedVersion,
+        },
+        { onSuccess: options.onSuccess }
+      ),
+    cherryPick: (options: CherryPickOptions) =>
+      cherryPick.mutate(
+        {
+          graphId: options.graphId,
+          branchId: options.branchId,
+          nodeIds: options.nodeIds,
+          expectedVersion: options.expectedVersion,
+        },
+        { onSuccess: options.onSuccess }
+      ),
+    summarizeBranch: (options: SummarizeBranchOptions) =>
+      summarizeBranch.mutate(
+        { branchId: options.branchId, throughNodeId: options.throughNodeId },
+        { onSuccess: options.onSuccess }
+      ),
+    isJumping: jumpBranch.isPending,
+    isReplacingTip: replaceTip.isPending,
+    isMerging: mergeBranch.isPending,
+    isCherryPicking: cherryPick.isPending,
+    isSummarizing: summarizeBranch.isPending,
+  };
+}
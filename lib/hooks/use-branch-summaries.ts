@@ -0,0 +1,27 @@
+import { useQuery } from "@tanstack/react-query";
+import { z } from "zod";
+
+import { SummariesListResponse } from "@/lib/api/schemas/responses";
+import { QUERY_KEYS } from "@/lib/constants/query-keys";
+
+type SummariesList = z.infer<typeof SummariesListResponse>;
+
+async function fetchBranchSummaries(branchId: string): Promise<SummariesList> {
+  const res = await fetch(`/api/v1/branches/${branchId}/summaries`);
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return await res.json();
+}
+
+export function useBranchSummaries(branchId: string | null) {
+  const query = useQuery({
+    queryKey: QUERY_KEYS.branchSummaries(branchId ?? ""),
+    queryFn: () => fetchBranchSummaries(branchId!),
+    enabled: !!branchId,
+    staleTime: 60 * 1000,
+  });
+
+  return {
+    summaries: query.data?.items ?? [],
+    isLoading: query.isLoading,
+  };
+}
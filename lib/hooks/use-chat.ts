@@ -32,7 +32,9 @@ export function useChat({ branchId, graphId }: UseChatOptions) {
     branchParams?: {
       branchFromNodeId: string;
       newBranchName: string;
-    }
+    },
+    // Hand-picked context replacing the branch history
+    contextNodeIds?: string[]
   ): Promise<{ newBranchId?: string } | undefined> => {
     if (!branchId || !graphId) return;
 
@@ -81,6 +83,7 @@ export function useChat({ branchId, graphId }: UseChatOptions) {
         expectedVersion,
         branchFromNodeId: branchParams?.branchFromNodeId,
         newBranchName: branchParams?.newBranchName,
+        contextNodeIds,
 
         onDelta: (chunk) => {
           // Accumulate streaming assistant response
@@ -291,6 +294,7 @@ async function sendStream({
   expectedVersion,
   branchFromNodeId,
   newBranchName,
+  contextNodeIds,
   onDelta,
   onFinal,
   onError,
@@ -300,6 +304,7 @@ async function sendStream({
   expectedVersion?: number;
   branchFromNodeId?: string;
   newBranchName?: string;
+  contextNodeIds?: string[];
   onDelta?: (chunk: string) => void;
   onFinal?: (data: {
     items: Array<{ role: "user" | "assistant"; item: TimelineItem }>;
@@ -321,11 +326,16 @@ async function sendStream({
     expectedVersion?: number;
     forkFromNodeId?: string;
     newBranchName?: string;
+    contextNodeIds?: string[];
   } = {
     userMessage: { text: userText },
     expectedVersion,
   };
 
+  if (contextNodeIds?.length) {
+    body.contextNodeIds = contextNodeIds;
+  }
+
   if (branchFromNodeId) {
     body.forkFromNodeId = branchFromNodeId;
     body.newBranchName = newBranchName;
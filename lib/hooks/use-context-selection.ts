@@ -0,0 +1,42 @@
+import { useState } from "react";
+
+export interface ContextPick {
+  nodeId: string;
+  // Branch the message was picked on, to jump back to it
+  branchId: string;
+  // Start of the picked message
+  excerpt: string;
+}
+
+/**
+ * Messages hand-picked, possibly across branches, as the whole context of the
+ * next send. Kept in pick order, which is the order the model sees them in.
+ */
+export function useContextSelection() {
+  const [isPicking, setIsPicking] = useState(false);
+  const [picks, setPicks] = useState<ContextPick[]>([]);
+
+  const togglePick = (pick: ContextPick) =>
+    setPicks((prev) =>
+      prev.some((p) => p.nodeId === pick.nodeId)
+        ? prev.filter((p) => p.nodeId !== pick.nodeId)
+        : [...prev, pick]
+    );
+
+  const removePick = (nodeId: string) =>
+    setPicks((prev) => prev.filter((p) => p.nodeId !== nodeId));
+
+  const clearPicks = () => {
+    setPicks([]);
+    setIsPicking(false);
+  };
+
+  return {
+    picks,
+    isPicking,
+    togglePicking: () => setIsPicking((prev) => !prev),
+    togglePick,
+    removePick,
+    clearPicks,
+  };
+}
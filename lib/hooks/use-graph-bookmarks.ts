@@ -0,0 +1,27 @@
+import { useQuery } from "@tanstack/react-query";
+import { z } from "zod";
+
+import { BookmarksListResponse } from "@/lib/api/schemas/responses";
+import { QUERY_KEYS } from "@/lib/constants/query-keys";
+
+type BookmarksList = z.infer<typeof BookmarksListResponse>;
+
+async function fetchGraphBookmarks(graphId: string): Promise<BookmarksList> {
+  const res = await fetch(`/api/v1/graphs/${graphId}/bookmarks`);
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return await res.json();
+}
+
+export function useGraphBookmarks(graphId: string | null) {
+  const query = useQuery({
+    queryKey: QUERY_KEYS.graphBookmarks(graphId ?? ""),
+    queryFn: () => fetchGraphBookmarks(graphId!),
+    enabled: !!graphId,
+    staleTime: 60 * 1000,
+  });
+
+  return {
+    bookmarks: query.data?.items ?? [],
+    isLoading: query.isLoading,
+  };
+}
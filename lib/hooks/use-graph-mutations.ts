@@ -2,15 +2,32 @@ import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
 import { z } from "zod";
 
+import type { ContextStrategy } from "@/lib/api/schemas/enums";
 import {
+  BranchDetailResponse,
+  CloneGraphResponse,
+  DeleteBranchResponse,
   DeleteGraphResponse,
+  ExtractBranchResponse,
+  GraphDetailResponse,
   GraphsListResponse,
+  OperationResultResponse,
+  RestoreGraphResponse,
   StartGraphResponse,
+  TrashedGraphsResponse,
+  UpdateGraphResponse,
 } from "@/lib/api/schemas/responses";
 import { QUERY_KEYS } from "@/lib/constants/query-keys";
 
 type GraphListItem = z.infer<typeof GraphsListResponse>["items"][number];
 type StartGraphResult = z.infer<typeof StartGraphResponse>;
+type GraphDetail = z.infer<typeof GraphDetailResponse>;
+type UpdateGraphResult = z.infer<typeof UpdateGraphResponse>;
+type CloneGraphResult = z.infer<typeof CloneGraphResponse>;
+type ExtractBranchResult = z.infer<typeof ExtractBranchResponse>;
+type RestoreGraphResult = z.infer<typeof RestoreGraphResponse>;
+type TrashedGraphs = z.infer<typeof TrashedGraphsResponse>;
+type OperationResult = z.infer<typeof OperationResultResponse>;
 
 interface CreateGraphOptions {
   title?: string;
@@ -23,6 +40,50 @@ interface DeleteGraphOptions {
   onSuccess?: () => void;
 }
 
+interface RestoreGraphOptions {
+  graphId: string;
+  onSuccess?: (data: RestoreGraphResult) => void;
+}
+
+interface HistoryStepOptions {
+  graphId: string;
+  onSuccess?: (data: OperationResult) => void;
+}
+
+interface UpdateGraphOptions {
+  graphId: string;
+  title?: string;
+  description?: string | null;
+  regenerateTitle?: boolean;
+  contextStrategy?: ContextStrategy | null;
+  onSuccess?: (data: UpdateGraphResult) => void;
+}
+
+interface RenameBranchOptions {
+  graphId: string;
+  branchId: string;
+  name: string;
+  onSuccess?: () => void;
+}
+
+interface DeleteBranchOptions {
+  graphId: string;
+  branchId: string;
+  onSuccess?: () => void;
+}
+
+interface CloneGraphOptions {
+  graphId: string;
+  title?: string;
+  onSuccess?: (data: CloneGraphResult) => void;
+}
+
+interface ExtractBranchOptions {
+  branchId: string;
+  title?: string;
+  onSuccess?: (data: ExtractBranchResult) => void;
+}
+
 export function useGraphMutations() {
   const queryClient = useQueryClient();
 
@@ -198,8 +259,497 @@ export function useGraphMutations() {
       });
     },
 
-    onSuccess: () => {
-      toast.success("Session deleted");
+    onSuccess: (_data, { graphId }) => {
+      void queryClient.invalidateQueries({
+        queryKey: QUERY_KEYS.graphsTrash(),
+      });
+
+      toast.success("Session moved to trash", {
+        action: {
+          label: "Undo",
+          onClick: () => restoreGraph.mutate({ graphId }),
+        },
+      });
+    },
+  });
+
+  const restoreGraph = useMutation({
+    mutationFn: async ({ graphId }: { graphId: string }) => {
+      const response = await fetch(`/api/v1/graphs/${graphId}/restore`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": crypto.randomUUID(),
+        },
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error?.error?.message || "Failed to restore session");
+      }
+
+      return (await response.json()) as RestoreGraphResult;
+    },
+
+    onSuccess: (data, { graphId }) => {
+      queryClient.setQueryData<TrashedGraphs>(
+        QUERY_KEYS.graphsTrash(),
+        (old) => {
+          if (!old) return old;
+          return {
+            ...old,
+            items: old.items.filter((g) => g.id !== graphId),
+          };
+        }
+      );
+      // Restoring counts as activity, so the graph sorts to the top
+      queryClient.setQueryData<{
+        items: GraphListItem[];
+        nextCursor: string | null;
+      }>(QUERY_KEYS.graphsList(), (old) => {
+        if (!old) return { items: [data.graph], nextCursor: null };
+        return {
+          ...old,
+          items: [data.graph, ...old.items.filter((g) => g.id !== graphId)],
+        };
+      });
+
+      toast.success("Session restored", {
+        description: data.graph.title ?? undefined,
+      });
+    },
+
+    onError: (error) => {
+      toast.error("Failed to restore session", {
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+      });
+    },
+  });
+
+  const updateGraph = useMutation({
+    mutationFn: async ({
+      graphId,
+      title,
+      description,
+      regenerateTitle,
+      contextStrategy,
+    }: {
+      graphId: string;
+      title?: string;
+      description?: string | null;
+      regenerateTitle?: boolean;
+      contextStrategy?: ContextStrategy | null;
+    }) => {
+      const response = await fetch(`/api/v1/graphs/${graphId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": crypto.randomUUID(),
+        },
+        body: JSON.stringify({
+          title,
+          description,
+          regenerateTitle,
+          contextStrategy,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error?.error?.message || "Failed to update session");
+      }
+
+      return (await response.json()) as UpdateGraphResult;
+    },
+
+    onMutate: async ({ graphId, title, description }) => {
+      await queryClient.cancelQueries({
+        queryKey: QUERY_KEYS.graphsList(),
+      });
+
+      const previous = queryClient.getQueryData<{
+        items: GraphListItem[];
+        nextCursor: string | null;
+      }>(QUERY_KEYS.graphsList());
+
+      // Optimistically apply manual edits; regenerated titles arrive on success
+      queryClient.setQueryData<{
+        items: GraphListItem[];
+        nextCursor: string | null;
+      }>(QUERY_KEYS.graphsList(), (old) => {
+        if (!old) return old;
+        return {
+          ...old,
+          items: old.items.map((g) =>
+            g.id === graphId
+              ? {
+                  ...g,
+                  ...(title !== undefined && { title }),
+                  ...(description !== undefined && { description }),
+                }
+              : g
+          ),
+        };
+      });
+
+      return { previous };
+    },
+
+    onError: (error, _variables, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(QUERY_KEYS.graphsList(), context.previous);
+      }
+
+      toast.error("Failed to update session", {
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+      });
+    },
+
+    onSuccess: (data, { graphId, contextStrategy }) => {
+      // The server may have suffixed the title to keep it unique
+      queryClient.setQueryData<{
+        items: GraphListItem[];
+        nextCursor: string | null;
+      }>(QUERY_KEYS.graphsList(), (old) => {
+        if (!old) return old;
+        return {
+          ...old,
+          items: old.items.map((g) =>
+            g.id === graphId ? { ...g, ...data.graph } : g
+          ),
+        };
+      });
+      queryClient.setQueryData<GraphDetail>(
+        QUERY_KEYS.graphDetail(graphId),
+        (old) => {
+          if (!old) return old;
+          return { ...old, graph: { ...old.graph, ...data.graph } };
+        }
+      );
+      // A new context strategy changes what every branch sends
+      if (contextStrategy !== undefined) {
+        void queryClient.invalidateQueries({
+          predicate: (query) =>
+            query.queryKey[0] === "branches" && query.queryKey[2] === "context",
+        });
+      }
+    },
+  });
+
+  const renameBranch = useMutation({
+    mutationFn: async ({
+      branchId,
+      name,
+    }: {
+      graphId: string;
+      branchId: string;
+      name: string;
+    }) => {
+      const response = await fetch(`/api/v1/branches/${branchId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error?.error?.message || "Failed to rename branch");
+      }
+
+      return (await response.json()) as z.infer<typeof BranchDetailResponse>;
+    },
+
+    onMutate: async ({ graphId, branchId, name }) => {
+      const queryKey = QUERY_KEYS.graphDetail(graphId);
+      await queryClient.cancelQueries({ queryKey });
+
+      const previous = queryClient.getQueryData<GraphDetail>(queryKey);
+
+      // Optimistically apply the new name
+      queryClient.setQueryData<GraphDetail>(queryKey, (old) => {
+        if (!old) return old;
+        return {
+          ...old,
+          branches: old.branches.map((b) =>
+            b.id === branchId ? { ...b, name } : b
+          ),
+        };
+      });
+
+      return { previous };
+    },
+
+    onError: (error, { graphId }, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(
+          QUERY_KEYS.graphDetail(graphId),
+          context.previous
+        );
+      }
+
+      toast.error("Failed to rename branch", {
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+      });
+    },
+
+    onSettled: (_data, _error, { graphId }) => {
+      void queryClient.invalidateQueries({
+        queryKey: QUERY_KEYS.graphDetail(graphId),
+      });
+    },
+  });
+
+  const deleteBranch = useMutation({
+    mutationFn: async ({ branchId }: { graphId: string; branchId: string }) => {
+      const response = await fetch(`/api/v1/branches/${branchId}`, {
+        method: "DELETE",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": crypto.randomUUID(),
+        },
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error?.error?.message || "Failed to delete branch");
+      }
+
+      return (await response.json()) as z.infer<typeof DeleteBranchResponse>;
+    },
+
+    onSuccess: (_data, { graphId, branchId }) => {
+      queryClient.setQueryData<GraphDetail>(
+        QUERY_KEYS.graphDetail(graphId),
+        (old) => {
+          if (!old) return old;
+          return {
+            ...old,
+            branches: old.branches.filter((b) => b.id !== branchId),
+          };
+        }
+      );
+      queryClient.removeQueries({
+        queryKey: QUERY_KEYS.branchLinear(branchId, true),
+      });
+      queryClient.removeQueries({
+        queryKey: QUERY_KEYS.branchPreview(branchId),
+      });
+      void queryClient.invalidateQueries({
+        queryKey: QUERY_KEYS.graphDetail(graphId),
+      });
+      void queryClient.invalidateQueries({
+        queryKey: QUERY_KEYS.graphsList(),
+      });
+      void queryClient.invalidateQueries({
+        queryKey: QUERY_KEYS.graphBookmarks(graphId),
+      });
+      void queryClient.invalidateQueries({
+        queryKey: QUERY_KEYS.graphPins(graphId),
+      });
+
+      toast.success("Branch deleted");
+    },
+
+    onError: (error) => {
+      toast.error("Failed to delete branch", {
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+      });
+    },
+  });
+
+  // Put a graph created on the server at the top of the sessions list
+  const prependGraph = (graph: GraphListItem) => {
+    queryClient.setQueryData<{
+      items: GraphListItem[];
+      nextCursor: string | null;
+    }>(QUERY_KEYS.graphsList(), (old) => {
+      if (!old) return { items: [graph], nextCursor: null };
+      return { ...old, items: [graph, ...old.items] };
+    });
+  };
+
+  const cloneGraph = useMutation({
+    mutationFn: async ({
+      graphId,
+      title,
+    }: {
+      graphId: string;
+      title?: string;
+    }) => {
+      const response = await fetch(`/api/v1/graphs/${graphId}/clone`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": crypto.randomUUID(),
+        },
+        body: JSON.stringify({ title }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error?.error?.message || "Failed to duplicate session");
+      }
+
+      return (await response.json()) as CloneGraphResult;
+    },
+
+    onSuccess: (data) => {
+      prependGraph(data.graph);
+      toast.success("Session duplicated", {
+        description: data.graph.title ?? undefined,
+      });
+    },
+
+    onError: (error) => {
+      toast.error("Failed to duplicate session", {
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+      });
+    },
+  });
+
+  const extractBranch = useMutation({
+    mutationFn: async ({
+      branchId,
+      title,
+    }: {
+      branchId: string;
+      title?: string;
+    }) => {
+      const response = await fetch(`/api/v1/branches/${branchId}/extract`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": crypto.randomUUID(),
+        },
+        body: JSON.stringify({ title }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error?.error?.message || "Failed to extract branch");
+      }
+
+      return (await response.json()) as ExtractBranchResult;
+    },
+
+    onSuccess: (data) => {
+      prependGraph(data.graph);
+      toast.success("Branch extracted to a new session", {
+        description: data.graph.title ?? undefined,
+      });
+    },
+
+    onError: (error) => {
+      toast.error("Failed to extract branch", {
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+      });
+    },
+  });
+
+  // Undo and redo both move one branch tip and may hide or reveal nodes
+  const applyHistoryStep = (graphId: string, data: OperationResult) => {
+    queryClient.setQueryData<GraphDetail>(
+      QUERY_KEYS.graphDetail(graphId),
+      (old) => {
+        if (!old) return old;
+        return {
+          ...old,
+          branches: old.branches.map((b) =>
+            b.id === data.branch.id
+              ? {
+                  ...b,
+                  tipNodeId: data.branch.tipNodeId,
+                  version: data.branch.version,
+                }
+              : b
+          ),
+        };
+      }
+    );
+
+    const branchId = data.branch.id;
+    void queryClient.invalidateQueries({
+      queryKey: QUERY_KEYS.branchLinear(branchId, true),
+    });
+    void queryClient.invalidateQueries({
+      queryKey: QUERY_KEYS.branchPreview(branchId),
+    });
+    void queryClient.invalidateQueries({
+      queryKey: QUERY_KEYS.branchReflog(branchId),
+    });
+    void queryClient.invalidateQueries({
+      queryKey: QUERY_KEYS.graphTopology(graphId),
+    });
+    void queryClient.invalidateQueries({
+      queryKey: QUERY_KEYS.graphBookmarks(graphId),
+    });
+  };
+
+  const undo = useMutation({
+    mutationFn: async ({ graphId }: { graphId: string }) => {
+      const response = await fetch(`/api/v1/graphs/${graphId}/undo`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": crypto.randomUUID(),
+        },
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error?.error?.message || "Failed to undo");
+      }
+
+      return (await response.json()) as OperationResult;
+    },
+
+    onSuccess: (data, { graphId }) => {
+      applyHistoryStep(graphId, data);
+      toast.success("Undone");
+    },
+
+    onError: (error) => {
+      toast.error("Nothing undone", {
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+      });
+    },
+  });
+
+  const redo = useMutation({
+    mutationFn: async ({ graphId }: { graphId: string }) => {
+      const response = await fetch(`/api/v1/graphs/${graphId}/redo`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": crypto.randomUUID(),
+        },
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error?.error?.message || "Failed to redo");
+      }
+
+      return (await response.json()) as OperationResult;
+    },
+
+    onSuccess: (data, { graphId }) => {
+      applyHistoryStep(graphId, data);
+      toast.success("Redone");
+    },
+
+    onError: (error) => {
+      toast.error("Nothing redone", {
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+      });
     },
   });
 
@@ -217,7 +767,65 @@ export function useGraphMutations() {
         { graphId: options.graphId },
         { onSuccess: options.onSuccess }
       ),
+    restoreGraph: (options: RestoreGraphOptions) =>
+      restoreGraph.mutate(
+        { graphId: options.graphId },
+        { onSuccess: options.onSuccess }
+      ),
+    updateGraph: (options: UpdateGraphOptions) =>
+      updateGraph.mutate(
+        {
+          graphId: options.graphId,
+          title: options.title,
+          description: options.description,
+          regenerateTitle: options.regenerateTitle,
+          contextStrategy: options.contextStrategy,
+        },
+        { onSuccess: options.onSuccess }
+      ),
+    renameBranch: (options: RenameBranchOptions) =>
+      renameBranch.mutate(
+        {
+          graphId: options.graphId,
+          branchId: options.branchId,
+          name: options.name,
+        },
+        { onSuccess: options.onSuccess }
+      ),
+    deleteBranch: (options: DeleteBranchOptions) =>
+      deleteBranch.mutate(
+        { graphId: options.graphId, branchId: options.branchId },
+        { onSuccess: options.onSuccess }
+      ),
+    cloneGraph: (options: CloneGraphOptions) =>
+      cloneGraph.mutate(
+        { graphId: options.graphId, title: options.title },
+        { onSuccess: options.onSuccess }
+      ),
+    extractBranch: (options: ExtractBranchOptions) =>
+      extractBranch.mutate(
+        { branchId: options.branchId, title: options.title },
+        { onSuccess: options.onSuccess }
+      ),
+    undo: (options: HistoryStepOptions) =>
+      undo.mutate(
+        { graphId: options.graphId },
+        { onSuccess: options.onSuccess }
+      ),
+    redo: (options: HistoryStepOptions) =>
+      redo.mutate(
+        { graphId: options.graphId },
+        { onSuccess: options.onSuccess }
+      ),
     isCreating: createGraph.isPending,
     isDeleting: deleteGraph.isPending,
+    isRestoring: restoreGraph.isPending,
+    isUpdating: updateGraph.isPending,
+    isRenamingBranch: renameBranch.isPending,
+    isDeletingBranch: deleteBranch.isPending,
+    isCloning: cloneGraph.isPending,
+    isExtracting: extractBranch.isPending,
+    isUndoing: undo.isPending,
+    isRedoing: redo.isPending,
   };
 }
@@ -0,0 +1,27 @@
+import { useQuery } from "@tanstack/react-query";
+import { z } from "zod";
+
+import { GraphPinsResponse } from "@/lib/api/schemas/responses";
+import { QUERY_KEYS } from "@/lib/constants/query-keys";
+
+type GraphPins = z.infer<typeof GraphPinsResponse>;
+
+async function fetchGraphPins(graphId: string): Promise<GraphPins> {
+  const res = await fetch(`/api/v1/graphs/${graphId}/pins`);
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return await res.json();
+}
+
+export function useGraphPins(graphId: string | null) {
+  const query = useQuery({
+    queryKey: QUERY_KEYS.graphPins(graphId ?? ""),
+    queryFn: () => fetchGraphPins(graphId!),
+    enabled: !!graphId,
+    staleTime: 60 * 1000,
+  });
+
+  return {
+    pins: query.data?.items ?? [],
+    isLoading: query.isLoading,
+  };
+}
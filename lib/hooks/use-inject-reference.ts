@@ -0,0 +1,79 @@
+import { useState } from "react";
+
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { z } from "zod";
+
+import { InjectResponse } from "@/lib/api/schemas/responses";
+import { QUERY_KEYS } from "@/lib/constants/query-keys";
+
+type InjectResult = z.infer<typeof InjectResponse>;
+
+interface InjectReferenceOptions {
+  graphId: string;
+  branchId: string;
+  blockId: string;
+  reuseExistingNode?: boolean;
+}
+
+export function useInjectReference() {
+  const qc = useQueryClient();
+  const [isInjecting, setIsInjecting] = useState(false);
+
+  const injectReference = async ({
+    graphId,
+    branchId,
+    blockId,
+    reuseExistingNode,
+  }: InjectReferenceOptions): Promise<InjectResult | null> => {
+    setIsInjecting(true);
+    try {
+      const res = await fetch(`/api/v1/branches/${branchId}/inject`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": crypto.randomUUID(),
+        },
+        body: JSON.stringify({ blockId, reuseExistingNode }),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        throw new Error(
+          errorData?.error?.message ||
+            `Failed to attach block: HTTP ${res.status}`
+        );
+      }
+
+      const data = (await res.json()) as InjectResult;
+
+      // References are rendered from the linear view, so refetch it
+      void qc.invalidateQueries({
+        queryKey: QUERY_KEYS.branchLinear(branchId, true),
+      });
+      void qc.invalidateQueries({
+        queryKey: QUERY_KEYS.graphsList(),
+      });
+      void qc.invalidateQueries({
+        queryKey: QUERY_KEYS.graphDetail(graphId),
+      });
+
+      toast.success("Block attached", {
+        description: "The block is now referenced from the latest message.",
+      });
+
+      return data;
+    } catch (error) {
+      console.error("Inject reference error:", error);
+      toast.error("Failed to attach block", {
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+      });
+      return null;
+    } finally {
+      setIsInjecting(false);
+    }
+  };
+
+  return { injectReference, isInjecting };
+}
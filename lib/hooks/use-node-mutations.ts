@@ -0,0 +1,126 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { z } from "zod";
+
+import {
+  DeleteNodeResponse,
+  GraphDetailResponse,
+  RestoreNodeResponse,
+} from "@/lib/api/schemas/responses";
+import { QUERY_KEYS } from "@/lib/constants/query-keys";
+
+type GraphDetail = z.infer<typeof GraphDetailResponse>;
+type DeleteNodeResult = z.infer<typeof DeleteNodeResponse>;
+type RestoreNodeResult = z.infer<typeof RestoreNodeResponse>;
+
+interface NodeMutationOptions {
+  graphId: string;
+  nodeId: string;
+}
+
+export function useNodeMutations() {
+  const queryClient = useQueryClient();
+
+  // Deleting or restoring a node can change the history of every branch
+  // in the graph, so refresh all of them
+  const invalidateGraph = (graphId: string) => {
+    const detail = queryClient.getQueryData<GraphDetail>(
+      QUERY_KEYS.graphDetail(graphId)
+    );
+    for (const branch of detail?.branches ?? []) {
+      void queryClient.invalidateQueries({
+        queryKey: QUERY_KEYS.branchLinear(branch.id, true),
+      });
+      void queryClient.invalidateQueries({
+        queryKey: QUERY_KEYS.branchPreview(branch.id),
+      });
+    }
+    void queryClient.invalidateQueries({
+      queryKey: QUERY_KEYS.graphDetail(graphId),
+    });
+    void queryClient.invalidateQueries({
+      queryKey: QUERY_KEYS.graphTrash(graphId),
+    });
+    void queryClient.invalidateQueries({
+      queryKey: QUERY_KEYS.graphBookmarks(graphId),
+    });
+    void queryClient.invalidateQueries({
+      queryKey: QUERY_KEYS.graphPins(graphId),
+    });
+  };
+
+  const restoreNode = useMutation({
+    mutationFn: async ({ nodeId }: NodeMutationOptions) => {
+      const response = await fetch(`/api/v1/nodes/${nodeId}/restore`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": crypto.randomUUID(),
+        },
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error?.error?.message || "Failed to restore message");
+      }
+
+      return (await response.json()) as RestoreNodeResult;
+    },
+
+    onSuccess: (_data, { graphId }) => {
+      invalidateGraph(graphId);
+      toast.success("Message restored");
+    },
+
+    onError: (error) => {
+      toast.error("Failed to restore message", {
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+      });
+    },
+  });
+
+  const deleteNode = useMutation({
+    mutationFn: async ({ nodeId }: NodeMutationOptions) => {
+      const response = await fetch(`/api/v1/nodes/${nodeId}`, {
+        method: "DELETE",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": crypto.randomUUID(),
+        },
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error?.error?.message || "Failed to delete message");
+      }
+
+      return (await response.json()) as DeleteNodeResult;
+    },
+
+    onSuccess: (_data, { graphId, nodeId }) => {
+      invalidateGraph(graphId);
+      toast.success("Message deleted", {
+        description: "You can restore it from the trash.",
+        action: {
+          label: "Undo",
+          onClick: () => restoreNode.mutate({ graphId, nodeId }),
+        },
+      });
+    },
+
+    onError: (error) => {
+      toast.error("Failed to delete message", {
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+      });
+    },
+  });
+
+  return {
+    deleteNode: (options: NodeMutationOptions) => deleteNode.mutate(options),
+    restoreNode: (options: NodeMutationOptions) => restoreNode.mutate(options),
+    isDeleting: deleteNode.isPending,
+    isRestoring: restoreNode.isPending,
+  };
+}
@@ -0,0 +1,152 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { z } from "zod";
+
+import {
+  GraphPinsResponse,
+  PinNodeResponse,
+  UnpinNodeResponse,
+} from "@/lib/api/schemas/responses";
+import { QUERY_KEYS } from "@/lib/constants/query-keys";
+
+type GraphPins = z.infer<typeof GraphPinsResponse>;
+type PinNodeResult = z.infer<typeof PinNodeResponse>;
+type UnpinNodeResult = z.infer<typeof UnpinNodeResponse>;
+
+interface PinNodeOptions {
+  graphId: string;
+  branchId: string;
+  nodeId: string;
+  onSuccess?: (data: PinNodeResult) => void;
+}
+
+interface UnpinNodeOptions {
+  graphId: string;
+  branchId: string;
+  nodeId: string;
+  onSuccess?: (data: UnpinNodeResult) => void;
+}
+
+export function usePinMutations() {
+  const queryClient = useQueryClient();
+
+  const pinNode = useMutation({
+    mutationFn: async ({
+      branchId,
+      nodeId,
+    }: {
+      graphId: string;
+      branchId: string;
+      nodeId: string;
+    }) => {
+      const response = await fetch(`/api/v1/branches/${branchId}/pins`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Idempotency-Key": crypto.randomUUID(),
+        },
+        body: JSON.stringify({ nodeId }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error?.error?.message || "Failed to pin message");
+      }
+
+      return (await response.json()) as PinNodeResult;
+    },
+
+    onSuccess: (data, { graphId, branchId }) => {
+      queryClient.setQueryData<GraphPins>(
+        QUERY_KEYS.graphPins(graphId),
+        (old) => (old ? { items: [...old.items, data.pin] } : old)
+      );
+      void queryClient.invalidateQueries({
+        queryKey: ["branches", branchId, "context"],
+      });
+      toast.success("Message pinned", {
+        description: "It will be included in this branch's context.",
+      });
+    },
+
+    onError: (error) => {
+      toast.error("Failed to pin message", {
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+      });
+    },
+  });
+
+  const unpinNode = useMutation({
+    mutationFn: async ({
+      branchId,
+      nodeId,
+    }: {
+      graphId: string;
+      branchId: string;
+      nodeId: string;
+    }) => {
+      const response = await fetch(
+        `/api/v1/branches/${branchId}/pins/${nodeId}`,
+        {
+          method: "DELETE",
+          headers: { "Idempotency-Key": crypto.randomUUID() },
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error?.error?.message || "Failed to unpin message");
+      }
+
+      return (await response.json()) as UnpinNodeResult;
+    },
+
+    onSuccess: (_data, { graphId, branchId, nodeId }) => {
+      queryClient.setQueryData<GraphPins>(
+        QUERY_KEYS.graphPins(graphId),
+        (old) =>
+          old
+            ? {
+                items: old.items.filter(
+                  (p) => !(p.branchId === branchId && p.nodeId === nodeId)
+                ),
+              }
+            : old
+      );
+      void queryClient.invalidateQueries({
+        queryKey: ["branches", branchId, "context"],
+      });
+      toast.success("Message unpinned");
+    },
+
+    onError: (error) => {
+      toast.error("Failed to unpin message", {
+        description:
+          error instanceof Error ? error.message : "Please try again.",
+      });
+    },
+  });
+
+  return {
+    pinNode: (options: PinNodeOptions) =>
+      pinNode.mutate(
+        {
+          graphId: options.graphId,
+          branchId: options.branchId,
+          nodeId: options.nodeId,
+        },
+        { onSuccess: options.onSuccess }
+      ),
+    unpinNode: (options: UnpinNodeOptions) =>
+      unpinNode.mutate(
+        {
+          graphId: options.graphId,
+          branchId: options.branchId,
+          nodeId: options.nodeId,
+        },
+        { onSuccess: options.onSuccess }
+      ),
+    isPinning: pinNode.isPending || unpinNode.isPending,
+  };
+}
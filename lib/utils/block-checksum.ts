@@ -0,0 +1,36 @@
+import { createHash } from "crypto";
+
+// JSON.stringify with sorted object keys so equal content hashes equally
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/** SHA-256 (hex) of the canonical JSON form of block content. */
+export function contentChecksum(content: unknown): string {
+  return createHash("sha256").update(canonicalJson(content)).digest("hex");
+}
+
+/**
+ * Storage checksum for a library block. Scoped to the owner so that equal
+ * content from two users never resolves to the same (possibly private) block.
+ */
+export function blockChecksum(
+  userId: string,
+  kind: string,
+  content: unknown
+): string {
+  return createHash("sha256")
+    .update(`${userId}:${kind}:${contentChecksum(content)}`)
+    .digest("hex");
+}
@@ -0,0 +1,49 @@
+import { prisma } from "@/lib/db";
+import type { NodeBookmark } from "@/lib/generated/prisma";
+
+import { findBranchesContaining } from "./dag";
+
+// Characters of the bookmarked message returned with each bookmark
+const EXCERPT_CHARS = 120;
+
+export type BookmarkItem = NodeBookmark & {
+  excerpt: string;
+  branchIds: string[];
+};
+
+/**
+ * Attach the message excerpt and the branches that reach each bookmarked node,
+ * so clients can jump to a bookmark without loading the graph first.
+ */
+export async function withBookmarkContext(
+  graphId: string,
+  bookmarks: NodeBookmark[]
+): Promise<BookmarkItem[]> {
+  if (bookmarks.length === 0) return [];
+
+  const nodeIds = bookmarks.map((b) => b.nodeId);
+  const [nodes, reach] = await Promise.all([
+    prisma.graphNode.findMany({
+      where: { id: { in: nodeIds } },
+      include: { block: true },
+    }),
+    findBranchesContaining([graphId], nodeIds),
+  ]);
+
+  const excerptOf = new Map(
+    nodes.map((n) => {
+      const content = n.block.content as { text?: string } | null;
+      return [n.id, (content?.text ?? "").slice(0, EXCERPT_CHARS)];
+    })
+  );
+  const branchesOf = new Map<string, string[]>();
+  for (const { branchId, nodeId } of reach) {
+    branchesOf.set(nodeId, [...(branchesOf.get(nodeId) ?? []), branchId]);
+  }
+
+  return bookmarks.map((b) => ({
+    ...b,
+    excerpt: excerptOf.get(b.nodeId) ?? "",
+    branchIds: branchesOf.get(b.nodeId) ?? [],
+  }));
+}
@@ -5,6 +5,8 @@ export type Branch = {
   name: string;
   rootNodeId?: string | null;
   tipNodeId?: string | null;
+  parentBranchId?: string | null;
+  forkNodeId?: string | null;
   version?: number;
   createdAt?: string;
 };
@@ -19,9 +21,10 @@ export interface BranchNode {
 
 /**
  * Builds a hierarchical tree structure from a flat array of branches.
- * The tree is organized by parent-child relationships based on rootNodeId.
+ * The tree follows the fork lineage recorded on each branch (`parentBranchId`);
+ * branches without a known parent are listed at the top level.
  *
- * @param branches - Flat array of branches from the API
+ * @param branches - Flat array of branches from the API, oldest first
  * @param activeBranchId - ID of the currently active branch
  * @returns Array of root-level branch nodes with nested children
  */
@@ -31,23 +34,25 @@ export function buildBranchTree(
 ): BranchNode[] {
   if (!branches.length) return [];
 
-  // Create a map for quick lookup
-  const branchMap = new Map<string, Branch>();
-  branches.forEach((branch) => branchMap.set(branch.id, branch));
+  const branchIds = new Set(branches.map((b) => b.id));
 
-  // Find the active path (from root to active branch)
+  // Branches on the path from a root to the active branch
   const activePath = new Set<string>();
-  if (activeBranchId) {
-    activePath.add(activeBranchId);
-    // We'll mark the path after building the tree
+  const parentOf = new Map(branches.map((b) => [b.id, b.parentBranchId]));
+  let cursor: string | null | undefined = activeBranchId;
+  while (cursor && branchIds.has(cursor) && !activePath.has(cursor)) {
+    activePath.add(cursor);
+    cursor = parentOf.get(cursor);
   }
 
-  // Group branches by their parent (rootNodeId)
+  // Group branches by their parent; a parent that no longer exists makes the
+  // branch a root
   const branchesByParent = new Map<string | null, Branch[]>();
-
   branches.forEach((branch) => {
-    // Find parent branch: a branch whose tipNodeId or any node matches this branch's rootNodeId
-    const parentKey = findParentKey(branch, branches);
+    const parentKey =
+      branch.parentBranchId && branchIds.has(branch.parentBranchId)
+        ? branch.parentBranchId
+        : null;
 
     if (!branchesByParent.has(parentKey)) {
       branchesByParent.set(parentKey, []);
@@ -56,86 +61,81 @@ export function buildBranchTree(
   });
 
   // Build tree recursively starting from root branches
-  const buildNode = (
-    branch: Branch,
-    depth: number,
-    isInActivePath: boolean
-  ): BranchNode => {
+  const buildNode = (branch: Branch, depth: number): BranchNode => {
     const childBranches = branchesByParent.get(branch.id) || [];
-    const children = childBranches.map((child) =>
-      buildNode(child, depth + 1, isInActivePath || activePath.has(child.id))
-    );
+    const children = childBranches.map((child) => buildNode(child, depth + 1));
 
     return {
       branch,
       children,
       depth,
       isActive: branch.id === activeBranchId,
-      isInActivePath: isInActivePath || branch.id === activeBranchId,
+      isInActivePath: activePath.has(branch.id),
     };
   };
 
-  // Root branches are those with no parent or with rootNodeId = null
   const rootBranches = branchesByParent.get(null) || [];
-
-  // If no explicit root, find the oldest branch (usually "main")
-  if (rootBranches.length === 0 && branches.length > 0) {
-    const oldestBranch = branches.reduce((oldest, branch) => {
-      if (!branch.createdAt) return oldest;
-      if (!oldest.createdAt) return branch;
-      return new Date(branch.createdAt) < new Date(oldest.createdAt)
-        ? branch
-        : oldest;
-    });
-    rootBranches.push(oldestBranch);
-  }
-
-  return rootBranches.map((branch) =>
-    buildNode(branch, 0, activePath.has(branch.id))
-  );
+  return rootBranches.map((branch) => buildNode(branch, 0));
 }
 
 /**
- * Finds the parent branch key for a given branch.
- * A branch's parent is determined by matching rootNodeId to another branch's nodes.
+ * Groups branches by the timeline message they were forked from, in timeline
+ * order. Only messages that at least one branch forked from are returned.
  *
- * @param branch - The branch to find a parent for
- * @param allBranches - All available branches
- * @returns The parent branch ID or null if this is a root branch
+ * @param branches - All branches of the graph
+ * @param timeline - Messages of the current branch, oldest first
+ * @param currentBranchId - ID of the currently active branch
+ * @returns One checkpoint per fork point on the timeline
  */
-function findParentKey(branch: Branch, allBranches: Branch[]): string | null {
-  if (!branch.rootNodeId) {
-    return null;
-  }
-
-  // Find a branch that contains this rootNodeId
-  // In our data model, if branch B forks from branch A at nodeId X,
-  // then branch B's rootNodeId = X, and X belongs to branch A
-  // We need to check which branch "owns" this nodeId
-
-  // For now, we'll use a heuristic: look for branches with similar creation times
-  // or whose rootNodeId matches the tipNodeId of another branch
-  for (const potentialParent of allBranches) {
-    if (potentialParent.id === branch.id) continue;
-
-    // If this branch's rootNodeId equals another branch's tipNodeId,
-    // that branch is likely the parent (though not always, since tips change)
-    if (potentialParent.tipNodeId === branch.rootNodeId) {
-      return potentialParent.id;
-    }
-  }
+export function getForkCheckpoints<T extends Branch>(
+  branches: T[],
+  timeline: { nodeId: string; excerpt: string }[],
+  currentBranchId: string | null
+): {
+  nodeId: string;
+  messageExcerpt: string;
+  branches: T[];
+  isCurrentBranch: boolean;
+}[] {
+  const byForkNode = new Map<string, T[]>();
+  branches.forEach((branch) => {
+    if (!branch.forkNodeId) return;
+    byForkNode.set(branch.forkNodeId, [
+      ...(byForkNode.get(branch.forkNodeId) ?? []),
+      branch,
+    ]);
+  });
 
-  // If we can't find a direct match, check if there's a "main" branch
-  // Branches without a clear parent likely fork from main
-  const mainBranch = allBranches.find(
-    (b) => b.name.toLowerCase() === "main" || !b.rootNodeId
-  );
+  return timeline.flatMap(({ nodeId, excerpt }) => {
+    const forks = byForkNode.get(nodeId);
+    if (!forks) return [];
+    return [
+      {
+        nodeId,
+        messageExcerpt: excerpt,
+        branches: forks,
+        isCurrentBranch: forks.some((b) => b.id === currentBranchId),
+      },
+    ];
+  });
+}
 
-  if (mainBranch && mainBranch.id !== branch.id) {
-    return mainBranch.id;
+/**
+ * Picks the branch to open for a bookmarked node: the active branch when its
+ * timeline passes through the node, otherwise the first branch that does.
+ *
+ * @param branchIds - Branches whose timeline contains the bookmarked node
+ * @param activeBranchId - ID of the currently active branch
+ * @returns Branch to navigate to, or null when no branch reaches the node
+ */
+export function pickBookmarkBranch(
+  branchIds: string[],
+  activeBranchId: string | null
+): string | null {
+  if (activeBranchId && branchIds.includes(activeBranchId)) {
+    return activeBranchId;
   }
-
-  return null;
+  return branchIds[0] ?? null;
 }
 
 /**
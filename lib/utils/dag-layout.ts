@@ -0,0 +1,99 @@
+export const LAYOUT_NODE_WIDTH = 200;
+export const LAYOUT_NODE_HEIGHT = 64;
+const GAP_X = 32;
+const GAP_Y = 48;
+
+export interface LayoutEdge {
+  parentNodeId: string;
+  childNodeId: string;
+}
+
+export interface DagLayout {
+  positions: Map<string, { x: number; y: number }>;
+  width: number;
+  height: number;
+}
+
+/**
+ * Layered top-down layout for a DAG. Each node sits one layer below its
+ * deepest parent (longest path); within a layer nodes are placed as close to
+ * the average x of their parents as the spacing allows, so linear chains
+ * stay straight and forks fan out to the right.
+ */
+export function layoutDag(nodeIds: string[], edges: LayoutEdge[]): DagLayout {
+  const known = new Set(nodeIds);
+  const parents = new Map<string, string[]>();
+  const children = new Map<string, string[]>();
+  const inDegree = new Map<string, number>(nodeIds.map((id) => [id, 0]));
+
+  for (const e of edges) {
+    if (!known.has(e.parentNodeId) || !known.has(e.childNodeId)) continue;
+    parents.set(e.childNodeId, [
+      ...(parents.get(e.childNodeId) ?? []),
+      e.parentNodeId,
+    ]);
+    children.set(e.parentNodeId, [
+      ...(children.get(e.parentNodeId) ?? []),
+      e.childNodeId,
+    ]);
+    inDegree.set(e.childNodeId, (inDegree.get(e.childNodeId) ?? 0) + 1);
+  }
+
+  // Longest-path layering in topological order (Kahn)
+  const layerOf = new Map<string, number>();
+  const queue = nodeIds.filter((id) => inDegree.get(id) === 0);
+  for (const id of queue) layerOf.set(id, 0);
+  for (let i = 0; i < queue.length; i++) {
+    const id = queue[i];
+    for (const child of children.get(id) ?? []) {
+      layerOf.set(
+        child,
+        Math.max(layerOf.get(child) ?? 0, (layerOf.get(id) ?? 0) + 1)
+      );
+      const remaining = (inDegree.get(child) ?? 0) - 1;
+      inDegree.set(child, remaining);
+      if (remaining === 0) queue.push(child);
+    }
+  }
+
+  const layers: string[][] = [];
+  for (const id of nodeIds) {
+    const layer = layerOf.get(id) ?? 0;
+    (layers[layer] ??= []).push(id);
+  }
+
+  const step = LAYOUT_NODE_WIDTH + GAP_X;
+  const positions = new Map<string, { x: number; y: number }>();
+  let width = 0;
+
+  layers.forEach((layer, depth) => {
+    const desired = layer.map((id, index) => {
+      const placed = (parents.get(id) ?? [])
+        .map((p) => positions.get(p)?.x)
+        .filter((x): x is number => x != null);
+      const x =
+        placed.length > 0
+          ? placed.reduce((sum, px) => sum + px, 0) / placed.length
+          : 0;
+      return { id, x, index };
+    });
+    desired.sort((a, b) => a.x - b.x || a.index - b.index);
+
+    let lastX = -Infinity;
+    for (const { id, x } of desired) {
+      const placedX = Math.max(x, lastX + step);
+      positions.set(id, {
+        x: placedX,
+        y: depth * (LAYOUT_NODE_HEIGHT + GAP_Y),
+      });
+      lastX = placedX;
+      width = Math.max(width, placedX + LAYOUT_NODE_WIDTH);
+    }
+  });
+
+  return {
+    positions,
+    width,
+    height: Math.max(0, layers.length * (LAYOUT_NODE_HEIGHT + GAP_Y) - GAP_Y),
+  };
+}
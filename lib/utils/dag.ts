@@ -0,0 +1,265 @@
+import { prisma } from "@/lib/db";
+import type { Prisma } from "@/lib/generated/prisma";
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Checks whether `descendantId` can be reached from `ancestorId` by walking
+ * live edges (any relation) from parent to child.
+ */
+export async function isReachable(
+  graphId: string,
+  ancestorId: string,
+  descendantId: string,
+  db: Db = prisma
+): Promise<boolean> {
+  if (ancestorId === descendantId) return true;
+
+  const rows = await db.$queryRaw<Array<{ found: boolean }>>`
+    with recursive walk(id, depth) as (
+      select ${ancestorId}::text as id, 0 as depth
+      union
+      select e."childNodeId", walk.depth + 1
+      from walk
+      join "BlockEdge" e on e."parentNodeId" = walk.id
+      where e."graphId" = ${graphId}
+        and e."deletedAt" is null
+        and walk.depth < 500
+    )
+    select exists(select 1 from walk where id = ${descendantId}) as found
+  `;
+  return Boolean(rows[0]?.found);
+}
+
+/**
+ * Adding an edge parent -> child creates a cycle iff parent is already
+ * reachable from child.
+ */
+export async function wouldCreateCycle(
+  graphId: string,
+  parentNodeId: string,
+  childNodeId: string,
+  db: Db = prisma
+): Promise<boolean> {
+  return isReachable(graphId, childNodeId, parentNodeId, db);
+}
+
+/**
+ * Checks whether `targetId` lies on the `follows` path walked back from
+ * `tipNodeId`, using the same visibility rules as the linear view. The walk
+ * stops at `stopAtNodeId` (typically the branch root) when provided.
+ *
+ * Like every timeline walk, merge nodes are traversed through their first
+ * parent only (lowest `ord`, then oldest edge).
+ */
+export async function isOnFollowsPath(
+  graphId: string,
+  tipNodeId: string,
+  targetId: string,
+  stopAtNodeId: string | null,
+  db: Db = prisma
+): Promise<boolean> {
+  if (tipNodeId === targetId) return true;
+
+  const rows = await db.$queryRaw<Array<{ found: boolean }>>`
+    with recursive backtrack(id, depth) as (
+      select ${tipNodeId}::text as id, 0 as depth
+      union all
+      select p.id, backtrack.depth + 1
+      from backtrack
+      cross join lateral (
+        select e."parentNodeId" as id
+        from "BlockEdge" e
+        join "GraphNode" pn on pn.id = e."parentNodeId"
+        where e."childNodeId" = backtrack.id
+          and e."graphId" = ${graphId}
+          and e."relation" = 'follows'
+          and e."deletedAt" is null
+          and pn."hiddenAt" is null
+        order by coalesce(e."ord", 0), e."createdAt", e.id
+        limit 1
+      ) p
+      where backtrack.id is distinct from ${stopAtNodeId}::text
+        and backtrack.depth < 200
+    )
+    select exists(select 1 from backtrack where id = ${targetId}) as found
+  `;
+  return Boolean(rows[0]?.found);
+}
+
+/**
+ * Checks whether a node's content is seen by more than one history: another
+ * branch starts or ends at it, it has `follows` children, or another node
+ * references it. Editing such a node in place would change those histories.
+ */
+export async function isNodeShared(
+  graphId: string,
+  nodeId: string,
+  exceptBranchId: string,
+  db: Db = prisma
+): Promise<boolean> {
+  const otherPointers = await db.branch.count({
+    where: {
+      id: { not: exceptBranchId },
+      OR: [{ rootNodeId: nodeId }, { tipNodeId: nodeId }],
+    },
+  });
+  const edges = await db.blockEdge.count({
+    where: {
+      graphId,
+      deletedAt: null,
+      OR: [
+        { parentNodeId: nodeId, relation: "follows" },
+        { childNodeId: nodeId, relation: "references" },
+      ],
+    },
+  });
+  return otherPointers > 0 || edges > 0;
+}
+
+/**
+ * For each branch in `graphIds`, finds which of `nodeIds` lie on its
+ * `follows` path from the tip back to the graph root.
+ */
+export async function findBranchesContaining(
+  graphIds: string[],
+  nodeIds: string[],
+  db: Db = prisma
+): Promise<Array<{ branchId: string; nodeId: string }>> {
+  if (graphIds.length === 0 || nodeIds.length === 0) return [];
+
+  return db.$queryRaw<Array<{ branchId: string; nodeId: string }>>`
+    with recursive walk("branchId", id, depth) as (
+      select b.id, b."tipNodeId", 0
+      from "Branch" b
+      where b."graphId" = any(${graphIds}::text[])
+        and b."tipNodeId" is not null
+      union
+      select walk."branchId", e."parentNodeId", walk.depth + 1
+      from walk
+      join "BlockEdge" e on e."childNodeId" = walk.id
+      join "GraphNode" pn on pn.id = e."parentNodeId"
+      where e."relation" = 'follows'
+        and e."deletedAt" is null
+        and pn."hiddenAt" is null
+        and walk.depth < 200
+    )
+    select distinct "branchId", id as "nodeId"
+    from walk
+    where id = any(${nodeIds}::text[])
+  `;
+}
+
+/**
+ * Node ids on the `follows` path from `tipNodeId` back to `stopAtNodeId`
+ * (inclusive), tip first.
+ */
+export async function getFollowsPath(
+  graphId: string,
+  tipNodeId: string,
+  stopAtNodeId: string | null,
+  db: Db = prisma
+): Promise<string[]> {
+  const rows = await db.$queryRaw<Array<{ id: string }>>`
+    with recursive backtrack(id, depth) as (
+      select ${tipNodeId}::text as id, 0 as depth
+      union all
+      select p.id, backtrack.depth + 1
+      from backtrack
+      cross join lateral (
+        select e."parentNodeId" as id
+        from "BlockEdge" e
+        join "GraphNode" pn on pn.id = e."parentNodeId"
+        where e."childNodeId" = backtrack.id
+          and e."graphId" = ${graphId}
+          and e."relation" = 'follows'
+          and e."deletedAt" is null
+          and pn."hiddenAt" is null
+        order by coalesce(e."ord", 0), e."createdAt", e.id
+        limit 1
+      ) p
+      where backtrack.id is distinct from ${stopAtNodeId}::text
+        and backtrack.depth < 200
+    )
+    select id from backtrack order by depth asc
+  `;
+  return rows.map((r) => r.id);
+}
+
+/**
+ * Every visible ancestor of `nodeId` through live `follows` edges (all
+ * parents, not just the first), mapped to its shortest distance.
+ */
+export async function getFollowsAncestors(
+  graphId: string,
+  nodeId: string,
+  db: Db = prisma
+): Promise<Map<string, number>> {
+  const rows = await db.$queryRaw<Array<{ id: string; depth: number }>>`
+    with recursive walk(id, depth) as (
+      select ${nodeId}::text as id, 0 as depth
+      union
+      select e."parentNodeId", walk.depth + 1
+      from walk
+      join "BlockEdge" e on e."childNodeId" = walk.id
+      join "GraphNode" pn on pn.id = e."parentNodeId"
+      where e."graphId" = ${graphId}
+        and e."relation" = 'follows'
+        and e."deletedAt" is null
+        and pn."hiddenAt" is null
+        and walk.depth < 500
+    )
+    select id, min(depth)::int as depth from walk group by id
+  `;
+  return new Map(rows.map((r) => [r.id, r.depth]));
+}
+
+/**
+ * Lowest common ancestor of two tips plus the nodes only reachable from each
+ * side since that ancestor, oldest first. Earlier merges count as shared
+ * history, so merging the same branch twice only sees the new messages.
+ */
+export async function findMergeBase(
+  graphId: string,
+  targetTipId: string,
+  sourceTipId: string,
+  db: Db = prisma
+): Promise<{
+  baseNodeId: string;
+  targetOnly: string[];
+  sourceOnly: string[];
+} | null> {
+  const [targetAncestors, sourceAncestors] = await Promise.all([
+    getFollowsAncestors(graphId, targetTipId, db),
+    getFollowsAncestors(graphId, sourceTipId, db),
+  ]);
+
+  // Closest shared ancestor, measured from the source side first
+  let baseNodeId: string | null = null;
+  let best: [number, number] = [Infinity, Infinity];
+  for (const [id, sourceDepth] of sourceAncestors) {
+    const targetDepth = targetAncestors.get(id);
+    if (targetDepth == null) continue;
+    if (
+      sourceDepth < best[0] ||
+      (sourceDepth === best[0] && targetDepth < best[1])
+    ) {
+      baseNodeId = id;
+      best = [sourceDepth, targetDepth];
+    }
+  }
+  if (!baseNodeId) return null;
+
+  const baseAncestors = await getFollowsAncestors(graphId, baseNodeId, db);
+  const onlyOnSide = (ancestors: Map<string, number>) =>
+    [...ancestors]
+      .filter(([id]) => !baseAncestors.has(id))
+      .sort((a, b) => b[1] - a[1])
+      .map(([id]) => id);
+
+  return {
+    baseNodeId,
+    targetOnly: onlyOnSide(targetAncestors),
+    sourceOnly: onlyOnSide(sourceAncestors),
+  };
+}
@@ -0,0 +1,98 @@
+import { baseLogger } from "@/lib/api/logger";
+import { IDEMPOTENCY_TTL_HOURS, QUOTA_WINDOW_DAYS } from "@/lib/config";
+import { prisma } from "@/lib/db";
+import type { Prisma } from "@/lib/generated/prisma";
+
+import { graphPurgeCutoff } from "./graph-trash";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Blocks younger than this are left alone: a few writes create the block
+// before the node or star that keeps it alive
+const BLOCK_GRACE_MS = HOUR_MS;
+
+export interface GarbageCollectReport {
+  dryRun: boolean;
+  // Rows deleted, or that would be deleted in a dry run
+  expiredGraphs: number;
+  orphanedBlocks: number;
+  idempotencyRecords: number;
+  tokenUsage: number;
+  durationMs: number;
+}
+
+/**
+ * Delete data nothing can reach anymore:
+ * - graphs past the trash retention period (any user)
+ * - blocks on no graph node, not starred into a library, not public and not
+ *   kept to undo or redo a tip edit
+ * - idempotency records older than the replay TTL
+ * - token usage older than the quota window
+ *
+ * With `dryRun` only counts are reported. Blocks that purging expired graphs
+ * would orphan only show up in the count of the next run.
+ */
+export async function garbageCollect({
+  dryRun = false,
+}: { dryRun?: boolean } = {}): Promise<GarbageCollectReport> {
+  const startedAt = Date.now();
+  const now = new Date(startedAt);
+  const log = baseLogger.child({ job: "gc", dryRun });
+  log.info({ event: "gc_start" });
+
+  const graphWhere: Prisma.GraphWhereInput = {
+    deletedAt: { lt: graphPurgeCutoff(now) },
+  };
+  const blockWhere: Prisma.ContextBlockWhereInput = {
+    public: false,
+    createdAt: { lt: new Date(now.getTime() - BLOCK_GRACE_MS) },
+    nodes: { none: {} },
+    stars: { none: {} },
+    editedFrom: { none: {} },
+    editedTo: { none: {} },
+  };
+  const idempotencyWhere: Prisma.IdempotencyRequestWhereInput = {
+    createdAt: {
+      lt: new Date(now.getTime() - IDEMPOTENCY_TTL_HOURS * HOUR_MS),
+    },
+  };
+  const tokenUsageWhere: Prisma.TokenUsageWhereInput = {
+    createdAt: {
+      lt: new Date(now.getTime() - QUOTA_WINDOW_DAYS * 24 * HOUR_MS),
+    },
+  };
+
+  let report: Omit<GarbageCollectReport, "dryRun" | "durationMs">;
+  if (dryRun) {
+    report = {
+      expiredGraphs: await prisma.graph.count({ where: graphWhere }),
+      orphanedBlocks: await prisma.contextBlock.count({ where: blockWhere }),
+      idempotencyRecords: await prisma.idempotencyRequest.count({
+        where: idempotencyWhere,
+      }),
+      tokenUsage: await prisma.tokenUsage.count({ where: tokenUsageWhere }),
+    };
+  } else {
+    // Graphs first, so the blocks only they used are collected in this run
+    const graphs = await prisma.graph.deleteMany({ where: graphWhere });
+    const blocks = await prisma.contextBlock.deleteMany({
+      where: blockWhere,
+    });
+    const idempotency = await prisma.idempotencyRequest.deleteMany({
+      where: idempotencyWhere,
+    });
+    const tokenUsage = await prisma.tokenUsage.deleteMany({
+      where: tokenUsageWhere,
+    });
+    report = {
+      expiredGraphs: graphs.count,
+      orphanedBlocks: blocks.count,
+      idempotencyRecords: idempotency.count,
+      tokenUsage: tokenUsage.count,
+    };
+  }
+
+  const result = { dryRun, ...report, durationMs: Date.now() - startedAt };
+  log.info({ event: "gc_end", ...result });
+  return result;
+}
@@ -0,0 +1,28 @@
+import { GRAPH_TRASH_RETENTION_DAYS } from "@/lib/config";
+import { prisma } from "@/lib/db";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** When a graph moved to the trash at `deletedAt` gets purged for good. */
+export function graphPurgeAt(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + GRAPH_TRASH_RETENTION_DAYS * DAY_MS);
+}
+
+/** Graphs deleted before this moment are past the retention period. */
+export function graphPurgeCutoff(now: Date = new Date()): Date {
+  return new Date(now.getTime() - GRAPH_TRASH_RETENTION_DAYS * DAY_MS);
+}
+
+/**
+ * Permanently delete the user's graphs that sat in the trash longer than the
+ * retention period (cascade removes nodes, edges and branches). Runs lazily
+ * whenever the user lists graphs, so no scheduler is needed; the garbage
+ * collector covers users who never come back. Returns the number of graphs
+ * purged.
+ */
+export async function purgeExpiredGraphs(userId: string): Promise<number> {
+  const { count } = await prisma.graph.deleteMany({
+    where: { userId, deletedAt: { lt: graphPurgeCutoff() } },
+  });
+  return count;
+}
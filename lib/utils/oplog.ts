@@ -0,0 +1,291 @@
+import { Errors } from "@/lib/api/errors";
+import type {
+  GraphOperation,
+  OperationKind,
+  Prisma,
+} from "@/lib/generated/prisma";
+
+import { isNodeShared } from "./dag";
+
+/** Where a branch hangs in the graph, as moved by a rebase. */
+export interface BranchLineage {
+  rootNodeId: string;
+  forkNodeId: string | null;
+  parentBranchId: string | null;
+}
+
+export interface OperationLineage {
+  before: BranchLineage;
+  after: BranchLineage;
+}
+
+export interface OperationResult {
+  operation: GraphOperation;
+  branch: { id: string; tipNodeId: string | null; version: number };
+}
+
+/**
+ * Log a branch pointer move made inside `tx`. `version` is the branch version
+ * after the move; for forks `beforeTipNodeId` is the fork node. Tip edits made
+ * in place keep the tip and pass the node's block before and after instead.
+ */
+export async function recordOperation(
+  tx: Prisma.TransactionClient,
+  data: {
+    graphId: string;
+    branchId: string;
+    kind: OperationKind;
+    forked?: boolean;
+    beforeTipNodeId: string | null;
+    afterTipNodeId: string | null;
+    version: number;
+    createdNodeIds?: string[];
+    lineage?: OperationLineage;
+    beforeBlockId?: string;
+    afterBlockId?: string;
+  }
+): Promise<GraphOperation> {
+  const { lineage, ...rest } = data;
+  return tx.graphOperation.create({
+    data: {
+      ...rest,
+      createdNodeIds: data.createdNodeIds ?? [],
+      ...(lineage
+        ? { lineage: lineage as unknown as Prisma.InputJsonValue }
+        : {}),
+    },
+  });
+}
+
+// Newest first; ids break ties between operations logged in the same ms
+const newestFirst: Prisma.GraphOperationOrderByWithRelationInput[] = [
+  { createdAt: "desc" },
+  { id: "desc" },
+];
+
+async function moveTip(
+  tx: Prisma.TransactionClient,
+  op: GraphOperation,
+  from: string | null,
+  to: string | null,
+  lineage?: BranchLineage,
+  content?: { fromBlockId: string; toBlockId: string }
+) {
+  // Swapping the block back must not change what other histories see
+  if (content && to && (await isNodeShared(op.graphId, to, op.branchId, tx))) {
+    throw Errors.validation(
+      "Cannot revert an edit of a message shared with another branch"
+    );
+  }
+
+  // A parent branch deleted since leaves the branch without one
+  const parentGone =
+    lineage?.parentBranchId &&
+    (await tx.branch.count({ where: { id: lineage.parentBranchId } })) === 0;
+
+  // CAS: the branch must still be exactly where the operation left it
+  const moved = await tx.branch.updateMany({
+    where: { id: op.branchId, tipNodeId: from, version: op.version },
+    data: {
+      tipNodeId: to,
+      version: { increment: 1 },
+      ...(lineage
+        ? {
+            ...lineage,
+            ...(parentGone ? { parentBranchId: null } : {}),
+          }
+        : {}),
+    },
+  });
+  if (moved.count === 0) {
+    const branch = await tx.branch.findUnique({ where: { id: op.branchId } });
+    throw Errors.conflictTip(branch?.tipNodeId ?? null, branch?.version ?? 0);
+  }
+
+  if (content && to) {
+    const swapped = await tx.graphNode.updateMany({
+      where: { id: to, blockId: content.fromBlockId },
+      data: { blockId: content.toBlockId },
+    });
+    if (swapped.count === 0) {
+      throw Errors.conflictTip(to, op.version);
+    }
+  }
+  return { id: op.branchId, tipNodeId: to, version: op.version + 1 };
+}
+
+// The block swap of an in-place tip edit, in the given direction
+function editedContent(op: GraphOperation, direction: "undo" | "redo") {
+  if (!op.beforeBlockId || !op.afterBlockId) return undefined;
+  return direction === "undo"
+    ? { fromBlockId: op.afterBlockId, toBlockId: op.beforeBlockId }
+    : { fromBlockId: op.beforeBlockId, toBlockId: op.afterBlockId };
+}
+
+/**
+ * The graph's newest live operation whose branch still sits where it left it.
+ * Node deletes and restores move tips outside the log; the operations of a
+ * branch they moved can no longer be reverted, so undo passes over them to
+ * the other branches rather than failing on every call.
+ */
+async function findUndoable(
+  tx: Prisma.TransactionClient,
+  graphId: string
+): Promise<GraphOperation> {
+  // Only a branch's newest live operation can match its current state
+  const latest = await tx.graphOperation.findMany({
+    where: { graphId, undoneAt: null },
+    orderBy: newestFirst,
+    distinct: ["branchId"],
+    include: { branch: { select: { tipNodeId: true, version: true } } },
+  });
+  if (latest.length === 0) throw Errors.notFound("Operation to undo");
+
+  const current = latest.find(
+    (op) =>
+      op.branch.tipNodeId === op.afterTipNodeId &&
+      op.branch.version === op.version
+  );
+  if (!current) {
+    const [{ branch }] = latest;
+    throw Errors.conflictTip(branch.tipNodeId, branch.version);
+  }
+  return current;
+}
+
+/**
+ * Revert the graph's latest live operation: move its branch tip back (and for
+ * a rebase, its root and fork lineage; for an in-place edit, the tip's block)
+ * and hide the nodes it created. Operations of branches moved since without
+ * an operation are passed over. Fails when a created node became the root of
+ * another branch.
+ */
+export async function undoLastOperation(
+  tx: Prisma.TransactionClient,
+  graphId: string
+): Promise<OperationResult> {
+  const op = await findUndoable(tx, graphId);
+
+  if (op.createdNodeIds.length > 0) {
+    const anchored = await tx.branch.findMany({
+      where: {
+        graphId,
+        id: { not: op.branchId },
+        rootNodeId: { in: op.createdNodeIds },
+      },
+      select: { id: true },
+    });
+    if (anchored.length > 0) {
+      throw Errors.cannotDeleteBranchRoot(anchored.map((b) => b.id));
+    }
+  }
+
+  const lineage = op.lineage as OperationLineage | null;
+  const branch = await moveTip(
+    tx,
+    op,
+    op.afterTipNodeId,
+    op.beforeTipNodeId,
+    lineage?.before,
+    editedContent(op, "undo")
+  );
+
+  // The branch is back where its previous operation left it, so that one is
+  // next in line for undo
+  const previous = await tx.graphOperation.findFirst({
+    where: { branchId: op.branchId, undoneAt: null, id: { not: op.id } },
+    orderBy: newestFirst,
+  });
+  if (previous && previous.afterTipNodeId === branch.tipNodeId) {
+    await tx.graphOperation.update({
+      where: { id: previous.id },
+      data: { version: branch.version },
+    });
+  }
+
+  const now = new Date();
+  // Nodes already hidden by a delete stay out of the redo below
+  await tx.graphNode.updateMany({
+    where: { id: { in: op.createdNodeIds }, hiddenAt: null },
+    data: { hiddenAt: now },
+  });
+  const operation = await tx.graphOperation.update({
+    where: { id: op.id },
+    data: { undoneAt: now, version: branch.version },
+  });
+  await tx.graph.update({
+    where: { id: graphId },
+    data: { lastActivityAt: now },
+  });
+
+  return { operation, branch };
+}
+
+/**
+ * Re-apply the most recently undone operation. Recording a new operation after
+ * an undo discards everything undone before it, like an editor's redo stack.
+ */
+export async function redoNextOperation(
+  tx: Prisma.TransactionClient,
+  graphId: string
+): Promise<OperationResult> {
+  const latest = await tx.graphOperation.findFirst({
+    where: { graphId },
+    orderBy: newestFirst,
+    select: { createdAt: true },
+  });
+  if (!latest) throw Errors.notFound("Operation to redo");
+
+  // Undone operations still on the redo stack, most recently undone first
+  const undone: Prisma.GraphOperationWhereInput = {
+    graphId,
+    undoneAt: { gte: latest.createdAt },
+  };
+  const redoOrder: Prisma.GraphOperationOrderByWithRelationInput[] = [
+    { undoneAt: "desc" },
+    { id: "desc" },
+  ];
+  const op = await tx.graphOperation.findFirst({
+    where: undone,
+    orderBy: redoOrder,
+  });
+  if (!op) throw Errors.notFound("Operation to redo");
+
+  const lineage = op.lineage as OperationLineage | null;
+  const branch = await moveTip(
+    tx,
+    op,
+    op.beforeTipNodeId,
+    op.afterTipNodeId,
+    lineage?.after,
+    editedContent(op, "redo")
+  );
+
+  // The branch is back where the next undone operation on it started from
+  const next = await tx.graphOperation.findFirst({
+    where: { ...undone, branchId: op.branchId, id: { not: op.id } },
+    orderBy: redoOrder,
+  });
+  if (next && next.beforeTipNodeId === branch.tipNodeId) {
+    await tx.graphOperation.update({
+      where: { id: next.id },
+      data: { version: branch.version },
+    });
+  }
+
+  // Only unhide what the undo hid
+  await tx.graphNode.updateMany({
+    where: { id: { in: op.createdNodeIds }, hiddenAt: op.undoneAt },
+    data: { hiddenAt: null },
+  });
+  const operation = await tx.graphOperation.update({
+    where: { id: op.id },
+    data: { undoneAt: null, version: branch.version },
+  });
+  await tx.graph.update({
+    where: { id: graphId },
+    data: { lastActivityAt: new Date() },
+  });
+
+  return { operation, branch };
+}
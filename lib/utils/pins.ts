@@ -0,0 +1,17 @@
+import type { ContextBlock, GraphNode, NodePin } from "@/lib/generated/prisma";
+
+// Characters of the pinned message returned with each pin
+const EXCERPT_CHARS = 120;
+
+/** Shape a pin, loaded with its node and block, for API responses. */
+export function toPinItem(
+  pin: NodePin & { node: GraphNode & { block: ContextBlock } }
+) {
+  const { node, ...rest } = pin;
+  const content = node.block.content as { text?: string } | null;
+  return {
+    ...rest,
+    kind: node.block.kind,
+    excerpt: (content?.text ?? "").slice(0, EXCERPT_CHARS),
+  };
+}
@@ -0,0 +1,91 @@
+import type { ContextBlock, Prisma } from "@/lib/generated/prisma";
+
+/**
+ * Append copies of `sourceNodeIds` (in order) after `parentNodeId`. Copies are
+ * new graph nodes pointing at the same immutable blocks, chained with
+ * `follows` edges; each copy keeps the original's live references. Returns the
+ * new nodes in order.
+ *
+ * With a null `parentNodeId` the first copy starts a new root. When
+ * `targetGraphId` differs from the source graph, referenced nodes are copied
+ * into the target graph as well.
+ */
+export async function replayNodes(
+  tx: Prisma.TransactionClient,
+  graphId: string,
+  parentNodeId: string | null,
+  sourceNodeIds: string[],
+  targetGraphId: string = graphId
+): Promise<Array<{ nodeId: string; block: ContextBlock }>> {
+  const sources = await tx.graphNode.findMany({
+    where: { id: { in: sourceNodeIds }, graphId },
+    include: { block: true },
+  });
+  const byId = new Map(sources.map((n) => [n.id, n]));
+
+  const refs = await tx.blockEdge.findMany({
+    where: {
+      graphId,
+      parentNodeId: { in: sourceNodeIds },
+      relation: "references",
+      deletedAt: null,
+    },
+    include: { childNode: { select: { blockId: true } } },
+    orderBy: [{ ord: "asc" }, { createdAt: "asc" }],
+  });
+
+  // Referenced node ids as seen from the target graph
+  const refTargets = new Map<string, string>();
+  const resolveRef = async (ref: (typeof refs)[number]) => {
+    if (targetGraphId === graphId) return ref.childNodeId;
+    const existing = refTargets.get(ref.childNodeId);
+    if (existing) return existing;
+    const copy = await tx.graphNode.create({
+      data: { graphId: targetGraphId, blockId: ref.childNode.blockId },
+    });
+    refTargets.set(ref.childNodeId, copy.id);
+    return copy.id;
+  };
+
+  const items: Array<{ nodeId: string; block: ContextBlock }> = [];
+  let tipId = parentNodeId;
+  for (const sourceId of sourceNodeIds) {
+    const source = byId.get(sourceId);
+    if (!source) continue;
+
+    const node = await tx.graphNode.create({
+      data: { graphId: targetGraphId, blockId: source.blockId },
+    });
+    if (tipId) {
+      await tx.blockEdge.create({
+        data: {
+          graphId: targetGraphId,
+          parentNodeId: tipId,
+          childNodeId: node.id,
+          relation: "follows",
+          ord: 0,
+        },
+      });
+    }
+
+    const sourceRefs = refs.filter((r) => r.parentNodeId === sourceId);
+    if (sourceRefs.length > 0) {
+      const data: Prisma.BlockEdgeCreateManyInput[] = [];
+      for (const r of sourceRefs) {
+        data.push({
+          graphId: targetGraphId,
+          parentNodeId: node.id,
+          childNodeId: await resolveRef(r),
+          relation: "references",
+          ord: r.ord,
+        });
+      }
+      await tx.blockEdge.createMany({ data });
+    }
+
+    items.push({ nodeId: node.id, block: source.block });
+    tipId = node.id;
+  }
+
+  return items;
+}
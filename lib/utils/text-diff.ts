@@ -0,0 +1,61 @@
+export type DiffSegment = {
+  type: "equal" | "added" | "removed";
+  text: string;
+};
+
+// LCS table size above which the diff degrades to "all removed, all added"
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Word-level diff of two texts (whitespace is kept attached to the words).
+ * Returns segments in reading order; consecutive segments of the same type
+ * are merged.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = before.match(/\s*\S+\s*/g) ?? [];
+  const b = after.match(/\s*\S+\s*/g) ?? [];
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      { type: "removed" as const, text: before },
+      { type: "added" as const, text: after },
+    ].filter((s) => s.text.length > 0);
+  }
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..], flattened
+  const cols = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * cols);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] =
+        a[i].trim() === b[j].trim()
+          ? lcs[(i + 1) * cols + j + 1] + 1
+          : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment["type"], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) last.text += text;
+    else segments.push({ type, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i].trim() === b[j].trim()) {
+      push("equal", b[j]);
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+      push("removed", a[i++]);
+    } else {
+      push("added", b[j++]);
+    }
+  }
+  while (i < a.length) push("removed", a[i++]);
+  while (j < b.length) push("added", b[j++]);
+
+  return segments;
+}
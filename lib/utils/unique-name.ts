@@ -1,19 +1,36 @@
 import { baseLogger } from "@/lib/api/logger";
 import { prisma } from "@/lib/db";
+import type { Prisma } from "@/lib/generated/prisma";
+
+// Longest title the graph schemas accept
+const GRAPH_TITLE_MAX_LENGTH = 120;
+
+// Cut the title so that it still fits once the suffix is appended
+function fitTitle(title: string, suffix = ""): string {
+  const max = GRAPH_TITLE_MAX_LENGTH - suffix.length;
+  return (title.length > max ? title.slice(0, max).trimEnd() : title) + suffix;
+}
 
 /**
  * Ensures a graph title is unique for a given user by appending (2), (3), etc. if needed.
- * Returns the unique title that can be safely used.
+ * Returns the unique title that can be safely used. Pass a transaction client
+ * to check against graphs created earlier in the same transaction. Graphs in
+ * the trash don't count; restoring one re-checks its title. Titles are cut
+ * to the schema's length limit, suffix included.
  */
 export async function ensureUniqueGraphTitle(
   userId: string,
-  desiredTitle: string
+  title: string,
+  db: Prisma.TransactionClient = prisma
 ): Promise<string> {
+  const desiredTitle = fitTitle(title);
+
   // Check if the base title exists
-  const existing = await prisma.graph.findFirst({
+  const existing = await db.graph.findFirst({
     where: {
       userId,
       title: desiredTitle,
+      deletedAt: null,
     },
   });
 
@@ -23,13 +40,14 @@ export async function ensureUniqueGraphTitle(
 
   // Find the next available number
   let counter = 2;
-  let candidateTitle = `${desiredTitle} (${counter})`;
+  let candidateTitle = fitTitle(desiredTitle, ` (${counter})`);
 
   while (true) {
-    const exists = await prisma.graph.findFirst({
+    const exists = await db.graph.findFirst({
       where: {
         userId,
         title: candidateTitle,
+        deletedAt: null,
       },
     });
 
@@ -38,7 +56,7 @@ export async function ensureUniqueGraphTitle(
     }
 
     counter++;
-    candidateTitle = `${desiredTitle} (${counter})`;
+    candidateTitle = fitTitle(desiredTitle, ` (${counter})`);
 
     // Safety check to prevent infinite loops
     if (counter > 1000) {
@@ -47,7 +65,7 @@ export async function ensureUniqueGraphTitle(
         desiredTitle,
         attempts: counter,
       });
-      return `${desiredTitle} (${Date.now()})`;
+      return fitTitle(desiredTitle, ` (${Date.now()})`);
     }
   }
 }
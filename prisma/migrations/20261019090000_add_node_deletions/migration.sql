@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "NodeDeletion" (
+    "id" TEXT NOT NULL,
+    "graphId" TEXT NOT NULL,
+    "nodeId" TEXT NOT NULL,
+    "deletedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "restoredAt" TIMESTAMP(3),
+    "deletedEdgeIds" TEXT[],
+    "bridgeEdgeIds" TEXT[],
+    "retargetedTips" JSONB NOT NULL,
+
+    CONSTRAINT "NodeDeletion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "NodeDeletion_graphId_restoredAt_deletedAt_idx" ON "NodeDeletion"("graphId", "restoredAt", "deletedAt");
+
+-- CreateIndex
+CREATE INDEX "NodeDeletion_nodeId_idx" ON "NodeDeletion"("nodeId");
+
+-- AddForeignKey
+ALTER TABLE "NodeDeletion" ADD CONSTRAINT "NodeDeletion_graphId_fkey" FOREIGN KEY ("graphId") REFERENCES "Graph"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NodeDeletion" ADD CONSTRAINT "NodeDeletion_nodeId_fkey" FOREIGN KEY ("nodeId") REFERENCES "GraphNode"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "BlockStar" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "blockId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BlockStar_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BlockStar_userId_blockId_key" ON "BlockStar"("userId", "blockId");
+
+-- CreateIndex
+CREATE INDEX "BlockStar_blockId_idx" ON "BlockStar"("blockId");
+
+-- CreateIndex
+CREATE INDEX "ContextBlock_userId_createdAt_idx" ON "ContextBlock"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "BlockStar" ADD CONSTRAINT "BlockStar_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BlockStar" ADD CONSTRAINT "BlockStar_blockId_fkey" FOREIGN KEY ("blockId") REFERENCES "ContextBlock"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Graph" ADD COLUMN     "description" TEXT;
@@ -0,0 +1,57 @@
+-- AlterTable
+ALTER TABLE "Branch" ADD COLUMN "parentBranchId" TEXT,
+ADD COLUMN "forkNodeId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Branch_parentBranchId_idx" ON "Branch"("parentBranchId");
+
+-- AddForeignKey
+ALTER TABLE "Branch" ADD CONSTRAINT "Branch_forkNodeId_fkey" FOREIGN KEY ("forkNodeId") REFERENCES "GraphNode"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Branch" ADD CONSTRAINT "Branch_parentBranchId_fkey" FOREIGN KEY ("parentBranchId") REFERENCES "Branch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: every branch except the first one of its graph was forked at its
+-- root node
+UPDATE "Branch" b
+SET "forkNodeId" = b."rootNodeId"
+WHERE EXISTS (
+  SELECT 1 FROM "Branch" o
+  WHERE o."graphId" = b."graphId"
+    AND (o."createdAt", o.id) < (b."createdAt", b.id)
+);
+
+-- Backfill: the parent is the oldest earlier branch whose timeline (first
+-- follows parents from its tip) still contains the fork node
+WITH RECURSIVE timeline AS (
+  SELECT b.id AS "branchId", b."graphId", b."createdAt", b."tipNodeId" AS "nodeId", 0 AS depth
+  FROM "Branch" b
+  WHERE b."tipNodeId" IS NOT NULL
+  UNION ALL
+  SELECT t."branchId", t."graphId", t."createdAt", p."parentNodeId", t.depth + 1
+  FROM timeline t
+  CROSS JOIN LATERAL (
+    SELECT e."parentNodeId"
+    FROM "BlockEdge" e
+    WHERE e."childNodeId" = t."nodeId"
+      AND e."relation" = 'follows'
+      AND e."deletedAt" IS NULL
+    ORDER BY coalesce(e."ord", 0), e."createdAt", e.id
+    LIMIT 1
+  ) p
+  WHERE t.depth < 10000
+),
+lineage AS (
+  SELECT DISTINCT ON (c.id) c.id AS "childId", t."branchId" AS "parentBranchId"
+  FROM "Branch" c
+  JOIN timeline t
+    ON t."graphId" = c."graphId"
+   AND t."nodeId" = c."forkNodeId"
+   AND t."branchId" <> c.id
+   AND t."createdAt" < c."createdAt"
+  ORDER BY c.id, t."createdAt", t."branchId"
+)
+UPDATE "Branch" b
+SET "parentBranchId" = lineage."parentBranchId"
+FROM lineage
+WHERE b.id = lineage."childId";
@@ -0,0 +1,33 @@
+-- AlterEnum
+ALTER TYPE "BlockKind" ADD VALUE 'summary';
+
+-- CreateTable
+CREATE TABLE "SummarySpan" (
+    "id" TEXT NOT NULL,
+    "graphId" TEXT NOT NULL,
+    "summaryNodeId" TEXT NOT NULL,
+    "startNodeId" TEXT NOT NULL,
+    "endNodeId" TEXT NOT NULL,
+    "nodeCount" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SummarySpan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SummarySpan_summaryNodeId_key" ON "SummarySpan"("summaryNodeId");
+
+-- CreateIndex
+CREATE INDEX "SummarySpan_graphId_endNodeId_idx" ON "SummarySpan"("graphId", "endNodeId");
+
+-- AddForeignKey
+ALTER TABLE "SummarySpan" ADD CONSTRAINT "SummarySpan_graphId_fkey" FOREIGN KEY ("graphId") REFERENCES "Graph"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SummarySpan" ADD CONSTRAINT "SummarySpan_summaryNodeId_fkey" FOREIGN KEY ("summaryNodeId") REFERENCES "GraphNode"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SummarySpan" ADD CONSTRAINT "SummarySpan_startNodeId_fkey" FOREIGN KEY ("startNodeId") REFERENCES "GraphNode"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SummarySpan" ADD CONSTRAINT "SummarySpan_endNodeId_fkey" FOREIGN KEY ("endNodeId") REFERENCES "GraphNode"("id") ON DELETE CASCADE ON UPDATE CASCADE;
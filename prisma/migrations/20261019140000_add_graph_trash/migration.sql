@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Graph" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Graph_userId_deletedAt_idx" ON "Graph"("userId", "deletedAt");
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "OperationKind" AS ENUM ('append', 'send', 'generate', 'jump', 'replace_tip', 'merge', 'cherry_pick');
+
+-- CreateTable
+CREATE TABLE "GraphOperation" (
+    "id" TEXT NOT NULL,
+    "graphId" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "kind" "OperationKind" NOT NULL,
+    "forked" BOOLEAN NOT NULL DEFAULT false,
+    "beforeTipNodeId" TEXT,
+    "afterTipNodeId" TEXT,
+    "version" INTEGER NOT NULL,
+    "createdNodeIds" TEXT[],
+    "undoneAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GraphOperation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "GraphOperation_graphId_createdAt_idx" ON "GraphOperation"("graphId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "GraphOperation_branchId_createdAt_idx" ON "GraphOperation"("branchId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "GraphOperation" ADD CONSTRAINT "GraphOperation_graphId_fkey" FOREIGN KEY ("graphId") REFERENCES "Graph"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GraphOperation" ADD CONSTRAINT "GraphOperation_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
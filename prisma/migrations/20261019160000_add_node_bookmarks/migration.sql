@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "NodeBookmark" (
+    "id" TEXT NOT NULL,
+    "graphId" TEXT NOT NULL,
+    "nodeId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "color" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "NodeBookmark_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NodeBookmark_nodeId_key" ON "NodeBookmark"("nodeId");
+
+-- CreateIndex
+CREATE INDEX "NodeBookmark_graphId_createdAt_idx" ON "NodeBookmark"("graphId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "NodeBookmark" ADD CONSTRAINT "NodeBookmark_graphId_fkey" FOREIGN KEY ("graphId") REFERENCES "Graph"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NodeBookmark" ADD CONSTRAINT "NodeBookmark_nodeId_fkey" FOREIGN KEY ("nodeId") REFERENCES "GraphNode"("id") ON DELETE CASCADE ON UPDATE CASCADE;
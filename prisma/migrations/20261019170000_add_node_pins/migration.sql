@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "NodePin" (
+    "id" TEXT NOT NULL,
+    "graphId" TEXT NOT NULL,
+    "branchId" TEXT NOT NULL,
+    "nodeId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "NodePin_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "NodePin_graphId_idx" ON "NodePin"("graphId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NodePin_branchId_nodeId_key" ON "NodePin"("branchId", "nodeId");
+
+-- AddForeignKey
+ALTER TABLE "NodePin" ADD CONSTRAINT "NodePin_graphId_fkey" FOREIGN KEY ("graphId") REFERENCES "Graph"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NodePin" ADD CONSTRAINT "NodePin_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "Branch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NodePin" ADD CONSTRAINT "NodePin_nodeId_fkey" FOREIGN KEY ("nodeId") REFERENCES "GraphNode"("id") ON DELETE CASCADE ON UPDATE CASCADE;
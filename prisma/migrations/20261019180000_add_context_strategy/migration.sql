@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "ContextStrategy" AS ENUM ('recent', 'head_tail', 'summary_recent');
+
+-- AlterTable
+ALTER TABLE "Graph" ADD COLUMN     "contextStrategy" "ContextStrategy";
@@ -0,0 +1,20 @@
+-- AlterEnum
+ALTER TYPE "ContextStrategy" ADD VALUE 'retrieval';
+
+-- CreateTable
+CREATE TABLE "BlockEmbedding" (
+    "id" TEXT NOT NULL,
+    "blockId" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "textHash" TEXT NOT NULL,
+    "vector" DOUBLE PRECISION[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BlockEmbedding_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BlockEmbedding_blockId_model_key" ON "BlockEmbedding"("blockId", "model");
+
+-- AddForeignKey
+ALTER TABLE "BlockEmbedding" ADD CONSTRAINT "BlockEmbedding_blockId_fkey" FOREIGN KEY ("blockId") REFERENCES "ContextBlock"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "OperationKind" ADD VALUE 'rebase';
+
+-- AlterTable
+ALTER TABLE "GraphOperation" ADD COLUMN     "lineage" JSONB;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "GraphOperation" ADD COLUMN     "afterBlockId" TEXT,
+ADD COLUMN     "beforeBlockId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "GraphOperation" ADD CONSTRAINT "GraphOperation_beforeBlockId_fkey" FOREIGN KEY ("beforeBlockId") REFERENCES "ContextBlock"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GraphOperation" ADD CONSTRAINT "GraphOperation_afterBlockId_fkey" FOREIGN KEY ("afterBlockId") REFERENCES "ContextBlock"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+#!/usr/bin/env tsx
+/**
+ * Garbage Collection Script
+ *
+ * Deletes graphs past the trash retention period, context blocks no graph,
+ * library or public listing uses anymore, expired idempotency records and
+ * token usage older than the quota window.
+ * Run with: pnpm gc            (delete)
+ *           pnpm gc --dry-run  (only report what would be deleted)
+ *
+ * Reads DATABASE_URL and the retention settings from .env.local.
+ */
+import * as dotenv from "dotenv";
+import * as path from "path";
+
+// Load environment variables from .env.local
+dotenv.config({ path: path.resolve(process.cwd(), ".env.local") });
+
+async function main() {
+  // Imported after dotenv so config picks up .env.local
+  const { garbageCollect } = await import("@/lib/utils/garbage-collect");
+  const { prisma } = await import("@/lib/db");
+
+  const dryRun = process.argv.includes("--dry-run");
+  try {
+    const report = await garbageCollect({ dryRun });
+
+    console.log(dryRun ? "🔍 Dry run, nothing deleted:" : "🧹 Deleted:");
+    console.log(`   Expired graphs in trash: ${report.expiredGraphs}`);
+    console.log(`   Orphaned context blocks: ${report.orphanedBlocks}`);
+    console.log(`   Idempotency records:     ${report.idempotencyRecords}`);
+    console.log(`   Token usage records:     ${report.tokenUsage}`);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error("❌ Garbage collection failed:", error);
+  process.exit(1);
+});